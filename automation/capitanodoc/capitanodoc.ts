@@ -68,6 +68,7 @@ const commandHeadings: { [key: string]: string } = {
 	os: 'OS',
 	util: 'Utilities',
 	ssh: 'Network',
+	cp: 'Network',
 	scan: 'Network',
 	tunnel: 'Network',
 	build: 'Deploy',
@@ -7,22 +7,25 @@ _balena_complete()
   local cur prev
 
   # Valid top-level completions
-  main_commands="api-key api-keys app block build config deploy device devices env envs fleet fleets internal join key keys leave local login logout logs notes orgs os preload push release releases scan settings ssh support tag tags tunnel util version whoami"
+  main_commands="api-key api-keys app block build config cp deploy device devices env envs fleet fleets internal join key keys leave local login logout logs notes orgs os preload push release releases scan settings ssh support tag tags tunnel util version whoami"
   # Sub-completions
   api_key_cmds="generate revoke"
   app_cmds="create"
   block_cmds="create"
   config_cmds="generate inject read reconfigure write"
-  device_cmds="deactivate identify init local-mode move os-update pin public-url purge reboot register rename restart rm shutdown start-service stop-service track-fleet"
+  device_cmds="deactivate identify init local-mode local-state move os-update pin public-url purge reboot register rename restart rm shutdown start-service stop-service track-fleet"
   devices_cmds="supported"
   env_cmds="add rename rm"
+  envs_cmds="apply"
   fleet_cmds="create pin purge rename restart rm track-latest"
   internal_cmds="osinit"
   key_cmds="add rm"
   local_cmds="configure flash"
+  logs_cmds="replay"
   os_cmds="build-config configure download initialize versions"
-  release_cmds="finalize invalidate validate"
+  release_cmds="diff export finalize import invalidate promote rollout validate"
   tag_cmds="rm set"
+  tunnel_cmds="profiles rm save up"
 
 
 
@@ -57,6 +60,9 @@ _balena_complete()
       env)
         COMPREPLY=( $(compgen -W "$env_cmds" -- $cur) )
         ;;
+      envs)
+        COMPREPLY=( $(compgen -W "$envs_cmds" -- $cur) )
+        ;;
       fleet)
         COMPREPLY=( $(compgen -W "$fleet_cmds" -- $cur) )
         ;;
@@ -69,6 +75,9 @@ _balena_complete()
       local)
         COMPREPLY=( $(compgen -W "$local_cmds" -- $cur) )
         ;;
+      logs)
+        COMPREPLY=( $(compgen -W "$logs_cmds" -- $cur) )
+        ;;
       os)
         COMPREPLY=( $(compgen -W "$os_cmds" -- $cur) )
         ;;
@@ -78,6 +87,9 @@ _balena_complete()
       tag)
         COMPREPLY=( $(compgen -W "$tag_cmds" -- $cur) )
         ;;
+      tunnel)
+        COMPREPLY=( $(compgen -W "$tunnel_cmds" -- $cur) )
+        ;;
 
       "*")
         ;;
@@ -17,8 +17,7 @@
 
 import { Args, Flags } from '@oclif/core';
 import Command from '../../command';
-import { getBalenaSdk } from '../../utils/lazy';
-import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, getVisuals } from '../../utils/lazy';
 import * as compose from '../../utils/compose';
 import type {
 	ApplicationType,
@@ -36,18 +35,25 @@ import type { ComposeCliFlags, ComposeOpts } from '../../utils/compose-types';
 import { buildProject, composeCliFlags } from '../../utils/compose_ts';
 import type { BuildOpts, DockerCliFlags } from '../../utils/docker';
 import { dockerCliFlags } from '../../utils/docker';
+import { lowercaseIfSlug } from '../../utils/normalization';
 
 // TODO: For this special one we can't use Interfaces.InferredFlags/InferredArgs
 // because of the 'registry-secrets' type which is defined in the actual code
 // as a path (string | undefined) but then the cli turns it into an object
 interface FlagsDef extends ComposeCliFlags, DockerCliFlags {
-	arch?: string;
-	deviceType?: string;
-	fleet?: string;
+	arch?: string[];
+	deviceType?: string[];
+	fleet?: string[];
 	source?: string; // Not part of command profile - source param copied here.
 	help: void;
 }
 
+interface BuildTarget {
+	appType?: Pick<ApplicationType, 'supports_multicontainer'>;
+	arch: string;
+	deviceType: string;
+}
+
 export default class BuildCmd extends Command {
 	public static description = `\
 Build a project locally.
@@ -59,6 +65,13 @@ balenaCloud build servers.)
 
 You must specify either a fleet, or the device type and architecture.
 
+To build the same project for several architectures, the --fleet or the
+--deviceType (and optionally --arch) options may be repeated. The builds are
+then run in parallel with inline build logs, and each image is tagged with the
+architecture it was built for (e.g. 'myproject_main:aarch64', or
+'myproject_main:mytag-aarch64' if --tag is used), followed by a summary of all
+builds. Only one fleet or device type per architecture may be specified.
+
 This command will look into the given source directory (or the current working
 directory if one isn't specified) for a docker-compose.yml file, and if found,
 each service defined in the compose file will be built. If a compose file isn't
@@ -75,6 +88,8 @@ ${dockerignoreHelp}
 		'$ balena build ./source/ --fleet myorg/myfleet',
 		'$ balena build --deviceType raspberrypi3 --emulated',
 		'$ balena build --deviceType raspberrypi3 --arch armv7hf --emulated',
+		'$ balena build --fleet myorg/fleet-arm --fleet myorg/fleet-amd64',
+		'$ balena build --deviceType raspberrypi4-64 --deviceType raspberrypi3 --deviceType intel-nuc --emulated',
 		'$ balena build --docker /var/run/docker.sock --fleet myFleet   # Linux, Mac',
 		'$ balena build --docker //./pipe/docker_engine --fleet myFleet # Windows',
 		'$ balena build --dockerHost my.docker.host --dockerPort 2376 --ca ca.pem --key key.pem --cert cert.pem -f myFleet',
@@ -88,14 +103,25 @@ ${dockerignoreHelp}
 
 	public static flags = {
 		arch: Flags.string({
-			description: 'the architecture to build for',
+			description:
+				'the architecture to build for (can be repeated, one per device type)',
 			char: 'A',
+			multiple: true,
+			multipleNonGreedy: true,
 		}),
 		deviceType: Flags.string({
-			description: 'the type of device this build is for',
+			description: 'the type of device this build is for (can be repeated)',
 			char: 'd',
+			multiple: true,
+			multipleNonGreedy: true,
+		}),
+		fleet: Flags.string({
+			char: 'f',
+			description: 'fleet name or slug (preferred) (can be repeated)',
+			parse: lowercaseIfSlug,
+			multiple: true,
+			multipleNonGreedy: true,
 		}),
-		fleet: cf.fleet,
 		...composeCliFlags,
 		...dockerCliFlags,
 		// NOTE: Not supporting -h for help, because of clash with -h in DockerCliFlags
@@ -108,7 +134,7 @@ ${dockerignoreHelp}
 	public async run() {
 		const { args: params, flags: options } = await this.parse(BuildCmd);
 
-		await Command.checkLoggedInIf(!!options.fleet);
+		await Command.checkLoggedInIf(!!options.fleet?.length);
 
 		(await import('events')).defaultMaxListeners = 1000;
 
@@ -130,21 +156,26 @@ ${dockerignoreHelp}
 			console.log(buildArgDeprecation);
 		}
 
-		const app = await this.getAppAndResolveArch(options);
+		const targets = await this.getTargets(options);
 
 		const { docker, buildOpts, composeOpts } = await this.prepareBuild(options);
 
-		try {
-			await this.buildProject(docker, logger, composeOpts, {
-				appType: app?.application_type?.[0],
-				arch: options.arch!,
-				deviceType: options.deviceType!,
+		if (targets.length === 1) {
+			try {
+				await this.buildProject(docker, logger, composeOpts, {
+					...targets[0],
+					buildEmulated: options.emulated,
+					buildOpts,
+				});
+			} catch (err) {
+				logger.logError('Build failed.');
+				throw err;
+			}
+		} else {
+			await this.buildMatrix(docker, logger, composeOpts, targets, {
 				buildEmulated: options.emulated,
 				buildOpts,
 			});
-		} catch (err) {
-			logger.logError('Build failed.');
-			throw err;
 		}
 
 		logger.outputDeferredMessages();
@@ -152,16 +183,25 @@ ${dockerignoreHelp}
 	}
 
 	protected async validateOptions(opts: FlagsDef, sdk: BalenaSDK) {
+		const { ExpectedError } = await import('../../errors');
+		const fleetCount = opts.fleet?.length ?? 0;
+		const archCount = opts.arch?.length ?? 0;
+		const deviceTypeCount = opts.deviceType?.length ?? 0;
+
 		// Validate option combinations
 		if (
-			(opts.fleet == null && (opts.arch == null || opts.deviceType == null)) ||
-			(opts.fleet != null && (opts.arch != null || opts.deviceType != null))
+			(fleetCount === 0 && (archCount === 0 || deviceTypeCount === 0)) ||
+			(fleetCount > 0 && (archCount > 0 || deviceTypeCount > 0))
 		) {
-			const { ExpectedError } = await import('../../errors');
 			throw new ExpectedError(
 				'You must specify either a fleet (-f), or the device type (-d) and optionally the architecture (-A)',
 			);
 		}
+		if (fleetCount === 0 && archCount !== deviceTypeCount) {
+			throw new ExpectedError(
+				'When building for multiple device types, the architecture (-A) must be specified for each of them, or for none',
+			);
+		}
 
 		// Validate project directory
 		const { validateProjectDirectory } = await import('../../utils/compose_ts');
@@ -180,46 +220,86 @@ ${dockerignoreHelp}
 	}
 
 	protected async resolveArchFromDeviceType(sdk: BalenaSDK, opts: FlagsDef) {
-		if (opts.deviceType != null && opts.arch == null) {
-			try {
-				const deviceTypeOpts = {
-					$select: 'is_of__cpu_architecture',
-					$expand: {
-						is_of__cpu_architecture: {
-							$select: 'slug',
-						},
+		if (opts.deviceType?.length && !opts.arch?.length) {
+			opts.arch = [];
+			for (const deviceType of opts.deviceType) {
+				opts.arch.push(await this.getDeviceTypeArch(sdk, deviceType));
+			}
+		}
+	}
+
+	protected async getDeviceTypeArch(
+		sdk: BalenaSDK,
+		deviceType: string,
+	): Promise<string> {
+		try {
+			const deviceTypeOpts = {
+				$select: 'is_of__cpu_architecture',
+				$expand: {
+					is_of__cpu_architecture: {
+						$select: 'slug',
 					},
-				} satisfies PineOptions<DeviceType>;
-				opts.arch = (
-					(await sdk.models.deviceType.get(
-						opts.deviceType,
-						deviceTypeOpts,
-					)) as PineTypedResult<DeviceType, typeof deviceTypeOpts>
-				).is_of__cpu_architecture[0].slug;
-			} catch (err) {
-				const { ExpectedError } = await import('../../errors');
-				if (err instanceof sdk.errors.BalenaInvalidDeviceType) {
-					let message = err.message;
-					if (!(await sdk.auth.isLoggedIn())) {
-						message = `${message}. In case you are trying to use a private device type, please try to log in first.`;
-					}
-					throw new ExpectedError(message);
+				},
+			} satisfies PineOptions<DeviceType>;
+			return (
+				(await sdk.models.deviceType.get(
+					deviceType,
+					deviceTypeOpts,
+				)) as PineTypedResult<DeviceType, typeof deviceTypeOpts>
+			).is_of__cpu_architecture[0].slug;
+		} catch (err) {
+			const { ExpectedError } = await import('../../errors');
+			if (err instanceof sdk.errors.BalenaInvalidDeviceType) {
+				let message = err.message;
+				if (!(await sdk.auth.isLoggedIn())) {
+					message = `${message}. In case you are trying to use a private device type, please try to log in first.`;
 				}
-				throw new ExpectedError(
-					'Failed to resolve the architecture of the provided device type. If you are in an air-gapped environment please also define the architecture (-A) parameter.',
-				);
+				throw new ExpectedError(message);
 			}
+			throw new ExpectedError(
+				'Failed to resolve the architecture of the provided device type. If you are in an air-gapped environment please also define the architecture (-A) parameter.',
+			);
 		}
 	}
 
-	protected async getAppAndResolveArch(opts: FlagsDef) {
-		if (opts.fleet) {
+	/**
+	 * Resolve the architecture and device type of each build, either from the
+	 * given fleets or from the --deviceType and --arch options. Architectures
+	 * must be unique, as the images of a multi-architecture build are tagged
+	 * by architecture.
+	 */
+	protected async getTargets(opts: FlagsDef): Promise<BuildTarget[]> {
+		let targets: BuildTarget[];
+		if (opts.fleet?.length) {
 			const { getAppWithArch } = await import('../../utils/helpers');
-			const app = await getAppWithArch(opts.fleet);
-			opts.arch = app.arch;
-			opts.deviceType = app.is_for__device_type[0].slug;
-			return app;
+			targets = [];
+			for (const fleet of opts.fleet) {
+				const app = await getAppWithArch(fleet);
+				targets.push({
+					appType: app.application_type?.[0],
+					arch: app.arch,
+					deviceType: app.is_for__device_type[0].slug,
+				});
+			}
+		} else {
+			targets = opts.deviceType!.map((deviceType, i) => ({
+				arch: opts.arch![i],
+				deviceType,
+			}));
 		}
+		const _ = await import('lodash');
+		const duplicateArchs = _(targets)
+			.countBy('arch')
+			.pickBy((count) => count > 1)
+			.keys()
+			.value();
+		if (duplicateArchs.length > 0) {
+			const { ExpectedError } = await import('../../errors');
+			throw new ExpectedError(
+				`Only one fleet or device type may be built per architecture (found more than one for: ${duplicateArchs.join(', ')})`,
+			);
+		}
+		return targets;
 	}
 
 	protected async prepareBuild(options: FlagsDef) {
@@ -236,13 +316,97 @@ ${dockerignoreHelp}
 		};
 	}
 
+	/**
+	 * Build the project for several architectures in parallel, tagging the
+	 * images with the architecture, then print a summary of all the builds.
+	 * Builds are not interrupted if a build for another architecture fails.
+	 */
+	protected async buildMatrix(
+		docker: import('dockerode'),
+		logger: import('../../utils/logger'),
+		composeOpts: ComposeOpts,
+		targets: BuildTarget[],
+		opts: {
+			buildEmulated: boolean;
+			buildOpts: BuildOpts;
+		},
+	) {
+		const results = await Promise.all(
+			targets.map(async (target) => {
+				const tag = opts.buildOpts.t
+					? `${opts.buildOpts.t}-${target.arch}`
+					: target.arch;
+				try {
+					const images = await this.buildProject(
+						docker,
+						logger,
+						// the interactive progress UI does not support concurrent builds
+						{ ...composeOpts, inlineLogs: true },
+						{
+							...target,
+							buildEmulated: opts.buildEmulated,
+							buildOpts: { ...opts.buildOpts, t: tag },
+							logPrefix: `[${target.arch}]`,
+						},
+					);
+					return { target, images };
+				} catch (error) {
+					logger.logError(`Build failed for ${target.arch}: ${error.message}`);
+					return { target, error };
+				}
+			}),
+		);
+
+		const humanize = require('humanize');
+		const summary = results.flatMap(({ target, images, error }) =>
+			images != null
+				? images.map((image) => ({
+						arch: target.arch,
+						'device type': target.deviceType,
+						service: image.serviceName,
+						image: image.name,
+						result: `Image size: ${humanize.filesize(image.props.size)}`,
+					}))
+				: [
+						{
+							arch: target.arch,
+							'device type': target.deviceType,
+							service: '',
+							image: '',
+							result: `Build failed: ${error.message}`,
+						},
+					],
+		);
+		console.log(
+			getVisuals().table.horizontal(summary, [
+				'arch',
+				'device type',
+				'service',
+				'image',
+				'result',
+			]),
+		);
+
+		const failed = results.filter((r) => r.error != null);
+		if (failed.length > 0) {
+			const { ExpectedError } = await import('../../errors');
+			logger.logError('Build failed.');
+			throw new ExpectedError(
+				`Build failed for architecture(s): ${failed
+					.map((r) => r.target.arch)
+					.join(', ')}`,
+			);
+		}
+	}
+
 	/**
 	 * Opts must be an object with the following keys:
-	 *   app: the app this build is for (optional)
+	 *   appType: the type of the app this build is for (optional)
 	 *   arch: the architecture to build for
 	 *   deviceType: the device type to build for
 	 *   buildEmulated
 	 *   buildOpts: arguments to forward to docker build command
+	 *   logPrefix: label prefixed to inline build logs (optional)
 	 *
 	 * @param {Dockerode} docker
 	 * @param {Logger} logger
@@ -259,6 +423,7 @@ ${dockerignoreHelp}
 			deviceType: string;
 			buildEmulated: boolean;
 			buildOpts: BuildOpts;
+			logPrefix?: string;
 		},
 	) {
 		const { loadProject } = await import('../../utils/compose_ts');
@@ -281,7 +446,7 @@ ${dockerignoreHelp}
 			);
 		}
 
-		await buildProject({
+		return await buildProject({
 			docker,
 			logger,
 			projectPath: project.path,
@@ -295,6 +460,7 @@ ${dockerignoreHelp}
 			convertEol: composeOpts.convertEol,
 			dockerfilePath: composeOpts.dockerfilePath,
 			multiDockerignore: composeOpts.multiDockerignore,
+			logPrefix: opts.logPrefix,
 		});
 	}
 }
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Flags, Args } from '@oclif/core';
+import Command from '../../command';
+import { ExpectedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import { parseAsInteger } from '../../utils/validation';
+
+export default class CpCmd extends Command {
+	public static description = stripIndent`
+		Copy files between this machine and a device or service container.
+
+		Copy a file or directory (recursively) from a device's host OS or service
+		container to this machine, or from this machine to a device. The device path
+		is given as \`<device>[:<service>]:<path>\`, where <device> is a device UUID or
+		the IP or \`.local\` address of a local device, and <path> is an absolute path.
+		File permissions and modification times are preserved.
+
+		If the destination is an existing directory, the file or directory is copied
+		into it. Otherwise, it is copied to the destination path (like 'cp -r').
+
+		Files are transferred over ssh, like \`balena ssh\`, as a tar stream: the
+		\`tar\` tool must be available in the service container when copying to or
+		from a container. Devices referenced by UUID are accessed through the
+		balenaCloud VPN, and local devices directly on port 22222.
+	`;
+
+	public static examples = [
+		'$ balena cp f49cefd:/var/lib/systemd/coredump ./coredumps',
+		'$ balena cp f49cefd:main:/data/app.sqlite ./app.sqlite',
+		'$ balena cp ./config.json 192.168.0.1:main:/usr/src/app/config.json',
+		'$ balena cp ./scripts f49cefd.local:/mnt/data/',
+	];
+
+	public static args = {
+		source: Args.string({
+			description: 'source path: local path, or <device>[:<service>]:<path>',
+			required: true,
+		}),
+		destination: Args.string({
+			description:
+				'destination path: local path, or <device>[:<service>]:<path>',
+			required: true,
+		}),
+	};
+
+	public static usage = 'cp <source> <destination>';
+
+	public static flags = {
+		port: Flags.integer({
+			description: stripIndent`
+				SSH server port number (default 22222) if the device is an IP address or .local
+				hostname. Otherwise, port number for the balenaCloud gateway (default 22).`,
+			char: 'p',
+			parse: async (p) => parseAsInteger(p, 'port'),
+		}),
+		verbose: Flags.boolean({
+			default: false,
+			description: 'increase verbosity',
+			char: 'v',
+		}),
+		noproxy: Flags.boolean({
+			default: false,
+			description: 'bypass global proxy configuration for the ssh connection',
+		}),
+		help: cf.help,
+	};
+
+	public static offlineCompatible = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(CpCmd);
+
+		const { copyFromDevice, copyToDevice, getDeviceShell, parseDevicePath } =
+			await import('../../utils/device/cp');
+		const source = parseDevicePath(params.source);
+		const destination = parseDevicePath(params.destination);
+		if ((source == null) === (destination == null)) {
+			throw new ExpectedError(
+				'Exactly one of the source and destination must be a device path (<device>[:<service>]:<path>)',
+			);
+		}
+		const location = (source ?? destination)!;
+
+		const { validateLocalHostnameOrIp } = await import(
+			'../../utils/validation'
+		);
+		let cloud;
+		if (!validateLocalHostnameOrIp(location.device)) {
+			await Command.checkNotUsingOfflineMode();
+			await Command.checkLoggedIn();
+			const { getOnlineTargetDeviceUuid } = await import(
+				'../../utils/patterns'
+			);
+			location.device = await getOnlineTargetDeviceUuid(
+				getBalenaSdk(),
+				location.device,
+			);
+			const { getCloudSshOptions } = await import('../../utils/ssh');
+			cloud = await getCloudSshOptions(options);
+		}
+
+		const shell = await getDeviceShell(location, {
+			port: options.port,
+			verbose: options.verbose,
+			cloud,
+		});
+		if (source != null) {
+			await copyFromDevice(shell, source.path, params.destination);
+		} else {
+			await copyToDevice(shell, params.source, destination!.path);
+		}
+	}
+}
@@ -27,6 +27,7 @@ import {
 	buildArgDeprecation,
 } from '../../utils/messages';
 import * as ca from '../../utils/common-args';
+import * as cf from '../../utils/common-flags';
 import * as compose from '../../utils/compose';
 import type {
 	BuiltImage,
@@ -47,6 +48,7 @@ import type { ApplicationType, DeviceType, Release } from 'balena-sdk';
 
 interface ApplicationWithArch {
 	id: number;
+	slug: string;
 	arch: string;
 	is_for__device_type: [Pick<DeviceType, 'slug'>];
 	application_type: [Pick<ApplicationType, 'slug' | 'supports_multicontainer'>];
@@ -58,10 +60,12 @@ interface ApplicationWithArch {
 interface FlagsDef extends ComposeCliFlags, DockerCliFlags {
 	source?: string;
 	build: boolean;
+	'skip-unchanged': boolean;
 	nologupload: boolean;
 	'release-tag'?: string[];
 	draft: boolean;
 	note?: string;
+	report?: string;
 	help: void;
 }
 
@@ -87,6 +91,12 @@ If a compose file isn't found, the command will look for a Dockerfile[.template]
 file (or alternative Dockerfile specified with the \`-f\` option), and if yet
 that isn't found, it will try to generate one.
 
+The --build option rebuilds every service. Combined with --skip-unchanged, a
+hash of each service's build context (the files that would be sent to the
+docker daemon, after applying .dockerignore rules) is compared with the hash
+recorded by the previous deploy to the same fleet from this computer, and the
+build is skipped for services whose hash matches, reusing the existing image.
+
 To deploy to a fleet where you are a collaborator, use fleet slug including the
 organization:  \`balena deploy <organization>/<fleet>\`.
 
@@ -98,6 +108,8 @@ ${dockerignoreHelp}
 	public static examples = [
 		'$ balena deploy myFleet',
 		'$ balena deploy myorg/myfleet --build --source myBuildDir/',
+		'$ balena deploy myorg/myfleet --build --skip-unchanged',
+		'$ balena deploy myorg/myfleet --report deploy-report.json',
 		'$ balena deploy myorg/myfleet --build --source myBuildDir/ --note "this is the note for this release"',
 		'$ balena deploy myorg/myfleet myRepo/myImage',
 		'$ balena deploy myFleet myRepo/myImage --release-tag key1 "" key2 "value2 with spaces"',
@@ -120,6 +132,12 @@ ${dockerignoreHelp}
 			description: 'force a rebuild before deploy',
 			char: 'b',
 		}),
+		'skip-unchanged': Flags.boolean({
+			description: stripIndent`
+				when rebuilding, skip services whose build context has not changed
+				since the previous deploy from this computer, reusing their images`,
+			dependsOn: ['build'],
+		}),
 		nologupload: Flags.boolean({
 			description:
 				"don't upload build logs to the dashboard with image (if building)",
@@ -141,6 +159,7 @@ ${dockerignoreHelp}
 			default: false,
 		}),
 		note: Flags.string({ description: 'The notes for this release' }),
+		report: cf.report,
 		...composeCliFlags,
 		...dockerCliFlags,
 		// NOTE: Not supporting -h for help, because of clash with -h in DockerCliFlags
@@ -209,24 +228,44 @@ ${dockerignoreHelp}
 			compose.generateOpts(options),
 		]);
 
-		const release = await this.deployProject(docker, logger, composeOpts, {
-			app,
-			appName: fleet, // may be prefixed by 'owner/', unlike app.app_name
-			image,
-			shouldPerformBuild: !!options.build,
-			shouldUploadLogs: !options.nologupload,
-			buildEmulated: !!options.emulated,
-			createAsDraft: options.draft,
-			buildOpts,
-		});
-		await applyReleaseTagKeysAndValues(
-			sdk,
-			release.id,
-			releaseTagKeys,
-			releaseTagValues,
-		);
-		if (options.note) {
-			await sdk.models.release.setNote(release.id, options.note);
+		const report =
+			options.report != null
+				? new (await import('../../utils/build-report')).BuildReport(
+						'deploy',
+						app.slug,
+					)
+				: undefined;
+		let error: Error | undefined;
+		try {
+			const release = await this.deployProject(docker, logger, composeOpts, {
+				app,
+				appName: fleet, // may be prefixed by 'owner/', unlike app.app_name
+				image,
+				shouldPerformBuild: !!options.build,
+				skipUnchanged: options['skip-unchanged'],
+				shouldUploadLogs: !options.nologupload,
+				buildEmulated: !!options.emulated,
+				createAsDraft: options.draft,
+				buildOpts,
+				report,
+			});
+			if (report != null) {
+				report.releaseId = release.id;
+			}
+			await applyReleaseTagKeysAndValues(
+				sdk,
+				release.id,
+				releaseTagKeys,
+				releaseTagValues,
+			);
+			if (options.note) {
+				await sdk.models.release.setNote(release.id, options.note);
+			}
+		} catch (err) {
+			error = err;
+			throw err;
+		} finally {
+			await report?.write(sdk, options.report!, error);
 		}
 	}
 
@@ -240,10 +279,12 @@ ${dockerignoreHelp}
 			image?: string;
 			dockerfilePath?: string; // alternative Dockerfile
 			shouldPerformBuild: boolean;
+			skipUnchanged?: boolean;
 			shouldUploadLogs: boolean;
 			buildEmulated: boolean;
 			buildOpts: BuildOpts;
 			createAsDraft: boolean;
+			report?: import('../../utils/build-report').BuildReport;
 		},
 	) {
 		const _ = await import('lodash');
@@ -289,6 +330,34 @@ ${dockerignoreHelp}
 			);
 			servicesToSkip = servicesToSkip.filter((d) => !!d);
 
+			// with --skip-unchanged, skip services whose build context matches
+			// the one of the image built by the previous deploy
+			let contextHashes: Dictionary<string> | undefined;
+			if (opts.shouldPerformBuild && opts.skipUnchanged) {
+				const { computeServiceContextHashes, getUnchangedServices } =
+					await import('../../utils/build-cache');
+				contextHashes = await computeServiceContextHashes(project.path, {
+					composition: project.composition,
+					arch: opts.app.arch,
+					deviceType: opts.app.is_for__device_type[0].slug,
+					buildOpts: opts.buildOpts,
+					convertEol: composeOpts.convertEol,
+					dockerfilePath: composeOpts.dockerfilePath,
+					multiDockerignore: composeOpts.multiDockerignore,
+				});
+				servicesToSkip = await getUnchangedServices(
+					sdk,
+					docker,
+					opts.app.id,
+					contextHashes,
+				);
+				if (servicesToSkip.length > 0) {
+					logger.logInfo(
+						`Skipping unchanged services: ${servicesToSkip.join(', ')}`,
+					);
+				}
+			}
+
 			// multibuild takes in a composition and always attempts to
 			// build or pull all services. we workaround that here by
 			// passing a modified composition.
@@ -300,7 +369,9 @@ ${dockerignoreHelp}
 			let builtImagesByService: Dictionary<BuiltImage> = {};
 			if (_.size(compositionToBuild.services) === 0) {
 				logger.logInfo(
-					'Everything is up to date (use --build to force a rebuild)',
+					contextHashes != null
+						? 'All services are unchanged and were skipped (omit --skip-unchanged to force a rebuild)'
+						: 'Everything is up to date (use --build to force a rebuild)',
 				);
 			} else {
 				const builtImages = await buildProject({
@@ -319,6 +390,7 @@ ${dockerignoreHelp}
 					multiDockerignore: composeOpts.multiDockerignore,
 				});
 				builtImagesByService = _.keyBy(builtImages, 'serviceName');
+				opts.report?.addBuiltImages(builtImages);
 			}
 			const images: BuiltImage[] = project.descriptors.map(
 				(d) =>
@@ -374,9 +446,20 @@ ${dockerignoreHelp}
 					!opts.shouldUploadLogs,
 					composeOpts.projectPath,
 					opts.createAsDraft,
+					(releaseId) => {
+						// Report the release even if the deploy fails after this point
+						if (opts.report != null) {
+							opts.report.releaseId = releaseId;
+						}
+					},
 				);
 			}
 
+			if (contextHashes != null) {
+				const { updateBuildCache } = await import('../../utils/build-cache');
+				await updateBuildCache(sdk, docker, opts.app.id, contextHashes, images);
+			}
+
 			logger.outputDeferredMessages();
 			logger.logSuccess('Deploy succeeded!');
 			logger.logSuccess(`Release: ${release.commit}`);
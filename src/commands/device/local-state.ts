@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Flags, Args } from '@oclif/core';
+import Command from '../../command';
+import { ExpectedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { getVisuals, stripIndent } from '../../utils/lazy';
+
+export default class DeviceLocalStateCmd extends Command {
+	public static description = stripIndent`
+		Inspect or edit the target state of a local mode device.
+
+		Show the target state of a local mode device, as set by \`balena push\`, and the
+		status of its services and images, as reported by the device supervisor.
+
+		With --set, apply a target state read from a JSON file, e.g. a target state
+		printed with --json and edited by hand. The device supervisor then applies the
+		new target state, which can be followed with --watch.
+
+		With --watch, poll the device status and print status transitions (e.g. image
+		downloads, services starting or exiting) as they happen, until interrupted with
+		CTRL-C.
+	`;
+
+	public static examples = [
+		'$ balena device local-state 192.168.1.10',
+		'$ balena device local-state 192.168.1.10 --json > state.json',
+		'$ balena device local-state 192.168.1.10 --set state.json',
+		'$ balena device local-state 2ae4f35.local --watch',
+	];
+
+	public static args = {
+		device: Args.string({
+			description: 'IP or .local address of the local mode device',
+			required: true,
+		}),
+	};
+
+	public static usage = 'device local-state <device>';
+
+	public static flags = {
+		get: Flags.boolean({
+			description: 'print the target state and status (default)',
+			exclusive: ['set', 'watch'],
+		}),
+		set: Flags.string({
+			description: 'JSON file to read the target state to apply from',
+			exclusive: ['get', 'watch'],
+		}),
+		watch: Flags.boolean({
+			description: 'print status transitions as they happen',
+			exclusive: ['get', 'set'],
+		}),
+		json: { ...cf.json, exclusive: ['set', 'watch'] },
+		help: cf.help,
+	};
+
+	public async run() {
+		const { args: params, flags: options } =
+			await this.parse(DeviceLocalStateCmd);
+
+		const { validateIPAddress, validateDotLocalUrl } = await import(
+			'../../utils/validation'
+		);
+		if (
+			!validateIPAddress(params.device) &&
+			!validateDotLocalUrl(params.device)
+		) {
+			throw new ExpectedError(
+				`Invalid device address "${params.device}": expected an IP or .local address`,
+			);
+		}
+
+		const logger = await Command.getLogger();
+		const { DeviceAPI } = await import('../../utils/device/api');
+		const api = new DeviceAPI(logger, params.device);
+		try {
+			await api.ping();
+		} catch (e) {
+			throw new ExpectedError(
+				`Cannot access device at address ${params.device}.  Device may not be in local mode.`,
+			);
+		}
+
+		const { readTargetStateFile, watchLocalStatus } = await import(
+			'../../utils/device/local-state'
+		);
+		if (options.set) {
+			const state = await readTargetStateFile(options.set);
+			await api.setTargetState(state);
+			logger.logSuccess(`Target state of device ${params.device} updated`);
+		} else if (options.watch) {
+			await watchLocalStatus(api);
+		} else {
+			const [targetState, status] = await Promise.all([
+				api.getTargetState(),
+				api.getStatus(),
+			]);
+			if (options.json) {
+				console.log(JSON.stringify({ targetState, status }, null, 4));
+				return;
+			}
+			console.log('== TARGET STATE');
+			console.log(JSON.stringify(targetState, null, 4));
+			console.log(`\n== STATUS (${status.appState})`);
+			const visuals = getVisuals();
+			console.log(
+				visuals.table.horizontal(
+					status.containers.map((c) => ({ ...c, service: c.serviceName })),
+					['service', 'status', 'createdAt', 'containerId'],
+				),
+			);
+			console.log(
+				visuals.table.horizontal(
+					status.images.map((i) => ({
+						...i,
+						image: i.name,
+						service: i.serviceName,
+						progress:
+							i.downloadProgress != null ? `${i.downloadProgress}%` : '',
+					})),
+					['service', 'image', 'status', 'progress'],
+				),
+			);
+		}
+	}
+}
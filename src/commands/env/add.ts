@@ -15,17 +15,23 @@
  * limitations under the License.
  */
 
-import { Args } from '@oclif/core';
+import { Args, Flags } from '@oclif/core';
 import type * as BalenaSdk from 'balena-sdk';
 import Command from '../../command';
 import { ExpectedError } from '../../errors';
+import type { DeviceSelector } from '../../utils/cloud';
 import * as cf from '../../utils/common-flags';
+import * as ec from '../../utils/env-common';
 import { getBalenaSdk, stripIndent } from '../../utils/lazy';
 import { applicationIdInfo } from '../../utils/messages';
 
 interface FlagsDef {
 	fleet?: string;
-	device?: string; // device UUID
+	device?: string[]; // device UUIDs
+	'device-tag'?: string[];
+	online: boolean;
+	'os-version'?: string;
+	'dry-run': boolean;
 	help: void;
 	quiet: boolean;
 	service?: string; // service name
@@ -63,6 +69,8 @@ export default class EnvAddCmd extends Command {
 		with a reserved prefix. When defining custom fleet variables, please avoid
 		these reserved prefixes.
 
+		${ec.bulkHelp.split('\n').join('\n\t\t')}
+
 		${applicationIdInfo.split('\n').join('\n\t\t')}
 	`;
 
@@ -76,6 +84,9 @@ export default class EnvAddCmd extends Command {
 		'$ balena env add EDITOR vim --device 7cf02a6,d6f1433',
 		'$ balena env add EDITOR vim --device 7cf02a6 --service MyService',
 		'$ balena env add EDITOR vim --device 7cf02a6,d6f1433 --service MyService,MyService2',
+		'$ balena env add EDITOR vim --device 7cf02a6 --device d6f1433',
+		'$ balena env add BALENA_HOST_CONFIG_gpu_mem 64 --fleet MyFleet --device-tag ring=canary --online',
+		"$ balena env add EDITOR vim --fleet MyFleet --os-version '>=5' --dry-run",
 	];
 
 	public static args = {
@@ -96,7 +107,17 @@ export default class EnvAddCmd extends Command {
 
 	public static flags = {
 		fleet: { ...cf.fleet, exclusive: ['device'] },
-		device: { ...cf.device, exclusive: ['fleet'] },
+		device: Flags.string({
+			char: 'd',
+			description: 'device UUID (can be repeated or comma-separated)',
+			multiple: true,
+			multipleNonGreedy: true,
+			exclusive: ['fleet'],
+		}),
+		'device-tag': cf.deviceTag,
+		online: cf.online,
+		'os-version': cf.osVersion,
+		'dry-run': ec.dryRun,
 		help: cf.help,
 		quiet: cf.quiet,
 		service: cf.service,
@@ -129,25 +150,43 @@ export default class EnvAddCmd extends Command {
 		}
 
 		const balena = getBalenaSdk();
-		const reservedPrefixes = await getReservedPrefixes(balena);
+		const reservedPrefixes = await ec.getReservedPrefixes(balena);
 		const isConfigVar = reservedPrefixes.some((prefix) =>
 			params.name.startsWith(prefix),
 		);
 
-		if (options.service) {
-			if (isConfigVar) {
-				throw new ExpectedError(stripIndent`
-					Configuration variables prefixed with "${reservedPrefixes.join(
-						'" or "',
-					)}" cannot be set per service.
-					Hint: remove the --service option or rename the variable.
-				`);
+		if (options.service && isConfigVar) {
+			throw new ExpectedError(stripIndent`
+				Configuration variables prefixed with "${reservedPrefixes.join(
+					'" or "',
+				)}" cannot be set per service.
+				Hint: remove the --service option or rename the variable.
+			`);
+		}
+
+		const varType = isConfigVar ? 'configVar' : 'envVar';
+
+		const { hasDeviceFilters } = await import('../../utils/cloud');
+		const selector = {
+			tags: options['device-tag'],
+			online: options.online,
+			osVersion: options['os-version'],
+		};
+		if (hasDeviceFilters(selector) || options['dry-run']) {
+			if (options.fleet && !hasDeviceFilters(selector)) {
+				throw new ExpectedError(
+					'The --dry-run option requires the --device option or device selectors',
+				);
 			}
+			await setSelectedDeviceVars(balena, params, options, selector, varType);
+			return;
+		}
+
+		if (options.service) {
 			await setServiceVars(balena, params, options);
 			return;
 		}
 
-		const varType = isConfigVar ? 'configVar' : 'envVar';
 		if (options.fleet) {
 			for (const appSlug of await resolveFleetSlugs(balena, options.fleet)) {
 				try {
@@ -162,7 +201,7 @@ export default class EnvAddCmd extends Command {
 				}
 			}
 		} else if (options.device) {
-			for (const device of options.device.split(',')) {
+			for (const device of splitDeviceUuids(options.device)) {
 				try {
 					await balena.models.device[varType].set(
 						device,
@@ -223,7 +262,7 @@ async function setServiceVars(
 		}
 	} else if (options.device) {
 		const { getDeviceAndAppFromUUID } = await import('../../utils/cloud');
-		for (const uuid of options.device.split(',')) {
+		for (const uuid of splitDeviceUuids(options.device)) {
 			let device;
 			let app;
 			try {
@@ -256,6 +295,68 @@ async function setServiceVars(
 	}
 }
 
+/**
+ * Flatten repeated and comma-separated --device option values.
+ */
+function splitDeviceUuids(deviceOption: string[]): string[] {
+	return deviceOption.flatMap((d) => d.split(',')).filter((d) => d);
+}
+
+/**
+ * Add device-specific (service) variables to the devices of the given
+ * fleets, or the given devices, that match the device selectors.
+ */
+async function setSelectedDeviceVars(
+	sdk: BalenaSdk.BalenaSDK,
+	params: ArgsDef,
+	options: FlagsDef,
+	selector: DeviceSelector,
+	varType: 'configVar' | 'envVar',
+) {
+	const { selectDevices } = await import('../../utils/cloud');
+	const devices = [];
+	if (options.fleet) {
+		for (const fleet of await resolveFleetSlugs(sdk, options.fleet)) {
+			devices.push(...(await selectDevices(sdk, { ...selector, fleet })));
+		}
+	} else {
+		devices.push(
+			...(await selectDevices(sdk, {
+				...selector,
+				uuids: splitDeviceUuids(options.device!),
+			})),
+		);
+	}
+	const services = options.service?.split(',');
+	const description =
+		`Set ${params.name}=${params.value}` +
+		(services ? ` for service(s) ${services.join(', ')}` : '');
+
+	await ec.runOnSelectedDevices(
+		devices,
+		description,
+		options['dry-run'],
+		async (device) => {
+			if (services) {
+				for (const service of services) {
+					await sdk.models.device.serviceVar.set(
+						device.id,
+						service,
+						params.name,
+						params.value!,
+					);
+				}
+			} else {
+				await sdk.models.device[varType].set(
+					device.id,
+					params.name,
+					params.value!,
+				);
+			}
+		},
+	);
+}
+
 /**
  * Return a sevice ID for the given app name and service name.
  */
@@ -279,19 +380,3 @@ async function getServiceIdForApp(
 	}
 	return serviceId;
 }
-
-/**
- * Return an array of variable name prefixes like: [ 'RESIN_', 'BALENA_' ].
- * These prefixes can be used to identify "configuration variables".
- */
-async function getReservedPrefixes(
-	balena: BalenaSdk.BalenaSDK,
-): Promise<string[]> {
-	const settings = await balena.settings.getAll();
-	const response = await balena.request.send({
-		baseUrl: settings.apiUrl,
-		url: '/config/vars',
-	});
-
-	return response.body.reservedNamespaces;
-}
@@ -30,6 +30,8 @@ export default class EnvRenameCmd extends Command {
 		device or service, as selected by command-line options.
 
 		${ec.rmRenameHelp.split('\n').join('\n\t\t')}
+
+		${ec.rmRenameBulkHelp.split('\n').join('\n\t\t')}
 `;
 	public static examples = [
 		'$ balena env rename 123123 emacs',
@@ -38,13 +40,15 @@ export default class EnvRenameCmd extends Command {
 		'$ balena env rename 456456 emacs --device --service',
 		'$ balena env rename 567567 1 --config',
 		'$ balena env rename 678678 1 --device --config',
+		'$ balena env rename EDITOR emacs --fleet MyFleet --device-tag ring=canary',
+		"$ balena env rename BALENA_HOST_CONFIG_gpu_mem 128 --fleet MyFleet --os-version '>=5' --dry-run",
 	];
 
 	public static args = {
-		id: Args.integer({
+		id: Args.string({
 			required: true,
-			description: "variable's numeric database ID",
-			parse: async (input) => parseAsInteger(input, 'id'),
+			description:
+				"variable's numeric database ID, or variable name with the --fleet option",
 		}),
 		value: Args.string({
 			required: true,
@@ -59,6 +63,7 @@ export default class EnvRenameCmd extends Command {
 		config: ec.booleanConfig,
 		device: ec.booleanDevice,
 		service: ec.booleanService,
+		...ec.bulkFlags,
 		help: cf.help,
 	};
 
@@ -67,9 +72,30 @@ export default class EnvRenameCmd extends Command {
 
 		await Command.checkLoggedIn();
 
-		await getBalenaSdk().pine.patch({
+		const balena = getBalenaSdk();
+		const devices = await ec.getBulkSelectedDevices(balena, opt);
+		if (devices) {
+			const varType = (await ec.isConfigVarName(balena, params.id, opt.config))
+				? 'configVar'
+				: 'envVar';
+			await ec.runOnSelectedDevices(
+				devices,
+				`Set ${params.id}=${params.value}`,
+				opt['dry-run'],
+				async (device) => {
+					const model = balena.models.device[varType];
+					if ((await model.get(device.id, params.id)) == null) {
+						return 'Skipped (not set on device)';
+					}
+					await model.set(device.id, params.id, params.value);
+				},
+			);
+			return;
+		}
+
+		await balena.pine.patch({
 			resource: ec.getVarResourceName(opt.config, opt.device, opt.service),
-			id: params.id,
+			id: parseAsInteger(params.id, 'id'),
 			body: {
 				value: params.value,
 			},
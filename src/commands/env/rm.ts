@@ -31,6 +31,8 @@ export default class EnvRmCmd extends Command {
 
 		${ec.rmRenameHelp.split('\n').join('\n\t\t')}
 
+		${ec.rmRenameBulkHelp.split('\n').join('\n\t\t')}
+
 		Interactive confirmation is normally asked before the variable is deleted.
 		The --yes option disables this behavior.
 `;
@@ -42,13 +44,15 @@ export default class EnvRmCmd extends Command {
 		'$ balena env rm 567567 --device',
 		'$ balena env rm 678678 --device --config',
 		'$ balena env rm 789789 --device --service --yes',
+		'$ balena env rm EDITOR --fleet MyFleet --device-tag ring=canary --yes',
+		'$ balena env rm BALENA_HOST_CONFIG_gpu_mem --fleet MyFleet --online --dry-run',
 	];
 
 	public static args = {
-		id: Args.integer({
+		id: Args.string({
 			required: true,
-			description: "variable's numeric database ID",
-			parse: async (input) => parseAsInteger(input, 'id'),
+			description:
+				"variable's numeric database ID, or variable name with the --fleet option",
 		}),
 	};
 
@@ -64,6 +68,7 @@ export default class EnvRmCmd extends Command {
 				'do not prompt for confirmation before deleting the variable',
 			default: false,
 		}),
+		...ec.bulkFlags,
 	};
 
 	public async run() {
@@ -71,16 +76,44 @@ export default class EnvRmCmd extends Command {
 
 		await Command.checkLoggedIn();
 
+		const balena = getBalenaSdk();
 		const { confirm } = await import('../../utils/patterns');
+
+		const devices = await ec.getBulkSelectedDevices(balena, opt);
+		if (devices) {
+			const varType = (await ec.isConfigVarName(balena, params.id, opt.config))
+				? 'configVar'
+				: 'envVar';
+			if (!opt['dry-run']) {
+				await confirm(
+					opt.yes || false,
+					`Are you sure you want to delete variable ${params.id} from ${devices.length} device(s)?`,
+				);
+			}
+			await ec.runOnSelectedDevices(
+				devices,
+				`Remove ${params.id}`,
+				opt['dry-run'],
+				async (device) => {
+					const model = balena.models.device[varType];
+					if ((await model.get(device.id, params.id)) == null) {
+						return 'Skipped (not set on device)';
+					}
+					await model.remove(device.id, params.id);
+				},
+			);
+			return;
+		}
+
+		const id = parseAsInteger(params.id, 'id');
 		await confirm(
 			opt.yes || false,
 			'Are you sure you want to delete the environment variable?',
 		);
 
-		const balena = getBalenaSdk();
 		await balena.pine.delete({
 			resource: ec.getVarResourceName(opt.config, opt.device, opt.service),
-			id: params.id,
+			id,
 		});
 	}
 }
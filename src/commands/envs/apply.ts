@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args, Flags } from '@oclif/core';
+import Command from '../../command';
+import { ExpectedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import { applicationIdInfo } from '../../utils/messages';
+
+export default class EnvsApplyCmd extends Command {
+	public static description = stripIndent`
+		Apply a manifest of fleet, device and service variables.
+
+		Reconcile the environment, configuration and service variables of a fleet
+		(and optionally of some of its devices) against a YAML or JSON manifest
+		file, so that variables can be kept under version control. The changes
+		that would be made are printed as a diff before being applied, and
+		interactive confirmation is asked unless the --yes option is used.
+		The --dry-run option prints the diff without applying any changes.
+
+		The manifest file has the following format (all keys are optional):
+
+		    fleet: myorg/myfleet
+		    config:          # fleet configuration variables
+		      BALENA_HOST_CONFIG_gpu_mem: 64
+		    env:             # fleet environment variables
+		      TZ: UTC
+		    services:        # fleet service variables
+		      main:
+		        LOG_LEVEL: info
+		    devices:         # device variables, keyed by device UUID
+		      7cf02a6:
+		        config: {}
+		        env: {}
+		        services: {}
+
+		By default, variables that exist in balenaCloud but are not listed in the
+		manifest are left untouched. The --prune option removes them, for the
+		fleet and for the devices listed in the manifest (other devices of the
+		fleet are never modified).
+
+		${applicationIdInfo.split('\n').join('\n\t\t')}
+	`;
+
+	public static examples = [
+		'$ balena envs apply vars.yml',
+		'$ balena envs apply vars.yml --fleet myorg/myfleet --dry-run',
+		'$ balena envs apply vars.json --prune --yes',
+	];
+
+	public static args = {
+		file: Args.string({
+			required: true,
+			description: 'path to a YAML or JSON variables manifest file',
+		}),
+	};
+
+	public static usage = 'envs apply <file>';
+
+	public static flags = {
+		fleet: {
+			...cf.fleet,
+			description: 'fleet name or slug (overrides the manifest "fleet" key)',
+		},
+		prune: Flags.boolean({
+			description: 'remove variables that are not listed in the manifest',
+			default: false,
+		}),
+		'dry-run': Flags.boolean({
+			description: 'print the changes without applying them',
+			default: false,
+		}),
+		yes: cf.yes,
+		help: cf.help,
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(EnvsApplyCmd);
+
+		const em = await import('../../utils/env-manifest');
+		const manifest = await em.loadVarsManifest(params.file);
+
+		const fleet = options.fleet ?? manifest.fleet;
+		if (!fleet) {
+			throw new ExpectedError(
+				'Missing fleet: use the --fleet option or the "fleet" manifest key',
+			);
+		}
+
+		const balena = getBalenaSdk();
+		const { getFleetSlug } = await import('../../utils/sdk');
+		const fleetSlug = await getFleetSlug(balena, fleet);
+
+		const deviceUuids = await resolveManifestDevices(
+			Object.keys(manifest.devices ?? {}),
+			fleetSlug,
+		);
+
+		const desired = em.getDesiredVars(manifest, fleetSlug, deviceUuids);
+		const current = await em.getCurrentVars(
+			balena,
+			fleetSlug,
+			Object.values(deviceUuids),
+		);
+		const changes = em.diffVars(desired, current, options.prune);
+
+		if (changes.length === 0) {
+			console.log(`Fleet ${fleetSlug} is up to date with "${params.file}"`);
+			return;
+		}
+		console.log(em.formatVarChanges(changes));
+
+		if (options['dry-run']) {
+			return;
+		}
+
+		const { confirm } = await import('../../utils/patterns');
+		await confirm(
+			options.yes,
+			`Apply ${changes.length} variable change(s) to fleet ${fleetSlug}?`,
+		);
+
+		const errors = await em.applyVarChanges(balena, changes);
+		for (const error of errors) {
+			console.error(error);
+		}
+		if (errors.length > 0) {
+			process.exitCode = 1;
+		}
+		console.log(
+			`Applied ${changes.length - errors.length} of ${changes.length} variable change(s)`,
+		);
+	}
+}
+
+/**
+ * Resolve the (possibly short) device UUIDs listed in the manifest to full
+ * UUIDs, checking that each device belongs to the given fleet.
+ */
+async function resolveManifestDevices(
+	uuids: string[],
+	fleetSlug: string,
+): Promise<Dictionary<string>> {
+	const balena = getBalenaSdk();
+	const { getDeviceAndAppFromUUID } = await import('../../utils/cloud');
+	const resolved: Dictionary<string> = {};
+	for (const uuid of uuids) {
+		const [device, app] = await getDeviceAndAppFromUUID(
+			balena,
+			uuid,
+			['uuid'],
+			['slug'],
+		);
+		if (app.slug !== fleetSlug) {
+			throw new ExpectedError(
+				`Device ${uuid} belongs to fleet ${app.slug}, not ${fleetSlug}`,
+			);
+		}
+		resolved[uuid] = device.uuid;
+	}
+	return resolved;
+}
@@ -80,6 +80,16 @@ export default class EnvsCmd extends Command {
 		the device belonged to is no longer accessible by the current user (for example,
 		in case the current user was removed from the fleet by the fleet's owner).
 
+		The --output option exports the variables in a format suitable for other
+		tools: 'dotenv' (e.g. a '.env' file for local 'balena push' runs), 'yaml' or
+		'json-map' (a JSON object mapping names to values). Exported variables are
+		resolved according to the inheritance rules described above, so that each
+		variable name appears once with its effective value: device-specific values
+		take precedence over fleet-wide values, and service-specific values take
+		precedence over values that apply to all services. Service-specific
+		variables are only exported when the --service option is used, as they may
+		have different values for different services.
+
 		${applicationIdInfo.split('\n').join('\n\t\t')}
 	`;
 
@@ -92,6 +102,9 @@ export default class EnvsCmd extends Command {
 		'$ balena envs --device 7cf02a6 --json',
 		'$ balena envs --device 7cf02a6 --config --json',
 		'$ balena envs --device 7cf02a6 --service MyService',
+		'$ balena envs --fleet MyFleet --output dotenv > .env',
+		'$ balena envs --device 7cf02a6 --service MyService --output yaml',
+		'$ balena envs --device 7cf02a6 --config --output json-map',
 	];
 
 	public static usage = 'envs';
@@ -106,7 +119,13 @@ export default class EnvsCmd extends Command {
 		}),
 		device: { ...cf.device, exclusive: ['fleet'] },
 		help: cf.help,
-		json: cf.json,
+		json: { ...cf.json, exclusive: ['output'] },
+		output: Flags.string({
+			char: 'o',
+			description: 'export the effective variable values in the given format',
+			options: ['dotenv', 'yaml', 'json-map'],
+			exclusive: ['json'],
+		}),
 		service: { ...cf.service, exclusive: ['config'] },
 	};
 
@@ -154,6 +173,10 @@ export default class EnvsCmd extends Command {
 				...(await getDeviceVars(balena, fullUUID, fleetSlug, options)),
 			);
 		}
+		if (options.output) {
+			this.log(await this.exportVariables(variables, options));
+			return;
+		}
 		if (!options.json && variables.length === 0) {
 			const target =
 				(options.service ? `service "${options.service}" of ` : '') +
@@ -198,6 +221,64 @@ export default class EnvsCmd extends Command {
 			);
 		}
 	}
+
+	/**
+	 * Resolve the effective value of each variable name, following the
+	 * inheritance rules (device service var > device var > fleet service var
+	 * > fleet var), and format the result according to options.output.
+	 */
+	protected async exportVariables(
+		varArray: EnvironmentVariableInfo[],
+		options: FlagsDef,
+	): Promise<string> {
+		const specificity = (v: EnvironmentVariableInfo) =>
+			(v.deviceUUID !== '*' ? 2 : 0) + (v.serviceName !== '*' ? 1 : 0);
+		const omitted = varArray.filter(
+			(v) => v.serviceName !== '*' && v.serviceName !== options.service,
+		);
+		if (omitted.length > 0 && !options.service) {
+			this.warn(stripIndent`
+				Service-specific variables were not exported: ${_.uniq(omitted.map((v) => v.name)).join(', ')}
+				Hint: use the --service option to export the variables of a service.
+			`);
+		}
+		const effective: Dictionary<string> = {};
+		for (const v of _.sortBy(_.difference(varArray, omitted), specificity)) {
+			effective[v.name] = v.value;
+		}
+		const sorted = _.fromPairs(_.sortBy(Object.entries(effective), 0));
+
+		switch (options.output) {
+			case 'yaml': {
+				const yaml = await import('js-yaml');
+				return yaml.dump(sorted).trimEnd();
+			}
+			case 'json-map':
+				return JSON.stringify(sorted, null, 4);
+			default:
+				return Object.entries(sorted)
+					.map(([name, value]) => `${name}=${dotenvQuote(value)}`)
+					.join('\n');
+		}
+	}
+}
+
+/**
+ * Quote a value for a dotenv file, if needed. Values containing whitespace,
+ * quotes, '#', '$' or backslash characters are double quoted and escaped.
+ */
+function dotenvQuote(value: string): string {
+	if (!/[\s"'#$\\`]/.test(value)) {
+		return value;
+	}
+	const escaped = value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\$/g, '\\$')
+		.replace(/`/g, '\\`')
+		.replace(/\n/g, '\\n')
+		.replace(/\r/g, '\\r');
+	return `"${escaped}"`;
 }
 
 async function validateServiceName(
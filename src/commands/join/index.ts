@@ -39,6 +39,7 @@ export default class JoinCmd extends Command {
 		If you don't specify a device hostname or IP, this command will automatically
 		scan the local network for balenaOS devices and prompt you to select one
 		from an interactive picker. This may require administrator/root privileges.
+		Use --subnet to also scan an IPv4 subnet, if mDNS (multicast) is blocked.
 		Likewise, if the fleet option is not provided then a picker will be shown.
 
 		${applicationIdInfo.split('\n').join('\n\t\t')}
@@ -51,6 +52,7 @@ export default class JoinCmd extends Command {
 		'$ balena join balena.local -f myorg/myfleet',
 		'$ balena join 192.168.1.25',
 		'$ balena join 192.168.1.25 --fleet MyFleet',
+		'$ balena join --subnet 10.0.0.0/24',
 	];
 
 	public static args = {
@@ -69,6 +71,7 @@ export default class JoinCmd extends Command {
 			description: 'the interval in minutes to check for updates',
 			char: 'i',
 		}),
+		subnet: cf.subnet,
 		help: cf.help,
 	};
 
@@ -87,6 +90,7 @@ export default class JoinCmd extends Command {
 			params.deviceIpOrHostname,
 			options.fleet,
 			options.pollInterval,
+			options.subnet,
 		);
 	}
 }
@@ -35,12 +35,14 @@ export default class LeaveCmd extends Command {
 		If you don't specify a device hostname or IP, this command will automatically
 		scan the local network for balenaOS devices and prompt you to select one
 		from an interactive picker. This may require administrator/root privileges.
+		Use --subnet to also scan an IPv4 subnet, if mDNS (multicast) is blocked.
 	`;
 
 	public static examples = [
 		'$ balena leave',
 		'$ balena leave balena.local',
 		'$ balena leave 192.168.1.25',
+		'$ balena leave --subnet 10.0.0.0/24',
 	];
 
 	public static args = {
@@ -53,6 +55,7 @@ export default class LeaveCmd extends Command {
 	public static usage = 'leave [deviceIpOrHostname]';
 
 	public static flags = {
+		subnet: cf.subnet,
 		help: cf.help,
 	};
 
@@ -60,10 +63,10 @@ export default class LeaveCmd extends Command {
 	public static primary = true;
 
 	public async run() {
-		const { args: params } = await this.parse(LeaveCmd);
+		const { args: params, flags: options } = await this.parse(LeaveCmd);
 
 		const promote = await import('../../utils/promote');
 		const logger = await Command.getLogger();
-		return promote.leave(logger, params.deviceIpOrHostname);
+		return promote.leave(logger, params.deviceIpOrHostname, options.subnet);
 	}
 }
@@ -20,6 +20,9 @@ import Command from '../../command';
 import * as cf from '../../utils/common-flags';
 import { getBalenaSdk, stripIndent } from '../../utils/lazy';
 import type { LogMessage } from 'balena-sdk';
+import { ExpectedError } from '../../errors';
+import { logDisplayFlags } from '../../utils/device/logs';
+import type { Log, LogRecord } from '../../utils/device/logs';
 
 const MAX_RETRY = 1000;
 
@@ -40,6 +43,42 @@ export default class LogsCmd extends Command {
 		Logs from a single service can be displayed with the --service flag. Just system logs
 		can be shown with the --system flag. Note that these flags can be used together.
 
+		Logs from many devices can be displayed with the --fleet option instead of a
+		device, optionally selecting devices by tag (--device-tag) or online status
+		(--online). Each log line is then prefixed with the device name. With --tail,
+		the device selection is refreshed periodically, so that logs are streamed
+		from devices as they come online or join the selection.
+
+		By default, logs are printed as text. The --output option selects a structured
+		format instead: 'json' (an array, not available with --tail), 'ndjson' (one
+		JSON object per line) or 'logfmt'. Each structured log line has a timestamp,
+		device (with --fleet), service, level and message.
+
+		Logs can be filtered by time with --since and --until, which accept either a
+		duration before now (e.g. '30m', '2h', '1d' or '1h30m') or a timestamp (e.g.
+		'2024-01-31T12:00:00Z'), by message with --grep (a regular expression), and by
+		level with --level (logs written to stderr have level 'error', others 'info').
+		These filters apply to both cloud and local mode devices.
+
+		With --save-dir, logs are also saved to rotated files in the given directory,
+		one directory per device and one file per service, so that no history is lost
+		when the connection to a device drops. Lines received again after reconnecting
+		are not saved twice. Files are rotated when they reach --max-file-size or
+		--max-file-age, keeping --max-files rotated files per service. Saved logs can
+		be displayed with \`balena logs replay\`.
+
+		With --on-match, each log line whose message matches the given regular
+		expression triggers an alert: the --exec command is run, and/or the alert is
+		POSTed as JSON to the --webhook URL. The command is run with the environment
+		variables BALENA_DEVICE_UUID (the device UUID, or address of a local mode
+		device), BALENA_SERVICE (empty for system logs), BALENA_LOG_MESSAGE,
+		BALENA_LOG_TIMESTAMP and BALENA_LOG_SUPPRESSED. The output of the command is
+		written to stderr, so that it does not mix with the logs on stdout (e.g. with
+		--output json). Alerts are rate limited to one per --alert-interval seconds for
+		each device service: BALENA_LOG_SUPPRESSED is the number of matching lines
+		skipped since the previous alert. Alerts are checked for all logs received,
+		regardless of the display filters.
+
 		Note: --service and --system flags must come after the device parameter, as per examples.
 `;
 	public static examples = [
@@ -52,16 +91,28 @@ export default class LogsCmd extends Command {
 		'',
 		'$ balena logs 23c73a1.local --system',
 		'$ balena logs 23c73a1.local --system --service my-service',
+		'',
+		'$ balena logs --fleet myorg/myfleet --tail',
+		'$ balena logs --fleet myorg/myfleet --device-tag ring=canary --online --tail',
+		'',
+		'$ balena logs 23c73a1 --since 2h --level error',
+		'$ balena logs 23c73a1 --since 2024-01-31T12:00:00Z --until 2024-01-31T13:00:00Z --output json',
+		'$ balena logs 192.168.0.31 --grep "timeout|refused" --output ndjson',
+		'',
+		'$ balena logs 192.168.0.31 --save-dir ./device-logs --max-file-size 5',
+		'$ balena logs --fleet myorg/myfleet --tail --save-dir ./fleet-logs',
+		'',
+		'$ balena logs 23c73a1 --tail --on-match "panic" --exec "notify-send \\"$BALENA_LOG_MESSAGE\\""',
+		'$ balena logs --fleet myorg/myfleet --tail --on-match "panic|fatal" --webhook https://example.com/alerts',
 	];
 
 	public static args = {
 		device: Args.string({
 			description: 'device UUID, IP, or .local address',
-			required: true,
 		}),
 	};
 
-	public static usage = 'logs <device>';
+	public static usage = 'logs [device]';
 
 	public static flags = {
 		'max-retry': Flags.integer({
@@ -74,18 +125,51 @@ export default class LogsCmd extends Command {
 			description: 'continuously stream output',
 			char: 't',
 		}),
-		service: Flags.string({
-			description: stripIndent`
-				Reject logs not originating from this service.
-				This can be used in combination with --system or other --service flags.`,
-			char: 's',
-			multiple: true,
+		fleet: {
+			...cf.fleet,
+			description:
+				'fleet name or slug (preferred), to show the logs of many devices',
+		},
+		'device-tag': cf.deviceTag,
+		online: cf.online,
+		...logDisplayFlags,
+		'save-dir': Flags.string({
+			description:
+				'directory to save the logs to, as rotated per-device, per-service files',
 		}),
-		system: Flags.boolean({
-			default: false,
+		'max-file-size': Flags.integer({
+			description:
+				'with --save-dir, size in megabytes at which log files are rotated',
+			default: 10,
+			min: 1,
+		}),
+		'max-file-age': Flags.integer({
+			description:
+				'with --save-dir, age in hours at which log files are rotated',
+			default: 24,
+			min: 1,
+		}),
+		'max-files': Flags.integer({
+			description:
+				'with --save-dir, number of rotated files kept per device service',
+			default: 5,
+			min: 1,
+		}),
+		'on-match': Flags.string({
+			description:
+				'regular expression: trigger an alert (--exec, --webhook) on matching log lines',
+		}),
+		exec: Flags.string({
+			description: 'with --on-match, shell command to run on each alert',
+		}),
+		webhook: Flags.string({
+			description: 'with --on-match, URL to POST each alert to (as JSON)',
+		}),
+		'alert-interval': Flags.integer({
 			description:
-				'Only show system logs. This can be used in combination with --service.',
-			char: 'S',
+				'with --on-match, minimum number of seconds between alerts for a device service',
+			default: 60,
+			min: 0,
 		}),
 		help: cf.help,
 	};
@@ -95,50 +179,145 @@ export default class LogsCmd extends Command {
 	public async run() {
 		const { args: params, flags: options } = await this.parse(LogsCmd);
 
-		const balena = getBalenaSdk();
-		const { serviceIdToName } = await import('../../utils/cloud');
-		const { connectAndDisplayDeviceLogs, displayLogObject } = await import(
-			'../../utils/device/logs'
-		);
+		if ((params.device == null) === (options.fleet == null)) {
+			throw new ExpectedError(
+				'Either a device or the --fleet option must be provided',
+			);
+		}
+		if (!options.fleet && (options['device-tag'] || options.online)) {
+			throw new ExpectedError(
+				'The --device-tag and --online options require the --fleet option',
+			);
+		}
+		if (
+			(options['on-match'] == null) ===
+			(options.exec != null || options.webhook != null)
+		) {
+			if (options['on-match'] != null) {
+				throw new ExpectedError(
+					'The --on-match option requires the --exec or --webhook options',
+				);
+			}
+			throw new ExpectedError(
+				'The --exec and --webhook options require the --on-match option',
+			);
+		}
+
 		const { validateIPAddress, validateDotLocalUrl } = await import(
 			'../../utils/validation'
 		);
+		const isLocalDevice =
+			params.device != null &&
+			(validateIPAddress(params.device) || validateDotLocalUrl(params.device));
+		if (options.output === 'json' && (options.tail || isLocalDevice)) {
+			throw new ExpectedError(
+				"The 'json' output format is not available when streaming logs: use 'ndjson' instead",
+			);
+		}
+
+		const balena = getBalenaSdk();
+		const { serviceIdToName } = await import('../../utils/cloud');
+		const {
+			connectAndDisplayDeviceLogs,
+			displayLogObject,
+			getLogDisplayOptions,
+			parseRegExp,
+		} = await import('../../utils/device/logs');
+		const displayOptions = getLogDisplayOptions(options);
+		// With --since, fetch the whole history rather than the latest lines
+		const logsOptions = options.since != null ? { count: 'all' as const } : {};
+		// Records collected for the 'json' output format
+		const records: LogRecord[] = [];
 		const Logger = await import('../../utils/logger');
 
 		const logger = Logger.getLogger();
 
-		const displayCloudLog = async (line: LogMessage) => {
-			if (!line.isSystem) {
-				const serviceName =
-					(await serviceIdToName(balena, line.serviceId)) ?? 'Unknown service';
-				displayLogObject(
-					{ serviceName, ...line },
-					logger,
-					options.system || false,
-					options.service,
-				);
-			} else {
-				displayLogObject(
-					line,
-					logger,
-					options.system || false,
-					options.service,
-				);
+		const { LogRecorder } = await import('../../utils/log-files');
+		const recorder = options['save-dir']
+			? new LogRecorder({
+					dir: options['save-dir'],
+					maxFileSize: options['max-file-size'] * 1024 * 1024,
+					maxFileAge: options['max-file-age'] * 60 * 60 * 1000,
+					maxFiles: options['max-files'],
+				})
+			: undefined;
+
+		const { LogAlerter } = await import('../../utils/log-alerts');
+		const alerter =
+			options['on-match'] != null
+				? new LogAlerter({
+						pattern: parseRegExp(options['on-match'], '--on-match'),
+						exec: options.exec,
+						webhook: options.webhook,
+						interval: options['alert-interval'] * 1000,
+					})
+				: undefined;
+
+		/** Save logs and check them for alerts, whether displayed or not */
+		const handleLog = async (device: string, log: Log) => {
+			await recorder?.write(device, log);
+			alerter?.check(device, log);
+		};
+
+		const displayCloudLog = async (
+			line: LogMessage,
+			device?: { uuid: string; device_name: string },
+		) => {
+			const log: Log = {
+				...(!line.isSystem && {
+					serviceName:
+						(await serviceIdToName(balena, line.serviceId)) ??
+						'Unknown service',
+				}),
+				deviceName: device?.device_name,
+				...line,
+			};
+			const record = displayLogObject(
+				log,
+				logger,
+				options.system || false,
+				options.service,
+				displayOptions,
+			);
+			if (record != null && options.output === 'json') {
+				records.push(record);
 			}
+			await handleLog(device?.uuid ?? params.device!, log);
 		};
 
-		if (
-			validateIPAddress(params.device) ||
-			validateDotLocalUrl(params.device)
-		) {
+		if (options.fleet) {
+			// Logs from many devices of a fleet
+			await Command.checkLoggedIn();
+			const { getFleetLogHistory, tailFleetLogs } = await import(
+				'../../utils/fleet-logs'
+			);
+			const selector = {
+				fleet: options.fleet,
+				tags: options['device-tag'],
+				online: options.online,
+			};
+			const displayDeviceLog = (
+				device: { uuid: string; device_name: string },
+				line: LogMessage,
+			) => displayCloudLog(line, device);
+			if (options.tail) {
+				await tailFleetLogs(balena, selector, displayDeviceLog);
+			} else {
+				await getFleetLogHistory(
+					balena,
+					selector,
+					displayDeviceLog,
+					logsOptions,
+				);
+			}
+		} else if (isLocalDevice) {
 			// Logs from local device
 			const { DeviceAPI } = await import('../../utils/device/api');
-			const deviceApi = new DeviceAPI(logger, params.device);
+			const deviceApi = new DeviceAPI(logger, params.device!);
 			logger.logDebug('Checking we can access device');
 			try {
 				await deviceApi.ping();
 			} catch (e) {
-				const { ExpectedError } = await import('../../errors');
 				throw new ExpectedError(
 					`Cannot access device at address ${params.device}.  Device may not be in local mode.`,
 				);
@@ -150,26 +329,36 @@ export default class LogsCmd extends Command {
 				logger,
 				system: options.system || false,
 				filterServices: options.service,
+				displayOptions,
+				onLog: (log) => handleLog(params.device!, log),
 				maxAttempts: 1 + (options['max-retry'] ?? MAX_RETRY),
 			});
 		} else {
 			// Logs from cloud
 			await Command.checkLoggedIn();
 			if (options.tail) {
-				const logStream = await balena.logs.subscribe(params.device, {
+				const logStream = await balena.logs.subscribe(params.device!, {
 					count: 100,
 				});
 				// Never resolve (quit with CTRL-C), but reject on a broken connection
 				await new Promise((_resolve, reject) => {
-					logStream.on('line', displayCloudLog);
+					logStream.on('line', (line: LogMessage) => {
+						displayCloudLog(line).catch(reject);
+					});
 					logStream.on('error', reject);
 				});
 			} else {
-				const logMessages = await balena.logs.history(params.device);
+				const logMessages = await balena.logs.history(
+					params.device!,
+					logsOptions,
+				);
 				for (const logMessage of logMessages) {
 					await displayCloudLog(logMessage);
 				}
 			}
 		}
+		if (options.output === 'json') {
+			console.log(JSON.stringify(records, null, 4));
+		}
 	}
 }
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args } from '@oclif/core';
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { logDisplayFlags } from '../../utils/device/logs';
+import type { LogRecord } from '../../utils/device/logs';
+import { stripIndent } from '../../utils/lazy';
+
+export default class LogsReplayCmd extends Command {
+	public static description = stripIndent`
+		Display logs saved with \`balena logs --save-dir\`.
+
+		Display the logs saved in a directory by \`balena logs --save-dir\`, merging
+		the logs of all saved devices and services in timestamp order. When the
+		directory holds the logs of several devices, each log line is prefixed with
+		the device name.
+
+		The same filters and output formats as \`balena logs\` are available: see
+		\`balena help logs\` for details.
+	`;
+	public static examples = [
+		'$ balena logs replay ./device-logs',
+		'$ balena logs replay ./device-logs --service my-service --since 2024-01-31T12:00:00Z',
+		'$ balena logs replay ./device-logs --level error --output ndjson',
+	];
+
+	public static args = {
+		dir: Args.string({
+			description: 'directory the logs were saved to',
+			required: true,
+		}),
+	};
+
+	public static usage = 'logs replay <dir>';
+
+	public static flags = {
+		...logDisplayFlags,
+		help: cf.help,
+	};
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(LogsReplayCmd);
+
+		const { displayLogObject, getLogDisplayOptions } = await import(
+			'../../utils/device/logs'
+		);
+		const { readSavedLogs } = await import('../../utils/log-files');
+		const displayOptions = getLogDisplayOptions(options);
+		const logger = await Command.getLogger();
+
+		const records: LogRecord[] = [];
+		for (const log of await readSavedLogs(params.dir)) {
+			const record = displayLogObject(
+				log,
+				logger,
+				options.system,
+				options.service,
+				displayOptions,
+			);
+			if (record != null && options.output === 'json') {
+				records.push(record);
+			}
+		}
+		if (options.output === 'json') {
+			console.log(JSON.stringify(records, null, 4));
+		}
+	}
+}
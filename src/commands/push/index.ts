@@ -25,6 +25,7 @@ import type { BalenaSDK } from 'balena-sdk';
 import { ExpectedError, instanceOf } from '../../errors';
 import type { RegistrySecrets } from '@balena/compose/dist/multibuild';
 import { lowercaseIfSlug } from '../../utils/normalization';
+import type { RemoteBuild } from '../../utils/remote-build';
 import {
 	applyReleaseTagKeysAndValues,
 	parseReleaseTagKeysAndValues,
@@ -64,6 +65,40 @@ export default class PushCmd extends Command {
 		the device, and changes made on the device itself may be overwritten.
 		This feature requires a device running supervisor version v9.7.0 or greater.
 
+		Services with Dockerfile live directives (e.g. #dev-cmd-live) are updated
+		according to those directives. Alternatively, a service can be set to have
+		changed files copied into its running container, without rebuilding the image,
+		with an 'x-balena-sync' field in a docker-compose.dev.yml overlay file. Its
+		'paths' map paths relative to the service build context to container paths,
+		and its optional 'restart' is a command run in the container after files are
+		copied, or 'true' to restart the container, e.g.:
+
+		    services:
+		      main:
+		        build: ./main
+		        x-balena-sync:
+		          paths:
+		            src: /usr/src/app/src
+		          restart: kill -HUP 1
+
+		Changes to the Dockerfile still cause the service image to be rebuilt.
+
+		The --dashboard flag replaces the device logs with a status panel of the live
+		session, and the --events-file flag appends status transitions of services to a
+		file, one JSON object per line with 'timestamp', 'service' and 'event' ('pending',
+		'synced', 'rebuild-started', 'rebuild-finished', 'container-status' or 'error')
+		properties, plus the changed status properties ('pending', 'lastSync',
+		'rebuilding', 'containerStatus' or 'lastError').
+
+		To skip the build when pushing to a local device, use --images-only to run
+		prebuilt images: images named in the composition are pulled by the device,
+		and the images of services with a build section are used if found on the
+		device, or else copied from the Docker daemon of this machine (e.g. after
+		\`balena build\`). Alternatively, use --from-release to pull the images of a
+		balenaCloud release onto the device and run them with the release's
+		composition (the source directory is then not used). A live session is not
+		started in either case.
+
 		${registrySecretsHelp.split('\n').join('\n\t\t')}
 
 		${dockerignoreHelp.split('\n').join('\n\t\t')}
@@ -79,12 +114,16 @@ export default class PushCmd extends Command {
 		'$ balena push myFleet --source <source directory> --note "this is the note for this release"',
 		'$ balena push myFleet --release-tag key1 "" key2 "value2 with spaces"',
 		'$ balena push myorg/myfleet',
+		'$ balena push myorg/myfleet --report build-report.json',
 		'',
 		'$ balena push 10.0.0.1',
 		'$ balena push 10.0.0.1 --source <source directory>',
 		'$ balena push 10.0.0.1 --service my-service',
 		'$ balena push 10.0.0.1 --env MY_ENV_VAR=value --env my-service:SERVICE_VAR=value',
 		'$ balena push 10.0.0.1 --nolive',
+		'$ balena push 10.0.0.1 --dashboard --events-file live-events.ndjson',
+		'$ balena push 10.0.0.1 --images-only',
+		'$ balena push 10.0.0.1 --from-release a777f7345fe3d655c1c981aa642e5555',
 		'',
 		'$ balena push 23c73a1.local --system',
 		'$ balena push 23c73a1.local --system --service my-service',
@@ -193,6 +232,33 @@ export default class PushCmd extends Command {
 			`,
 			multiple: true,
 		}),
+		'images-only': Flags.boolean({
+			description: stripIndent`
+				When pushing to a local mode device, run prebuilt images instead of building
+				the project on the device.`,
+			default: false,
+			exclusive: ['from-release'],
+		}),
+		'from-release': Flags.string({
+			description: stripIndent`
+				When pushing to a local mode device, run the images of this balenaCloud
+				release (commit or ID) instead of building the project on the device.`,
+			exclusive: ['images-only'],
+		}),
+		dashboard: Flags.boolean({
+			description: stripIndent`
+				When pushing to a local mode device, show a live session status panel
+				(last sync time, pending files, rebuilds, container status and last error of
+				each service) instead of the device logs.`,
+			default: false,
+			exclusive: ['nolive', 'detached', 'images-only', 'from-release'],
+		}),
+		'events-file': Flags.string({
+			description: stripIndent`
+				When pushing to a local mode device, append live session status transitions
+				to this file as newline-delimited JSON, e.g. for editor integrations.`,
+			exclusive: ['nolive', 'detached', 'images-only', 'from-release'],
+		}),
 		'noconvert-eol': Flags.boolean({
 			description: `Don't convert line endings from CRLF (Windows format) to LF (Unix format).`,
 			default: false,
@@ -221,6 +287,10 @@ export default class PushCmd extends Command {
 			default: false,
 		}),
 		note: Flags.string({ description: 'The notes for this release' }),
+		report: {
+			...cf.report,
+			description: `${cf.report.description} (balenaCloud only)`,
+		},
 		help: cf.help,
 	};
 
@@ -233,16 +303,23 @@ export default class PushCmd extends Command {
 		logger.logDebug(`Using build source directory: ${options.source} `);
 
 		const sdk = getBalenaSdk();
-		const { validateProjectDirectory } = await import('../../utils/compose_ts');
-		const { dockerfilePath, registrySecrets } = await validateProjectDirectory(
-			sdk,
-			{
-				dockerfilePath: options.dockerfile,
-				noParentCheck: options['noparent-check'],
-				projectPath: options.source,
-				registrySecretsPath: options['registry-secrets'],
-			},
-		);
+		let dockerfilePath = '';
+		let registrySecrets: RegistrySecrets = {};
+		// With --from-release, there is no project to validate
+		if (options['from-release'] == null) {
+			const { validateProjectDirectory } = await import(
+				'../../utils/compose_ts'
+			);
+			({ dockerfilePath, registrySecrets } = await validateProjectDirectory(
+				sdk,
+				{
+					dockerfilePath: options.dockerfile,
+					noParentCheck: options['noparent-check'],
+					projectPath: options.source,
+					registrySecretsPath: options['registry-secrets'],
+				},
+			));
+		}
 
 		switch (await this.getBuildTarget(params.fleetOrDevice)) {
 			case BuildTarget.Cloud:
@@ -285,6 +362,10 @@ export default class PushCmd extends Command {
 			'service',
 			'system',
 			'env',
+			'images-only',
+			'from-release',
+			'dashboard',
+			'events-file',
 		];
 		this.checkInvalidOptions(
 			localOnlyOptions,
@@ -316,7 +397,7 @@ export default class PushCmd extends Command {
 			convertEol: !options['noconvert-eol'],
 			isDraft: options.draft,
 		};
-		const args = {
+		const args: RemoteBuild = {
 			appSlug: application.slug,
 			source: options.source,
 			auth: token,
@@ -324,21 +405,40 @@ export default class PushCmd extends Command {
 			sdk,
 			opts,
 		};
-		const releaseId = await remote.startRemoteBuild(args);
-		if (releaseId) {
-			await applyReleaseTagKeysAndValues(
-				sdk,
-				releaseId,
-				releaseTagKeys,
-				releaseTagValues,
-			);
-			if (options.note) {
-				await sdk.models.release.setNote(releaseId, options.note);
+		const report =
+			options.report != null
+				? new (await import('../../utils/build-report')).BuildReport(
+						'push',
+						application.slug,
+					)
+				: undefined;
+		let error: Error | undefined;
+		try {
+			const releaseId = await remote.startRemoteBuild(args);
+			if (releaseId) {
+				await applyReleaseTagKeysAndValues(
+					sdk,
+					releaseId,
+					releaseTagKeys,
+					releaseTagValues,
+				);
+				if (options.note) {
+					await sdk.models.release.setNote(releaseId, options.note);
+				}
+			} else if (releaseTagKeys.length > 0) {
+				throw new Error(stripIndent`
+					A release ID could not be parsed out of the builder's output.
+					As a result, the release tags have not been set.`);
+			}
+		} catch (err) {
+			error = err;
+			throw err;
+		} finally {
+			if (report != null) {
+				report.builder = args.metadata;
+				report.releaseId = args.releaseId;
+				await report.write(sdk, options.report!, error);
 			}
-		} else if (releaseTagKeys.length > 0) {
-			throw new Error(stripIndent`
-				A release ID could not be parsed out of the builder's output.
-				As a result, the release tags have not been set.`);
 		}
 	}
 
@@ -349,13 +449,21 @@ export default class PushCmd extends Command {
 		registrySecrets: RegistrySecrets,
 	) {
 		// Check for invalid options
-		const remoteOnlyOptions: Array<keyof FlagsDef> = ['release-tag', 'draft'];
+		const remoteOnlyOptions: Array<keyof FlagsDef> = [
+			'release-tag',
+			'draft',
+			'report',
+		];
 		this.checkInvalidOptions(
 			remoteOnlyOptions,
 			options,
 			'is only valid when pushing to a fleet',
 		);
 
+		if (options['from-release'] != null) {
+			await Command.checkLoggedIn();
+		}
+
 		const deviceDeploy = await import('../../utils/device/deploy');
 
 		try {
@@ -374,6 +482,10 @@ export default class PushCmd extends Command {
 				system: options.system,
 				env: options.env || [],
 				convertEol: !options['noconvert-eol'],
+				imagesOnly: options['images-only'],
+				fromRelease: options['from-release'],
+				dashboard: options.dashboard,
+				eventsFile: options['events-file'],
 			});
 		} catch (e) {
 			const { BuildError } = await import('../../utils/device/errors');
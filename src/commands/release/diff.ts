@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args } from '@oclif/core';
+import type {
+	BalenaSDK,
+	PineOptions,
+	PineTypedResult,
+	Release,
+} from 'balena-sdk';
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import type { DiffableRelease } from '../../utils/release-diff';
+
+const releaseOpts = {
+	$select: ['id', 'commit', 'composition', 'note'],
+	$expand: {
+		release_tag: {
+			$select: ['tag_key', 'value'],
+		},
+		release_image: {
+			$select: 'id',
+			$expand: {
+				image: {
+					$select: 'content_hash',
+					$expand: {
+						is_a_build_of__service: { $select: 'service_name' },
+					},
+				},
+			},
+		},
+	},
+} satisfies PineOptions<Release>;
+
+type DiffRelease = PineTypedResult<Release, typeof releaseOpts>;
+
+export default class ReleaseDiffCmd extends Command {
+	public static description = stripIndent`
+		Compare two releases.
+
+		Show the differences between two releases: services added to or removed
+		from the docker-compose composition, changes to the configuration of each
+		service (such as labels, environment variables and ports), service images
+		that changed (by image content hash), and changes to release tags and notes.
+		This can be used to review the changes before pinning a fleet or device
+		to a release, for example with \`balena fleet pin\`.
+
+		The releases may be given by commit or by ID.
+	`;
+	public static examples = [
+		'$ balena release diff a777f7345fe3d655c1c981aa642e5555 d3f3151f5ad25ca6b070aa4d08296aca',
+		'$ balena release diff 1234567 1234568',
+		'$ balena release diff a777f73 d3f3151 --json',
+	];
+
+	public static usage = 'release diff <release1> <release2>';
+
+	public static flags = {
+		json: {
+			...cf.json,
+			description: 'produce JSON output instead of a textual diff',
+		},
+		help: cf.help,
+	};
+
+	public static args = {
+		release1: Args.string({
+			description: 'the commit or ID of the release to compare from',
+			required: true,
+		}),
+		release2: Args.string({
+			description: 'the commit or ID of the release to compare to',
+			required: true,
+		}),
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(ReleaseDiffCmd);
+
+		const balena = getBalenaSdk();
+		const [before, after] = await Promise.all([
+			getRelease(balena, params.release1),
+			getRelease(balena, params.release2),
+		]);
+
+		const { diffReleases, formatReleaseDiff, isEmptyDiff } = await import(
+			'../../utils/release-diff'
+		);
+		const diff = diffReleases(toDiffable(before), toDiffable(after));
+
+		if (options.json) {
+			console.log(
+				JSON.stringify(
+					{
+						release1: { id: before.id, commit: before.commit },
+						release2: { id: after.id, commit: after.commit },
+						...diff,
+					},
+					null,
+					4,
+				),
+			);
+			return;
+		}
+
+		console.log(
+			`Comparing release ${before.commit} (id: ${before.id}) with release ${after.commit} (id: ${after.id})\n`,
+		);
+		if (isEmptyDiff(diff)) {
+			console.log('No differences found');
+		} else {
+			console.log(formatReleaseDiff(diff));
+		}
+	}
+}
+
+async function getRelease(
+	balena: BalenaSDK,
+	release: string,
+): Promise<DiffRelease> {
+	const { disambiguateReleaseParam } = await import(
+		'../../utils/normalization'
+	);
+	const commitOrId = await disambiguateReleaseParam(balena, release);
+	return (await balena.models.release.get(
+		commitOrId,
+		releaseOpts,
+	)) as DiffRelease;
+}
+
+function toDiffable(release: DiffRelease): DiffableRelease {
+	const images: Dictionary<string | null> = {};
+	for (const { image } of release.release_image) {
+		const serviceName = image[0].is_a_build_of__service[0]?.service_name;
+		if (serviceName != null) {
+			images[serviceName] = image[0].content_hash ?? null;
+		}
+	}
+	const tags: Dictionary<string> = {};
+	for (const tag of release.release_tag) {
+		tags[tag.tag_key] = tag.value;
+	}
+	return {
+		composition: release.composition as Dictionary<any> | null,
+		images,
+		tags,
+		note: release.note,
+	};
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args, Flags } from '@oclif/core';
+import Command from '../../command';
+import { dockerConnectionCliFlags } from '../../utils/docker';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class ReleaseExportCmd extends Command {
+	public static description = stripIndent`
+		Export a release to a bundle file, for offline import.
+
+		Save a release to a bundle (tar) file holding the release's composition,
+		contract, metadata (release tags and note) and service images, so that the
+		release can be recreated in a fleet with \`balena release import\`, for
+		example on a machine without access to the balena registry (air-gapped
+		sites). The service images are pulled from the balena registry and saved
+		using the docker daemon.
+
+		The release must be finalized and successful.
+	`;
+	public static examples = [
+		'$ balena release export a777f7345fe3d655c1c981aa642e5555 -o bundle.tar',
+		'$ balena release export 1234567 --output /mnt/usb/release.tar --dockerHost 192.168.0.10',
+	];
+
+	public static usage = 'release export <release>';
+
+	public static args = {
+		release: Args.string({
+			description: 'the commit or ID of the release to export',
+			required: true,
+		}),
+	};
+
+	public static flags = {
+		output: Flags.string({
+			description: 'path of the bundle file to write',
+			char: 'o',
+			required: true,
+		}),
+		...dockerConnectionCliFlags,
+		// NOTE: Not supporting -h for help, because of clash with -h in DockerCliFlags
+		help: Flags.help({}),
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(ReleaseExportCmd);
+
+		const sdk = getBalenaSdk();
+		const logger = await Command.getLogger();
+		const {
+			getReleaseMetadata,
+			getSourceRelease,
+			pullReleaseImages,
+			removeImages,
+		} = await import('../../utils/release-copy');
+		const { writeReleaseBundle } = await import('../../utils/release-bundle');
+		const release = await getSourceRelease(sdk, params.release);
+		const fleet = release.belongs_to__application[0];
+
+		const { getDocker } = await import('../../utils/docker');
+		const docker = await getDocker(options);
+		const imageNames = await pullReleaseImages(docker, sdk, logger, release);
+		const localImages = Object.values(imageNames);
+		try {
+			const manifest = await writeReleaseBundle(
+				docker,
+				logger,
+				{ slug: fleet.slug, deviceType: fleet.is_for__device_type[0].slug },
+				getReleaseMetadata(release),
+				imageNames,
+				options.output,
+			);
+			localImages.push(...Object.values(manifest.images).map((i) => i.name));
+		} finally {
+			await removeImages(docker, logger, localImages);
+		}
+		logger.logSuccess(
+			`Release ${release.commit} exported to "${options.output}"`,
+		);
+	}
+}
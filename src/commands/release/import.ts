@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args, Flags } from '@oclif/core';
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { dockerConnectionCliFlags } from '../../utils/docker';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class ReleaseImportCmd extends Command {
+	public static description = stripIndent`
+		Create a release from a bundle file.
+
+		Recreate a release exported with \`balena release export\` in the given
+		fleet: the service images are loaded from the bundle into the docker daemon
+		and pushed to a new release with the same composition, contract, release
+		tags and note as the exported release. The device type of the fleet must
+		be compatible with the architecture of the fleet the release was exported
+		from.
+	`;
+	public static examples = [
+		'$ balena release import bundle.tar --fleet myorg/myfleet',
+		'$ balena release import /mnt/usb/release.tar --fleet myorg/myfleet --dockerHost 192.168.0.10',
+	];
+
+	public static usage = 'release import <bundle>';
+
+	public static args = {
+		bundle: Args.string({
+			description: 'path of the bundle file created by `balena release export`',
+			required: true,
+		}),
+	};
+
+	public static flags = {
+		fleet: {
+			...cf.fleet,
+			description: 'fleet name or slug (preferred) to create the release in',
+			required: true,
+		},
+		...dockerConnectionCliFlags,
+		// NOTE: Not supporting -h for help, because of clash with -h in DockerCliFlags
+		help: Flags.help({}),
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(ReleaseImportCmd);
+
+		const sdk = getBalenaSdk();
+		const logger = await Command.getLogger();
+		const { checkFleetCompatibility, createReleaseCopy, removeImages } =
+			await import('../../utils/release-copy');
+		const { loadReleaseBundleImages, readReleaseBundleManifest } = await import(
+			'../../utils/release-bundle'
+		);
+		const manifest = await readReleaseBundleManifest(params.bundle);
+
+		const { getApplication } = await import('../../utils/sdk');
+		const fleet = await getApplication(sdk, options.fleet!, {
+			$select: ['id', 'slug'],
+			$expand: { is_for__device_type: { $select: 'slug' } },
+		});
+		await checkFleetCompatibility(
+			{ slug: fleet.slug, deviceType: fleet.is_for__device_type[0].slug },
+			manifest.fleet,
+		);
+
+		const { getDocker } = await import('../../utils/docker');
+		const docker = await getDocker(options);
+		const imageNames = await loadReleaseBundleImages(
+			docker,
+			logger,
+			params.bundle,
+			manifest,
+		);
+		try {
+			const { commit } = await createReleaseCopy(
+				docker,
+				sdk,
+				logger,
+				fleet.id,
+				manifest.release,
+				imageNames,
+			);
+			logger.logSuccess(
+				`Release ${manifest.release.commit} imported to fleet ${fleet.slug} as release ${commit}`,
+			);
+		} finally {
+			await removeImages(docker, logger, Object.values(imageNames));
+		}
+	}
+}
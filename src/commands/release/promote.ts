@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args, Flags } from '@oclif/core';
+import Command from '../../command';
+import { ExpectedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { dockerConnectionCliFlags } from '../../utils/docker';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class ReleasePromoteCmd extends Command {
+	public static description = stripIndent`
+		Copy a release to another fleet without rebuilding it.
+
+		Create a release in the target fleet with the same composition, service
+		images, release tags and note as the given release. The service images are
+		pulled from the balena registry using the docker daemon (as in
+		\`balena deploy\`) and pushed to the target fleet's release, so that both
+		releases run exactly the same images. The release must be finalized and
+		successful, and the device type of the target fleet must be compatible with
+		the architecture of the release's fleet.
+
+		This allows building a release once in a staging fleet, testing it, and
+		then shipping it to a production fleet.
+	`;
+	public static examples = [
+		'$ balena release promote a777f7345fe3d655c1c981aa642e5555 --fleet myorg/production',
+		'$ balena release promote 1234567 --fleet myorg/production --dockerHost 192.168.0.10',
+	];
+
+	public static usage = 'release promote <release>';
+
+	public static args = {
+		release: Args.string({
+			description: 'the commit or ID of the release to promote',
+			required: true,
+		}),
+	};
+
+	public static flags = {
+		fleet: {
+			...cf.fleet,
+			description: 'fleet name or slug (preferred) to copy the release to',
+			required: true,
+		},
+		...dockerConnectionCliFlags,
+		// NOTE: Not supporting -h for help, because of clash with -h in DockerCliFlags
+		help: Flags.help({}),
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } =
+			await this.parse(ReleasePromoteCmd);
+
+		const sdk = getBalenaSdk();
+		const logger = await Command.getLogger();
+		const {
+			checkFleetCompatibility,
+			createReleaseCopy,
+			getReleaseMetadata,
+			getSourceRelease,
+			pullReleaseImages,
+			removeImages,
+		} = await import('../../utils/release-copy');
+		const release = await getSourceRelease(sdk, params.release);
+		const sourceFleet = release.belongs_to__application[0];
+
+		const { getApplication } = await import('../../utils/sdk');
+		const targetFleet = await getApplication(sdk, options.fleet!, {
+			$select: ['id', 'slug'],
+			$expand: { is_for__device_type: { $select: 'slug' } },
+		});
+		if (targetFleet.id === sourceFleet.id) {
+			throw new ExpectedError(
+				`Release ${release.commit} already belongs to fleet ${targetFleet.slug}`,
+			);
+		}
+
+		await checkFleetCompatibility(
+			{
+				slug: targetFleet.slug,
+				deviceType: targetFleet.is_for__device_type[0].slug,
+			},
+			{
+				slug: sourceFleet.slug,
+				deviceType: sourceFleet.is_for__device_type[0].slug,
+			},
+		);
+
+		const { getDocker } = await import('../../utils/docker');
+		const docker = await getDocker(options);
+		const imageNames = await pullReleaseImages(docker, sdk, logger, release);
+		try {
+			const { commit } = await createReleaseCopy(
+				docker,
+				sdk,
+				logger,
+				targetFleet.id,
+				getReleaseMetadata(release),
+				imageNames,
+			);
+			logger.logSuccess(
+				`Release ${release.commit} promoted to fleet ${targetFleet.slug} as release ${commit}`,
+			);
+		} finally {
+			await removeImages(docker, logger, Object.values(imageNames));
+		}
+	}
+}
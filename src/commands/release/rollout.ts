@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args, Flags } from '@oclif/core';
+import type { BalenaSDK } from 'balena-sdk';
+import Command from '../../command';
+import { ExpectedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import { getExpandedProp } from '../../utils/pine';
+import type { RolloutState } from '../../utils/rollout';
+
+export default class ReleaseRolloutCmd extends Command {
+	public static description = stripIndent`
+		Roll out a release to a subset of the devices of a fleet.
+
+		Pin a percentage of the devices of a fleet, optionally selected by device
+		tag, online status or OS version, to a release. Unlike \`balena fleet pin\`
+		and \`balena device pin\`, devices are pinned in batches: each batch must be
+		running the release before the next batch is pinned.
+
+		The rollout is halted if a device of the current batch goes offline,
+		reports a failed service, or the batch does not reach the release within
+		the --timeout period. A halted (or interrupted) rollout can be continued
+		with --resume, or rolled back with --abort, which restores each device to
+		the release it was pinned to before the rollout (or to tracking the
+		fleet's release). Only one rollout per fleet may be in progress.
+
+		Devices are chosen in order of UUID, so that repeating a rollout with a
+		higher --percent value extends the same set of devices.
+	`;
+	public static examples = [
+		'$ balena release rollout a777f7345fe3d655c1c981aa642e5555 --fleet myorg/myfleet --percent 10 --device-tag ring=canary',
+		'$ balena release rollout a777f73 --fleet myorg/myfleet --percent 50 --batch-size 5 --online',
+		'$ balena release rollout --fleet myorg/myfleet --resume',
+		'$ balena release rollout --fleet myorg/myfleet --abort',
+	];
+
+	public static usage = 'release rollout [release]';
+
+	public static args = {
+		release: Args.string({
+			description:
+				'the commit or ID of the release to roll out (not needed with --resume or --abort)',
+		}),
+	};
+
+	public static flags = {
+		fleet: { ...cf.fleet, required: true },
+		percent: Flags.integer({
+			description: 'percentage of the selected devices to roll out to',
+			default: 100,
+			min: 1,
+			max: 100,
+		}),
+		'batch-size': Flags.integer({
+			description: 'number of devices to pin at a time',
+			default: 10,
+			min: 1,
+		}),
+		timeout: Flags.integer({
+			description: 'minutes to wait for each batch to reach the release',
+			default: 30,
+			min: 1,
+		}),
+		'device-tag': cf.deviceTag,
+		online: cf.online,
+		'os-version': cf.osVersion,
+		resume: Flags.boolean({
+			description: 'continue a halted or interrupted rollout',
+			default: false,
+			exclusive: ['abort'],
+		}),
+		abort: Flags.boolean({
+			description: 'roll back a halted or interrupted rollout',
+			default: false,
+			exclusive: ['resume'],
+		}),
+		yes: cf.yes,
+		help: cf.help,
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } =
+			await this.parse(ReleaseRolloutCmd);
+
+		const continuing = options.resume || options.abort;
+		if (continuing === (params.release != null)) {
+			throw new ExpectedError(
+				'Either a release or one of the --resume or --abort options must be provided',
+			);
+		}
+
+		const balena = getBalenaSdk();
+		const { getApplication } = await import('../../utils/sdk');
+		const { getRolloutState, runRollout, abortRollout } = await import(
+			'../../utils/rollout'
+		);
+		const fleet = await getApplication(balena, options.fleet!, {
+			$select: ['id', 'slug'],
+		});
+		const existing = await getRolloutState(balena, fleet.slug);
+
+		if (continuing) {
+			if (existing == null) {
+				throw new ExpectedError(
+					`No rollout in progress for fleet ${fleet.slug}`,
+				);
+			}
+			if (options.abort) {
+				await abortRollout(balena, existing);
+			} else {
+				await runRollout(balena, existing);
+			}
+			return;
+		}
+
+		if (existing != null) {
+			throw new ExpectedError(stripIndent`
+				A rollout of release ${existing.release.commit} to fleet ${fleet.slug} is in progress.
+				Use --resume to continue it, or --abort to roll it back.`);
+		}
+
+		const state = await this.planRollout(
+			balena,
+			fleet,
+			params.release!,
+			options,
+		);
+		const deviceCount = state.batches.flat().length;
+		if (deviceCount === 0) {
+			throw new ExpectedError('No devices match the given selection');
+		}
+
+		const { confirm } = await import('../../utils/patterns');
+		await confirm(
+			options.yes,
+			`Roll out release ${state.release.commit} to ${deviceCount} device(s) of fleet ${fleet.slug} in ${state.batches.length} batch(es)?`,
+		);
+		await runRollout(balena, state);
+	}
+
+	async planRollout(
+		balena: BalenaSDK,
+		fleet: { id: number; slug: string },
+		releaseParam: string,
+		options: {
+			percent: number;
+			'batch-size': number;
+			timeout: number;
+			'device-tag'?: string[];
+			online: boolean;
+			'os-version'?: string;
+		},
+	): Promise<RolloutState> {
+		const { disambiguateReleaseParam } = await import(
+			'../../utils/normalization'
+		);
+		const release = await balena.models.release.get(
+			await disambiguateReleaseParam(balena, releaseParam),
+			{
+				$select: ['id', 'commit', 'status'],
+				$expand: { belongs_to__application: { $select: 'slug' } },
+			},
+		);
+		if (
+			getExpandedProp(release.belongs_to__application, 'slug') !== fleet.slug
+		) {
+			throw new ExpectedError(
+				`Release ${release.commit} does not belong to fleet ${fleet.slug}`,
+			);
+		}
+		if (release.status !== 'success') {
+			throw new ExpectedError(
+				`Release ${release.commit} is not successful (status: ${release.status})`,
+			);
+		}
+
+		const { selectDevices } = await import('../../utils/cloud');
+		const { chooseRolloutDevices, planBatches } = await import(
+			'../../utils/rollout'
+		);
+		const devices = chooseRolloutDevices(
+			await selectDevices(balena, {
+				fleet: fleet.slug,
+				tags: options['device-tag'],
+				online: options.online,
+				osVersion: options['os-version'],
+			}),
+			options.percent,
+		);
+		const uuids = devices.map((d) => d.uuid);
+
+		const previousReleases: Dictionary<number | null> = {};
+		if (uuids.length > 0) {
+			const pins = await balena.models.device.getAllByApplication(fleet.id, {
+				$select: 'uuid',
+				$expand: { should_be_running__release: { $select: 'id' } },
+				$filter: { uuid: { $in: uuids } },
+			});
+			for (const device of pins) {
+				previousReleases[device.uuid] =
+					getExpandedProp(device.should_be_running__release, 'id') ?? null;
+			}
+		}
+
+		return {
+			fleet: fleet.slug,
+			release: { id: release.id, commit: release.commit },
+			batches: planBatches(uuids, options['batch-size']),
+			completedBatches: 0,
+			previousReleases,
+			timeout: options.timeout,
+		};
+	}
+}
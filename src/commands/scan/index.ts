@@ -16,10 +16,13 @@
  */
 
 import { Flags } from '@oclif/core';
+import type { Interfaces } from '@oclif/core';
 import Command from '../../command';
 import * as cf from '../../utils/common-flags';
 import { getCliUx, stripIndent } from '../../utils/lazy';
 
+type FlagsDef = Interfaces.InferredFlags<typeof ScanCmd.flags>;
+
 export default class ScanCmd extends Command {
 	public static description = stripIndent`
 		Scan for balenaOS devices on your local network.
@@ -30,12 +33,29 @@ export default class ScanCmd extends Command {
 		devices running a development image of balenaOS. Devices running a production
 		image do not expose balenaEngine (on TCP port 2375), which is why less
 		information is printed about them.
+
+		The device type, OS version and supervisor version are queried through the
+		supervisor API (on TCP port 48484) of devices in local mode. For other
+		devices, the output shows whether the supervisor API is reachable and whether
+		the device is in local mode.
+
+		With --watch, the local network is scanned continuously (each scan lasting
+		--timeout seconds), and devices are printed as they appear or disappear, until
+		interrupted (e.g. with Ctrl-C). With --json, each event is printed as a line
+		of JSON.
+
+		Networks where mDNS (multicast DNS) is blocked can be scanned with --subnet,
+		which probes each address of the given IPv4 subnets. Devices found this way
+		are listed by IP address. mDNS queries are sent over both IPv4 and IPv6.
 `;
 
 	public static examples = [
 		'$ balena scan',
 		'$ balena scan --timeout 120',
 		'$ balena scan --verbose',
+		'$ balena scan --watch',
+		'$ balena scan --watch --json',
+		'$ balena scan --subnet 10.0.0.0/24',
 	];
 
 	public static usage = 'scan';
@@ -50,6 +70,13 @@ export default class ScanCmd extends Command {
 			char: 't',
 			description: 'scan timeout in seconds',
 		}),
+		watch: Flags.boolean({
+			default: false,
+			char: 'w',
+			description:
+				'keep scanning, and print devices as they appear or disappear',
+		}),
+		subnet: cf.subnet,
 		help: cf.help,
 		json: Flags.boolean({
 			default: false,
@@ -59,7 +86,6 @@ export default class ScanCmd extends Command {
 	};
 
 	public static primary = true;
-	public static root = true;
 	public static offlineCompatible = true;
 
 	public async run() {
@@ -68,100 +94,40 @@ export default class ScanCmd extends Command {
 			'../../utils/discover'
 		);
 		const prettyjson = await import('prettyjson');
-		const dockerUtils = await import('../../utils/docker');
-
-		const dockerPort = 2375;
-		const dockerTimeout = 2000;
 
 		const { flags: options } = await this.parse(ScanCmd);
 
 		const discoverTimeout =
 			options.timeout != null ? options.timeout * 1000 : undefined;
 
+		if (options.watch) {
+			await this.watch(discoverTimeout, options);
+			return;
+		}
+
 		// Find active local devices
 		const ux = getCliUx();
 		ux.action.start('Scanning for local balenaOS devices');
 
-		const localDevices = await discoverLocalBalenaOsDevices(discoverTimeout);
-		const engineReachableDevices: boolean[] = await Promise.all(
-			localDevices.map(async ({ address }: { address: string }) => {
-				const docker = await dockerUtils.createClient({
-					host: address,
-					port: dockerPort,
-					timeout: dockerTimeout,
-				});
-				try {
-					await docker.ping();
-					return true;
-				} catch (err) {
-					return false;
-				}
-			}),
+		const localDevices = await discoverLocalBalenaOsDevices(
+			discoverTimeout,
+			options.subnet,
 		);
 
-		const developmentDevices = localDevices.filter(
-			(_localDevice, index) => engineReachableDevices[index],
-		);
-
-		const productionDevices = _.differenceWith(
-			localDevices,
-			developmentDevices,
-			_.isEqual,
-		);
-
-		const productionDevicesInfo = productionDevices.map((device) => {
-			return {
-				host: device.host,
-				address: device.address,
-				osVariant: 'production',
-				dockerInfo: undefined,
-				dockerVersion: undefined,
-			};
-		});
-
 		// Query devices for info
 		const devicesInfo = await Promise.all(
-			developmentDevices.map(async ({ host, address }) => {
-				const docker = await dockerUtils.createClient({
-					host: address,
-					port: dockerPort,
-					timeout: dockerTimeout,
-				});
-				const [dockerInfo, dockerVersion] = await Promise.all([
-					docker.info(),
-					docker.version(),
-				]);
-				return {
-					host,
-					address,
-					osVariant: 'development',
-					dockerInfo,
-					dockerVersion,
-				};
-			}),
+			localDevices.map((device) =>
+				ScanCmd.getDeviceDetails(device, options.verbose),
+			),
 		);
 
 		ux.action.stop('Reporting scan results');
 
-		// Reduce properties if not --verbose
-		if (!options.verbose) {
-			devicesInfo.forEach((d: any) => {
-				d.dockerInfo = _.isObject(d.dockerInfo)
-					? _.pick(d.dockerInfo, ScanCmd.dockerInfoProperties)
-					: d.dockerInfo;
-				d.dockerVersion = _.isObject(d.dockerVersion)
-					? _.pick(d.dockerVersion, ScanCmd.dockerVersionProperties)
-					: d.dockerVersion;
-			});
-		}
-
-		const cmdOutput: Array<{
-			host: string;
-			address: string;
-			osVariant: string;
-			dockerInfo: any;
-			dockerVersion: import('dockerode').DockerVersion | undefined;
-		}> = [...productionDevicesInfo, ...devicesInfo];
+		// List production devices first
+		const cmdOutput = _.sortBy(
+			devicesInfo,
+			(d) => d.osVariant === 'development',
+		);
 
 		// Output results
 		if (!options.json && cmdOutput.length === 0) {
@@ -179,6 +145,116 @@ export default class ScanCmd extends Command {
 		);
 	}
 
+	/** Scan continuously, printing devices as they appear or disappear */
+	private async watch(timeout: number | undefined, options: FlagsDef) {
+		const { discoverLocalBalenaOsDevices, LocalDeviceTracker } = await import(
+			'../../utils/discover'
+		);
+		const prettyjson = await import('prettyjson');
+		const tracker = new LocalDeviceTracker();
+
+		const printEvent = (
+			event: 'appeared' | 'disappeared',
+			device: { host: string; address: string },
+		) => {
+			const timestamp = new Date();
+			if (options.json) {
+				console.log(JSON.stringify({ event, timestamp, ...device }));
+				return;
+			}
+			console.log(
+				`[${timestamp.toLocaleTimeString()}] Device ${event}: ${device.host} (${device.address})`,
+			);
+			if (event === 'appeared') {
+				console.log(
+					prettyjson.render(device, { noColor: true, defaultIndentation: 2 }),
+				);
+			}
+		};
+
+		console.error(
+			'Watching for local balenaOS devices (press Ctrl-C to stop)...',
+		);
+		for (;;) {
+			const found = await discoverLocalBalenaOsDevices(timeout, options.subnet);
+			const { appeared, disappeared } = tracker.update(found);
+			for (const { host, address } of disappeared) {
+				printEvent('disappeared', { host, address });
+			}
+			const appearedInfo = await Promise.all(
+				appeared.map((device) =>
+					ScanCmd.getDeviceDetails(device, options.verbose),
+				),
+			);
+			for (const device of appearedInfo) {
+				printEvent('appeared', device);
+			}
+		}
+	}
+
+	/**
+	 * Query a device for information through balenaEngine (development images)
+	 * and the supervisor API (local mode).
+	 */
+	protected static async getDeviceDetails(
+		{ host, address }: { host: string; address: string },
+		verbose: boolean,
+	) {
+		const _ = await import('lodash');
+		const { querySupervisor } = await import('../../utils/discover');
+		const [engineInfo, supervisorInfo] = await Promise.all([
+			ScanCmd.getEngineInfo(address),
+			querySupervisor(address),
+		]);
+		let dockerInfo: any = engineInfo?.dockerInfo;
+		let dockerVersion: import('dockerode').DockerVersion | undefined =
+			engineInfo?.dockerVersion;
+
+		// Reduce properties if not --verbose
+		if (!verbose) {
+			dockerInfo = _.isObject(dockerInfo)
+				? _.pick(dockerInfo, ScanCmd.dockerInfoProperties)
+				: dockerInfo;
+			dockerVersion = _.isObject(dockerVersion)
+				? (_.pick(
+						dockerVersion,
+						ScanCmd.dockerVersionProperties,
+					) as typeof dockerVersion)
+				: dockerVersion;
+		}
+		return {
+			host,
+			address,
+			osVariant: engineInfo != null ? 'development' : 'production',
+			...supervisorInfo,
+			dockerInfo,
+			dockerVersion,
+		};
+	}
+
+	/**
+	 * Query balenaEngine (only exposed on development images) for information,
+	 * returning undefined if the engine is not reachable.
+	 */
+	protected static async getEngineInfo(address: string) {
+		const dockerUtils = await import('../../utils/docker');
+		const docker = await dockerUtils.createClient({
+			host: address,
+			port: 2375,
+			timeout: 2000,
+		});
+		try {
+			await docker.ping();
+		} catch (err) {
+			return;
+		}
+		const [dockerInfo, dockerVersion] = await Promise.all([
+			docker.info(),
+			docker.version(),
+		]);
+		return { dockerInfo, dockerVersion };
+	}
+
 	protected static dockerInfoProperties = [
 		'Containers',
 		'ContainersRunning',
@@ -16,14 +16,20 @@
  */
 
 import { Flags, Args } from '@oclif/core';
+import type { Interfaces } from '@oclif/core';
 import Command from '../../command';
+import { ExpectedError } from '../../errors';
 import * as cf from '../../utils/common-flags';
-import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import type { SshTarget } from '../../utils/device/ssh-fanout';
+import { getBalenaSdk, getVisuals, stripIndent } from '../../utils/lazy';
 import {
 	parseAsInteger,
 	validateLocalHostnameOrIp,
+	validateUuid,
 } from '../../utils/validation';
 
+type FlagsDef = Interfaces.InferredFlags<typeof SshCmd.flags>;
+
 export default class SshCmd extends Command {
 	public static description = stripIndent`
 		Open a SSH prompt on a device's host OS or service container.
@@ -46,6 +52,18 @@ export default class SshCmd extends Command {
 		the host OS) is not currently possible when a device UUID is used (instead of
 		an IP address) because of a balenaCloud backend limitation.
 
+		With --all, a non-interactive command given with --command is run on many
+		devices in parallel, on the host OS or on the given service container. The
+		devices are selected with the fleetOrDevice argument: either a fleet name or
+		slug, or a comma-separated list of device UUIDs and/or local device addresses.
+		The devices of a fleet may be further selected with the --device-tag, --online
+		and --os-version options. The output lines of each device are prefixed with the
+		device name or address, followed by a summary table of the exit codes, or
+		all of the output is printed as JSON with --json. The process exit code is
+		non-zero if the command failed on any device. As ssh itself exits with code
+		255 on connection errors, a command exit code of 255 is only reported as such
+		if ssh did not print a connection error message.
+
 		Note: \`balena ssh\` requires an openssh-compatible client to be correctly
 		installed in your shell environment. For more information (including Windows
 		support) please check:
@@ -61,6 +79,9 @@ export default class SshCmd extends Command {
 		'$ balena ssh f49cefd.local my-service',
 		'$ echo "uptime; exit;" | balena ssh f49cefd',
 		'$ echo "uptime; exit;" | balena ssh 192.168.0.1 myService',
+		'$ balena ssh MyFleet --all --command "uptime" --online',
+		'$ balena ssh MyFleet my-service --all --command "node --version" --device-tag ring=canary',
+		'$ balena ssh f49cefd,a1b2c3d,192.168.0.1 --all --command "df -h" --concurrency 2 --json',
 	];
 
 	public static args = {
@@ -100,6 +121,27 @@ export default class SshCmd extends Command {
 			default: false,
 			description: 'bypass global proxy configuration for the ssh connection',
 		}),
+		all: Flags.boolean({
+			default: false,
+			description:
+				'run a command on all the selected devices (fleet or list of devices)',
+			exclusive: ['tty'],
+		}),
+		command: Flags.string({
+			description: 'command to run on each device with --all',
+		}),
+		concurrency: Flags.integer({
+			description: 'maximum number of devices to run the command on at once',
+			default: 10,
+			min: 1,
+		}),
+		'device-tag': cf.deviceTag,
+		online: cf.online,
+		'os-version': cf.osVersion,
+		json: {
+			...cf.json,
+			description: 'print the output and exit code of each device as JSON',
+		},
 		help: cf.help,
 	};
 
@@ -109,6 +151,25 @@ export default class SshCmd extends Command {
 	public async run() {
 		const { args: params, flags: options } = await this.parse(SshCmd);
 
+		if (options.all) {
+			await this.runOnAll(params.fleetOrDevice, params.service, options);
+			return;
+		}
+		const allOnly = [
+			'command',
+			'device-tag',
+			'online',
+			'os-version',
+			'json',
+		] as const;
+		for (const option of allOnly) {
+			if (options[option]) {
+				throw new ExpectedError(
+					`The --${option} option requires the --all option`,
+				);
+			}
+		}
+
 		// Local connection
 		if (validateLocalHostnameOrIp(params.fleetOrDevice)) {
 			const { performLocalDeviceSSH } = await import('../../utils/device/ssh');
@@ -122,13 +183,9 @@ export default class SshCmd extends Command {
 		}
 
 		// Remote connection
-		const { getProxyConfig } = await import('../../utils/helpers');
 		const { getOnlineTargetDeviceUuid } = await import('../../utils/patterns');
 		const sdk = getBalenaSdk();
 
-		const proxyConfig = getProxyConfig();
-		const useProxy = !!proxyConfig && !options.noproxy;
-
 		// this will be a tunnelled SSH connection...
 		await Command.checkNotUsingOfflineMode();
 		await Command.checkLoggedIn();
@@ -137,52 +194,9 @@ export default class SshCmd extends Command {
 			params.fleetOrDevice,
 		);
 
-		const { which } = await import('../../utils/which');
-
-		const [whichProxytunnel, { username }, proxyUrl] = await Promise.all([
-			useProxy ? which('proxytunnel', false) : undefined,
-			sdk.auth.getUserInfo(),
-			// note that `proxyUrl` refers to the balenaCloud "resin-proxy"
-			// service, currently "balena-devices.com", rather than some
-			// local proxy server URL
-			sdk.settings.get('proxyUrl'),
-		]);
-
-		const getSshProxyCommand = () => {
-			if (!proxyConfig) {
-				return;
-			}
-			if (!whichProxytunnel) {
-				console.warn(stripIndent`
-					Proxy is enabled but the \`proxytunnel\` binary cannot be found.
-					Please install it if you want to route the \`balena ssh\` requests through the proxy.
-					Alternatively you can pass \`--noproxy\` param to the \`balena ssh\` command to ignore the proxy config
-					for the \`ssh\` requests.
-
-					Attempting the unproxied request for now.`);
-				return;
-			}
-
-			const p = proxyConfig;
-			if (p.username && p.password) {
-				// proxytunnel understands these variables for proxy authentication.
-				// Setting the variables instead of command-line options avoids the
-				// need for shell-specific escaping of special characters like '$'.
-				process.env.PROXYUSER = p.username;
-				process.env.PROXYPASS = p.password;
-			}
-
-			return [
-				'proxytunnel',
-				`--proxy=${p.host}:${p.port}`,
-				// ssh replaces these %h:%p variables in the ProxyCommand option
-				// https://linux.die.net/man/5/ssh_config
-				'--dest=%h:%p',
-				...(options.verbose ? ['--verbose'] : []),
-			];
-		};
-
-		const proxyCommand = useProxy ? getSshProxyCommand() : undefined;
+		const { getCloudSshOptions } = await import('../../utils/ssh');
+		const { hostname, username, proxyCommand } =
+			await getCloudSshOptions(options);
 
 		// At this point, we have a long uuid of a device
 		// that we know exists and is accessible
@@ -193,7 +207,7 @@ export default class SshCmd extends Command {
 			);
 			containerId = await getContainerIdForService({
 				deviceUuid,
-				hostname: `ssh.${proxyUrl}`,
+				hostname,
 				port: options.port || 'cloud',
 				proxyCommand,
 				service: params.service,
@@ -210,11 +224,110 @@ export default class SshCmd extends Command {
 		const { runRemoteCommand } = await import('../../utils/ssh');
 		await runRemoteCommand({
 			cmd: accessCommand,
-			hostname: `ssh.${proxyUrl}`,
+			hostname,
 			port: options.port || 'cloud',
 			proxyCommand,
 			username,
 			verbose: options.verbose,
 		});
 	}
+
+	/** Run a non-interactive command on many devices (--all) */
+	private async runOnAll(
+		fleetOrDevices: string,
+		service: string | undefined,
+		options: FlagsDef,
+	) {
+		if (!options.command) {
+			throw new ExpectedError('The --all option requires the --command option');
+		}
+		const { hasDeviceFilters, selectDevices } = await import(
+			'../../utils/cloud'
+		);
+		const items = fleetOrDevices
+			.split(',')
+			.map((item) => item.trim())
+			.filter((item) => item);
+		const addresses = items.filter(validateLocalHostnameOrIp);
+		const uuids = items.filter((item) => !validateLocalHostnameOrIp(item));
+		const selector = {
+			tags: options['device-tag'],
+			online: options.online,
+			osVersion: options['os-version'],
+		};
+		if (addresses.length > 0 && hasDeviceFilters(selector)) {
+			throw new ExpectedError(
+				'The --device-tag, --online and --os-version options cannot be used with local device addresses',
+			);
+		}
+
+		const { runOnTargets } = await import('../../utils/device/ssh-fanout');
+		const targets: SshTarget[] = addresses.map((address) => ({
+			name: address,
+			address,
+		}));
+		let cloud;
+		if (uuids.length > 0) {
+			// A single item that is not a UUID is a fleet name or slug
+			const isFleet = items.length === 1 && !validateUuid(items[0]);
+			const invalid = uuids.find((uuid) => !validateUuid(uuid));
+			if (!isFleet && invalid != null) {
+				throw new ExpectedError(
+					`Invalid device "${invalid}": expected a device UUID or a local device address`,
+				);
+			}
+			await Command.checkNotUsingOfflineMode();
+			await Command.checkLoggedIn();
+			const sdk = getBalenaSdk();
+			let fleet: string | undefined;
+			if (isFleet) {
+				const { getFleetSlug } = await import('../../utils/sdk');
+				fleet = await getFleetSlug(sdk, items[0]);
+			}
+			const devices = await selectDevices(sdk, {
+				...selector,
+				...(isFleet ? { fleet } : { uuids }),
+			});
+			targets.push(
+				...devices.map((device) => ({
+					name: device.device_name,
+					uuid: device.uuid,
+				})),
+			);
+			const { getCloudSshOptions } = await import('../../utils/ssh');
+			cloud = await getCloudSshOptions(options);
+		}
+		if (targets.length === 0) {
+			throw new ExpectedError('No devices match the given selection');
+		}
+
+		const results = await runOnTargets(targets, {
+			command: options.command,
+			service,
+			concurrency: options.concurrency,
+			port: options.port,
+			cloud,
+			printOutput: !options.json,
+			verbose: options.verbose,
+		});
+		if (results.some((result) => result.exitCode !== 0)) {
+			process.exitCode = 1;
+		}
+		if (options.json) {
+			console.log(JSON.stringify(results, null, 4));
+			return;
+		}
+		console.log(
+			getVisuals().table.horizontal(
+				results.map((result) => ({
+					device: result.target,
+					uuid: result.uuid ?? '',
+					exit_code: result.exitCode ?? '',
+					result:
+						result.error ?? (result.exitCode === 0 ? 'OK' : 'Command failed'),
+				})),
+				['device', 'uuid', 'exit_code', 'result'],
+			),
+		);
+	}
 }
@@ -16,17 +16,18 @@
  */
 
 import { Flags, Args } from '@oclif/core';
+import type { Interfaces } from '@oclif/core';
 import Command from '../../command';
-import {
-	NoPortsDefinedError,
-	InvalidPortMappingError,
-	ExpectedError,
-} from '../../errors';
+import { NoPortsDefinedError, ExpectedError } from '../../errors';
 import * as cf from '../../utils/common-flags';
-import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+import { getBalenaSdk, getVisuals, stripIndent } from '../../utils/lazy';
 import { lowercaseIfSlug } from '../../utils/normalization';
 
 import type { Server, Socket } from 'net';
+import type { PortMapping, TunnelConnectionLogger } from '../../utils/tunnel';
+import type { UdpFraming } from '../../utils/tunnel-udp';
+
+type FlagsDef = Interfaces.InferredFlags<typeof TunnelCmd.flags>;
 
 export default class TunnelCmd extends Command {
 	public static description = stripIndent`
@@ -48,6 +49,27 @@ export default class TunnelCmd extends Command {
 		Note: the -p (--port) flag must be provided at the end of the command line,
 		as per examples.
 
+		With --all, the same remote ports are tunnelled to every online device of the
+		fleet, or to the devices selected with --device-tag. Port mappings are then
+		given as <remotePort>[:localIP], and each device gets its own local port from
+		--port-range. The local port of a device is derived from its UUID, so it stays
+		the same between runs. The mappings are printed as a table, and written to a
+		JSON file with --mapping-file.
+
+		The --socks5 option opens a local SOCKS5 proxy through which any port of the
+		device can be reached, using the device UUID, short UUID or device name
+		(optionally followed by '.balena') as the destination host name. Connections
+		to other destinations are refused.
+
+		The --udp option forwards UDP datagrams, with the same port mapping format as
+		--port. As the tunnel only carries TCP streams, the datagrams of each local
+		peer are sent over a TCP connection to the remote port, so the device must
+		accept the TCP variant of the protocol on the same port (as DNS and Modbus
+		servers usually do). With --udp-framing 'length' (the default), each datagram
+		is prefixed with its 2-byte length, as in DNS over TCP. With 'mbap', datagrams
+		are Modbus frames, sent as they are, and the replies of the device are split
+		into frames on the length field of their MBAP header.
+
 		In the case of openBalena, the tunnel command in CLI v12.38.5 or later requires
 		openBalena v3.1.2 or later. Older CLI versions work with older openBalena
 		versions.
@@ -68,6 +90,19 @@ export default class TunnelCmd extends Command {
 		'',
 		'# multiple port tunnels can be specified at any one time',
 		'$ balena tunnel myFleet -p 8080:3000 -p 8081:9000',
+		'',
+		'# tunnel port 9100 of every online device of a fleet tagged role=gateway',
+		'$ balena tunnel myFleet --all -p 9100 --device-tag role=gateway --mapping-file tunnels.json',
+		'',
+		'# open a SOCKS5 proxy on localhost:1080 to reach any port of the device,',
+		'# e.g. http://2ead211.balena:8080 in a browser configured to use it',
+		'$ balena tunnel 2ead211 --socks5 1080',
+		'',
+		'# forward DNS queries sent to localhost:5353 to UDP/TCP port 53 of the device',
+		'$ balena tunnel 2ead211 --udp 53:5353',
+		'',
+		'# forward Modbus/UDP to localhost:502',
+		'$ balena tunnel 2ead211 --udp 502 --udp-framing mbap',
 	];
 
 	public static args = {
@@ -87,6 +122,36 @@ export default class TunnelCmd extends Command {
 			char: 'p',
 			multiple: true,
 		}),
+		all: Flags.boolean({
+			default: false,
+			description: 'tunnel to all the online devices of the fleet',
+			exclusive: ['socks5', 'udp'],
+		}),
+		'device-tag': cf.deviceTag,
+		'port-range': Flags.string({
+			description:
+				'range of local ports to allocate to devices with --all, e.g. 20000-29999 (default)',
+		}),
+		'mapping-file': Flags.string({
+			description:
+				'path of a JSON file to write the local port of each device to, with --all',
+		}),
+		socks5: Flags.integer({
+			description:
+				'local port of a SOCKS5 proxy to reach any port of the device',
+			min: 1,
+			max: 65535,
+		}),
+		udp: Flags.string({
+			description:
+				'UDP port mapping in the format <remotePort>[:[localIP:]localPort]',
+			multiple: true,
+		}),
+		'udp-framing': Flags.string({
+			description: 'framing of UDP datagrams in the tunnel',
+			options: ['length', 'mbap'],
+			default: 'length',
+		}),
 		help: cf.help,
 	};
 
@@ -117,77 +182,177 @@ export default class TunnelCmd extends Command {
 			}
 		};
 
-		if (options.port === undefined) {
+		if (
+			options.port === undefined &&
+			options.udp === undefined &&
+			options.socks5 === undefined
+		) {
 			throw new NoPortsDefinedError();
 		}
 
+		const openTcpTunnel = async (
+			uuid: string,
+			{ localPort, localAddress, remotePort }: PortMapping,
+		): Promise<boolean> => {
+			try {
+				const { tunnelConnectionToDevice } = await import('../../utils/tunnel');
+				const handler = await tunnelConnectionToDevice(uuid, remotePort, sdk);
+
+				const { createServer } = await import('net');
+				const server = createServer(async (client: Socket) => {
+					try {
+						await handler(client);
+						logConnection(
+							client.remoteAddress ?? '',
+							client.remotePort ?? 0,
+							client.localAddress ?? '',
+							client.localPort ?? 0,
+							uuid,
+							remotePort,
+						);
+					} catch (err) {
+						logConnection(
+							client.remoteAddress ?? '',
+							client.remotePort ?? 0,
+							client.localAddress ?? '',
+							client.localPort ?? 0,
+							uuid,
+							remotePort,
+							err,
+						);
+					}
+				});
+
+				await new Promise<Server>((resolve, reject) => {
+					server.on('error', reject);
+					server.listen(localPort, localAddress, () => {
+						resolve(server);
+					});
+				});
+
+				logger.logInfo(
+					` - tunnelling ${localAddress}:${localPort} to ${uuid}:${remotePort}`,
+				);
+
+				return true;
+			} catch (err) {
+				logger.logWarn(
+					` - not tunnelling ${localAddress}:${localPort} to ${uuid}:${remotePort}, failed ${JSON.stringify(
+						err.message,
+					)}`,
+				);
+
+				return false;
+			}
+		};
+
+		if (options.all) {
+			await this.tunnelToFleet(params.deviceOrFleet, options, openTcpTunnel);
+			return;
+		}
+		const allOnly = ['device-tag', 'port-range', 'mapping-file'] as const;
+		for (const option of allOnly) {
+			if (options[option]) {
+				throw new ExpectedError(
+					`The --${option} option requires the --all option`,
+				);
+			}
+		}
+
 		// Ascertain device uuid
 		const { getOnlineTargetDeviceUuid } = await import('../../utils/patterns');
 		const uuid = await getOnlineTargetDeviceUuid(sdk, params.deviceOrFleet);
 		logger.logInfo(`Opening a tunnel to ${uuid}...`);
 
 		const _ = await import('lodash');
-		const localListeners = _.chain(options.port)
+		const { getDevicePortOpener, parsePortMapping } = await import(
+			'../../utils/tunnel'
+		);
+		const localListeners = _.chain(options.port ?? [])
 			.map((mapping) => {
-				return this.parsePortMapping(mapping);
+				return parsePortMapping(mapping);
 			})
-			.map(async ({ localPort, localAddress, remotePort }) => {
-				try {
-					const { tunnelConnectionToDevice } = await import(
-						'../../utils/tunnel'
-					);
-					const handler = await tunnelConnectionToDevice(uuid, remotePort, sdk);
-
-					const { createServer } = await import('net');
-					const server = createServer(async (client: Socket) => {
-						try {
-							await handler(client);
-							logConnection(
-								client.remoteAddress ?? '',
-								client.remotePort ?? 0,
-								client.localAddress ?? '',
-								client.localPort ?? 0,
-								uuid,
-								remotePort,
-							);
-						} catch (err) {
-							logConnection(
-								client.remoteAddress ?? '',
-								client.remotePort ?? 0,
-								client.localAddress ?? '',
-								client.localPort ?? 0,
-								uuid,
-								remotePort,
-								err,
-							);
-						}
-					});
+			.map((mapping) => openTcpTunnel(uuid, mapping))
+			.value();
 
-					await new Promise<Server>((resolve, reject) => {
-						server.on('error', reject);
-						server.listen(localPort, localAddress, () => {
-							resolve(server);
-						});
-					});
+		const openDevicePort = await getDevicePortOpener(uuid, sdk);
+		const logTunnelConnection: TunnelConnectionLogger = (connection, err) => {
+			logConnection(
+				connection.fromHost,
+				connection.fromPort,
+				connection.localAddress,
+				connection.localPort,
+				uuid,
+				connection.remotePort,
+				err,
+			);
+		};
 
+		const udpListeners = (options.udp ?? [])
+			.map((mapping) => parsePortMapping(mapping))
+			.map(async (mapping) => {
+				const { localAddress, localPort, remotePort } = mapping;
+				try {
+					const { forwardUdpPort } = await import('../../utils/tunnel-udp');
+					await forwardUdpPort(
+						openDevicePort,
+						mapping,
+						options['udp-framing'] as UdpFraming,
+						logTunnelConnection,
+					);
 					logger.logInfo(
-						` - tunnelling ${localAddress}:${localPort} to ${uuid}:${remotePort}`,
+						` - tunnelling UDP ${localAddress}:${localPort} to ${uuid}:${remotePort}`,
 					);
-
 					return true;
 				} catch (err) {
 					logger.logWarn(
-						` - not tunnelling ${localAddress}:${localPort} to ${uuid}:${remotePort}, failed ${JSON.stringify(
+						` - not tunnelling UDP ${localAddress}:${localPort} to ${uuid}:${remotePort}, failed ${JSON.stringify(
 							err.message,
 						)}`,
 					);
-
 					return false;
 				}
-			})
-			.value();
+			});
 
-		const results = await Promise.all(localListeners);
+		const socksListener = async () => {
+			if (options.socks5 === undefined) {
+				return false;
+			}
+			try {
+				const { device_name } = await sdk.models.device.get(uuid, {
+					$select: 'device_name',
+				});
+				const hostnames = _.flatMap(
+					[uuid, uuid.slice(0, 7), device_name],
+					(name) => [name, `${name}.balena`],
+				);
+				const { startSocksServer } = await import('../../utils/tunnel-socks');
+				await startSocksServer(
+					openDevicePort,
+					hostnames,
+					options.socks5,
+					'localhost',
+					logTunnelConnection,
+				);
+				logger.logInfo(
+					` - SOCKS5 proxy on localhost:${options.socks5} to any port of ${uuid}`,
+				);
+				return true;
+			} catch (err) {
+				logger.logWarn(
+					` - not opening a SOCKS5 proxy on localhost:${options.socks5}, failed ${JSON.stringify(
+						err.message,
+					)}`,
+				);
+				return false;
+			}
+		};
+
+		const results = await Promise.all([
+			...localListeners,
+			...udpListeners,
+			socksListener(),
+		]);
 		if (!results.includes(true)) {
 			throw new ExpectedError('No ports are valid for tunnelling');
 		}
@@ -195,51 +360,102 @@ export default class TunnelCmd extends Command {
 		logger.logInfo('Waiting for connections...');
 	}
 
-	/**
-	 * Parse a port mapping specification string in the format:
-	 *  <remotePort>[:[localIP:]localPort]
-	 * @param portMapping
-	 */
-	parsePortMapping(portMapping: string) {
-		const mappingElements = portMapping.split(':');
-
-		let localAddress = 'localhost';
-
-		// First element is always remotePort
-		// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
-		// eslint-disable-next-line radix
-		const remotePort = parseInt(mappingElements[0], undefined);
-		let localPort = remotePort;
-
-		if (mappingElements.length === 2) {
-			// [1] could be localAddress or localPort
-			if (/^\d+$/.test(mappingElements[1])) {
-				// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
-				// eslint-disable-next-line radix
-				localPort = parseInt(mappingElements[1], undefined);
-			} else {
-				localAddress = mappingElements[1];
-			}
-		} else if (mappingElements.length === 3) {
-			// [1] is localAddress, [2] is localPort
-			localAddress = mappingElements[1];
-			// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
-			// eslint-disable-next-line radix
-			localPort = parseInt(mappingElements[2], undefined);
-		} else if (mappingElements.length > 3) {
-			throw new InvalidPortMappingError(portMapping);
+	/** Tunnel the same remote ports to many devices of a fleet (--all) */
+	private async tunnelToFleet(
+		fleet: string,
+		options: FlagsDef,
+		openTcpTunnel: (uuid: string, mapping: PortMapping) => Promise<boolean>,
+	) {
+		if (options.port === undefined) {
+			throw new NoPortsDefinedError();
 		}
+		const { parsePortMapping } = await import('../../utils/tunnel');
+		const mappings = options.port.map((mapping) => {
+			if (!/^\d+(:[^:]*[^:\d][^:]*)?$/.test(mapping)) {
+				throw new ExpectedError(
+					`'${mapping}' is not a valid port mapping with --all: expected <remotePort>[:localIP], as local ports are allocated from --port-range`,
+				);
+			}
+			return parsePortMapping(mapping);
+		});
+		const { allocateLocalPorts, parsePortRange } = await import(
+			'../../utils/tunnel-fanout'
+		);
+		const range = parsePortRange(options['port-range'] ?? '20000-29999');
 
-		// Validate results
-		if (!this.isValidPort(remotePort) || !this.isValidPort(localPort)) {
-			throw new InvalidPortMappingError(portMapping);
+		const sdk = getBalenaSdk();
+		const { getFleetSlug } = await import('../../utils/sdk');
+		const { selectDevices } = await import('../../utils/cloud');
+		const devices = await selectDevices(sdk, {
+			fleet: await getFleetSlug(sdk, fleet),
+			tags: options['device-tag'],
+			online: true,
+		});
+		if (devices.length === 0) {
+			throw new ExpectedError('No online devices match the given selection');
 		}
+		const allocations = allocateLocalPorts(
+			devices.map((device) => device.uuid),
+			mappings.map((mapping) => mapping.remotePort),
+			range,
+		);
 
-		return { remotePort, localAddress, localPort };
-	}
-
-	isValidPort(port: number) {
-		const MAX_PORT_VALUE = Math.pow(2, 16) - 1;
-		return port > 0 && port <= MAX_PORT_VALUE;
+		const logger = await Command.getLogger();
+		logger.logInfo(`Opening tunnels to ${devices.length} device(s)...`);
+		const { mapWithConcurrency } = await import('../../utils/helpers');
+		const tunnels = await mapWithConcurrency(
+			allocations,
+			10,
+			async ({ uuid, remotePort, localPort }) => {
+				const { localAddress } = mappings.find(
+					(mapping) => mapping.remotePort === remotePort,
+				)!;
+				return {
+					device: devices.find((d) => d.uuid === uuid)!.device_name,
+					uuid,
+					remotePort,
+					localAddress,
+					localPort,
+					listening: await openTcpTunnel(uuid, {
+						remotePort,
+						localAddress,
+						localPort,
+					}),
+				};
+			},
+		);
+
+		console.log(
+			getVisuals().table.horizontal(
+				tunnels.map((tunnel) => ({
+					device: tunnel.device,
+					uuid: tunnel.uuid,
+					remote_port: tunnel.remotePort,
+					local_address: tunnel.localAddress,
+					local_port: tunnel.localPort,
+					status: tunnel.listening ? 'listening' : 'failed',
+				})),
+				[
+					'device',
+					'uuid',
+					'remote_port',
+					'local_address',
+					'local_port',
+					'status',
+				],
+			),
+		);
+		if (options['mapping-file']) {
+			const { promises: fs } = await import('fs');
+			await fs.writeFile(
+				options['mapping-file'],
+				JSON.stringify(tunnels, null, 4),
+			);
+			logger.logInfo(`Tunnel mappings written to ${options['mapping-file']}`);
+		}
+		if (!tunnels.some((tunnel) => tunnel.listening)) {
+			throw new ExpectedError('No ports are valid for tunnelling');
+		}
+		logger.logInfo('Waiting for connections...');
 	}
 }
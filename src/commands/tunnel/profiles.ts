@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, getVisuals, stripIndent } from '../../utils/lazy';
+
+export default class TunnelProfilesCmd extends Command {
+	public static description = stripIndent`
+		List the saved tunnel profiles.
+
+		List the tunnel profiles saved with 'balena tunnel save', with their device
+		and port mappings (in the format <remotePort>:<localIP>:<localPort>).
+	`;
+
+	public static examples = [
+		'$ balena tunnel profiles',
+		'$ balena tunnel profiles --json',
+	];
+
+	public static usage = 'tunnel profiles';
+
+	public static flags = {
+		json: cf.json,
+		help: cf.help,
+	};
+
+	public static offlineCompatible = true;
+
+	public async run() {
+		const { flags: options } = await this.parse(TunnelProfilesCmd);
+
+		const { formatPortMapping, getTunnelProfiles } = await import(
+			'../../utils/tunnel-profiles'
+		);
+		const profiles = await getTunnelProfiles(getBalenaSdk());
+
+		if (options.json) {
+			console.log(JSON.stringify(profiles, null, 4));
+			return;
+		}
+		const rows = Object.entries(profiles).map(([name, profile]) => ({
+			name,
+			device: profile.device,
+			bind_address: profile.bindAddress,
+			ports: profile.ports.map(formatPortMapping).join(', '),
+		}));
+		console.log(
+			getVisuals().table.horizontal(rows, [
+				'name',
+				'device',
+				'bind_address',
+				'ports',
+			]),
+		);
+	}
+}
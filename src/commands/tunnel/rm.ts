@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Args } from '@oclif/core';
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class TunnelRmCmd extends Command {
+	public static description = stripIndent`
+		Remove a tunnel profile.
+
+		Remove a tunnel profile saved with 'balena tunnel save'.
+	`;
+
+	public static examples = ['$ balena tunnel rm db'];
+
+	public static args = {
+		profile: Args.string({
+			description: 'tunnel profile name',
+			required: true,
+		}),
+	};
+
+	public static usage = 'tunnel rm <profile>';
+
+	public static flags = {
+		help: cf.help,
+	};
+
+	public static offlineCompatible = true;
+
+	public async run() {
+		const { args: params } = await this.parse(TunnelRmCmd);
+
+		const { getTunnelProfile, saveTunnelProfile } = await import(
+			'../../utils/tunnel-profiles'
+		);
+		const sdk = getBalenaSdk();
+		// Throw an error if the profile does not exist
+		await getTunnelProfile(sdk, params.profile);
+		await saveTunnelProfile(sdk, params.profile);
+	}
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Flags, Args } from '@oclif/core';
+import Command from '../../command';
+import { NoPortsDefinedError } from '../../errors';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class TunnelSaveCmd extends Command {
+	public static description = stripIndent`
+		Save a tunnel profile.
+
+		Save a named set of port mappings to a device (a tunnel profile), which can be
+		started with 'balena tunnel up <profile>'. An existing profile with the same
+		name is replaced. Profiles are stored in the balena CLI data directory.
+
+		Port mappings are specified in the format: <remotePort>[:[localIP:]localPort]
+		localIP defaults to the --bind address, and localPort defaults to the
+		specified remotePort value.
+	`;
+
+	public static examples = [
+		'$ balena tunnel save db 2ead211 -p 5432',
+		'$ balena tunnel save dashboard 2ead211 -p 80:8080 -p 3000 --bind 0.0.0.0',
+	];
+
+	public static args = {
+		profile: Args.string({
+			description: 'tunnel profile name',
+			required: true,
+		}),
+		device: Args.string({
+			description: 'device UUID',
+			required: true,
+		}),
+	};
+
+	public static usage = 'tunnel save <profile> <device>';
+
+	public static flags = {
+		port: Flags.string({
+			description:
+				'port mapping in the format <remotePort>[:[localIP:]localPort]',
+			char: 'p',
+			multiple: true,
+		}),
+		bind: Flags.string({
+			description: 'local address of the port mappings that do not specify one',
+			default: 'localhost',
+		}),
+		help: cf.help,
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(TunnelSaveCmd);
+
+		if (options.port === undefined) {
+			throw new NoPortsDefinedError();
+		}
+		const { parsePortMapping } = await import('../../utils/tunnel');
+		const ports = options.port.map((mapping) =>
+			parsePortMapping(mapping, options.bind),
+		);
+
+		const sdk = getBalenaSdk();
+		const { uuid } = await sdk.models.device.get(params.device, {
+			$select: 'uuid',
+		});
+		const { saveTunnelProfile } = await import('../../utils/tunnel-profiles');
+		await saveTunnelProfile(sdk, params.profile, {
+			device: uuid,
+			ports,
+			bindAddress: options.bind,
+		});
+		console.log(`Tunnel profile "${params.profile}" saved`);
+	}
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Flags, Args } from '@oclif/core';
+import Command from '../../command';
+import * as cf from '../../utils/common-flags';
+import { getBalenaSdk, stripIndent } from '../../utils/lazy';
+
+export default class TunnelUpCmd extends Command {
+	public static description = stripIndent`
+		Start a saved tunnel profile.
+
+		Open the local ports of a tunnel profile saved with 'balena tunnel save', and
+		keep them open until interrupted (e.g. with Ctrl-C).
+
+		Connections are retried with exponential backoff while the device is offline
+		or the remote port is unreachable. The remote ports are checked to be
+		reachable every --check-interval seconds (and more often after a failed check),
+		and a status line shows the state of each port, connection counts and bytes
+		transferred.
+	`;
+
+	public static examples = [
+		'$ balena tunnel up db',
+		'$ balena tunnel up dashboard --check-interval 60 --retries 10',
+	];
+
+	public static args = {
+		profile: Args.string({
+			description: 'tunnel profile name',
+			required: true,
+		}),
+	};
+
+	public static usage = 'tunnel up <profile>';
+
+	public static flags = {
+		'check-interval': Flags.integer({
+			description: 'seconds between checks that the remote ports are reachable',
+			default: 30,
+			min: 1,
+		}),
+		retries: Flags.integer({
+			description:
+				'number of times to retry connecting to the device for each connection',
+			default: 5,
+			min: 0,
+		}),
+		help: cf.help,
+	};
+
+	public static authenticated = true;
+
+	public async run() {
+		const { args: params, flags: options } = await this.parse(TunnelUpCmd);
+
+		const logger = await Command.getLogger();
+		const sdk = getBalenaSdk();
+		const { getTunnelProfile, TunnelProfileRunner } = await import(
+			'../../utils/tunnel-profiles'
+		);
+		const profile = await getTunnelProfile(sdk, params.profile);
+
+		const { getDevicePortOpener } = await import('../../utils/tunnel');
+		const openDevicePort = await getDevicePortOpener(profile.device, sdk);
+
+		const isTTY = process.stdout.isTTY === true;
+		const printStatus = () => {
+			const line = `[${new Date().toLocaleTimeString()}] ${runner.getStatusLine()}`;
+			if (isTTY) {
+				process.stdout.write(`\r\x1b[K${line}`);
+			} else {
+				console.log(line);
+			}
+		};
+		const runner = new TunnelProfileRunner(profile, openDevicePort, {
+			healthCheckInterval: options['check-interval'] * 1000,
+			maxRetries: options.retries,
+			onChange: isTTY ? printStatus : undefined,
+		});
+
+		logger.logInfo(
+			`Starting tunnel profile "${params.profile}" to ${profile.device}...`,
+		);
+		for (const { localAddress, localPort, remotePort } of profile.ports) {
+			logger.logInfo(
+				` - tunnelling ${localAddress}:${localPort} to ${profile.device}:${remotePort}`,
+			);
+		}
+		await runner.start();
+		// In a terminal, the status line is redrawn in place every second
+		setInterval(printStatus, isTTY ? 1000 : options['check-interval'] * 1000);
+	}
+}
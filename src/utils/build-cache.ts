@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { BalenaSDK } from 'balena-sdk';
+import type { Composition } from '@balena/compose/dist/parse';
+import type * as Dockerode from 'dockerode';
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import type { BuildOpts } from './docker';
+
+/** Build cache entry for a service, recorded after a successful deploy */
+export interface BuildCacheEntry {
+	contextHash: string;
+	imageName: string;
+	imageId: string;
+}
+
+/** Build cache entries keyed by fleet ID, then by service name */
+type BuildCache = Dictionary<Dictionary<BuildCacheEntry>>;
+
+export interface ContextHashOptions {
+	composition: Composition;
+	arch: string;
+	deviceType: string;
+	buildOpts: BuildOpts;
+	convertEol?: boolean;
+	dockerfilePath?: string;
+	multiDockerignore?: boolean;
+}
+
+const BUILD_CACHE_FILENAME = 'build-cache.json';
+
+/**
+ * Compute a hash of the build context of each service of the composition
+ * that has a 'build' property (external images are not hashed). The file
+ * list is the same as the one used by tarDirectory() to create the tar
+ * stream sent to the Docker daemon, i.e. after applying '.dockerignore'
+ * rules. Files in the project's '.balena' directory (build secrets and
+ * build variables) are included in the hash of every service, along with
+ * the service's build configuration and the target architecture and device
+ * type, so that any change that may affect the built image changes the hash.
+ * @param projectPath Project directory (the '--source' command line option)
+ * @returns Hex-encoded sha256 hashes keyed by service name
+ */
+export async function computeServiceContextHashes(
+	projectPath: string,
+	opts: ContextHashOptions,
+): Promise<Dictionary<string>> {
+	const { createHash } = await import('crypto');
+	const { filterFilesWithDockerignore } = await import('./ignore');
+	const { getServiceDirsFromComposition } = await import('./compose_ts');
+	const { toPosixPath } = (await import('@balena/compose/dist/multibuild'))
+		.PathUtils;
+
+	const serviceDirs = await getServiceDirsFromComposition(
+		projectPath,
+		opts.composition,
+	);
+	const { filteredFileList } = await filterFilesWithDockerignore(
+		projectPath,
+		opts.multiDockerignore ?? false,
+		serviceDirs,
+	);
+	const files = _.sortBy(
+		filteredFileList.map((f) => ({ ...f, relPath: toPosixPath(f.relPath) })),
+		'relPath',
+	);
+
+	// Hash each file once, even if it belongs to more than one build context
+	const fileHashes = new Map<string, string>();
+	const getFileHash = async (filePath: string) => {
+		let hash = fileHashes.get(filePath);
+		if (hash == null) {
+			hash = createHash('sha256')
+				.update(await fs.readFile(filePath))
+				.digest('hex');
+			fileHashes.set(filePath, hash);
+		}
+		return hash;
+	};
+
+	const hashes: Dictionary<string> = {};
+	for (const [serviceName, service] of Object.entries(
+		opts.composition.services ?? {},
+	)) {
+		if (service.build == null) {
+			continue;
+		}
+		const dir = toPosixPath(serviceDirs[serviceName] ?? '.');
+		const hash = createHash('sha256').update(
+			JSON.stringify({
+				build: service.build,
+				arch: opts.arch,
+				deviceType: opts.deviceType,
+				buildOpts: _.omit(opts.buildOpts, 'registryconfig'),
+				convertEol: !!opts.convertEol,
+				dockerfilePath: opts.dockerfilePath,
+			}),
+		);
+		for (const file of files) {
+			if (
+				dir === '.' ||
+				file.relPath.startsWith(`${dir}/`) ||
+				file.relPath.startsWith('.balena/')
+			) {
+				hash.update(
+					`\0${file.relPath}\0${file.stats.mode}\0${await getFileHash(
+						file.filePath,
+					)}`,
+				);
+			}
+		}
+		hashes[serviceName] = hash.digest('hex');
+	}
+	return hashes;
+}
+
+async function getBuildCachePath(sdk: BalenaSDK): Promise<string> {
+	const dataDirectory = await sdk.settings.get('dataDirectory');
+	return path.join(dataDirectory, BUILD_CACHE_FILENAME);
+}
+
+async function readBuildCache(cachePath: string): Promise<BuildCache> {
+	try {
+		return JSON.parse(await fs.readFile(cachePath, 'utf8'));
+	} catch {
+		// a missing or corrupt cache file is equivalent to an empty cache
+		return {};
+	}
+}
+
+/**
+ * Return the names of the services whose build context hash matches the
+ * one recorded by the previous deploy to the given fleet, provided that the
+ * image built by that deploy still exists locally under the same name.
+ */
+export async function getUnchangedServices(
+	sdk: BalenaSDK,
+	docker: Dockerode,
+	appId: number,
+	contextHashes: Dictionary<string>,
+): Promise<string[]> {
+	const cache = await readBuildCache(await getBuildCachePath(sdk));
+	const entries = cache[appId] ?? {};
+	const unchanged: string[] = [];
+	for (const [serviceName, contextHash] of Object.entries(contextHashes)) {
+		const entry = entries[serviceName];
+		if (entry?.contextHash !== contextHash) {
+			continue;
+		}
+		try {
+			const { Id } = await docker.getImage(entry.imageName).inspect();
+			if (Id === entry.imageId) {
+				unchanged.push(serviceName);
+			}
+		} catch {
+			// the image was removed: rebuild it
+		}
+	}
+	return unchanged;
+}
+
+/**
+ * Record the build context hashes and the IDs of the images deployed to
+ * the given fleet, so that a later deploy can skip unchanged services.
+ * Entries for services that are no longer part of the project are dropped.
+ */
+export async function updateBuildCache(
+	sdk: BalenaSDK,
+	docker: Dockerode,
+	appId: number,
+	contextHashes: Dictionary<string>,
+	images: Array<{ serviceName: string; name: string }>,
+): Promise<void> {
+	const cachePath = await getBuildCachePath(sdk);
+	const cache = await readBuildCache(cachePath);
+	const entries: Dictionary<BuildCacheEntry> = {};
+	for (const { serviceName, name } of images) {
+		const contextHash = contextHashes[serviceName];
+		if (contextHash == null) {
+			continue;
+		}
+		const { Id } = await docker.getImage(name).inspect();
+		entries[serviceName] = { contextHash, imageName: name, imageId: Id };
+	}
+	cache[appId] = entries;
+	await fs.mkdir(path.dirname(cachePath), { recursive: true });
+	await fs.writeFile(cachePath, JSON.stringify(cache, null, 2));
+}
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+	BalenaSDK,
+	PineOptions,
+	PineTypedResult,
+	Release,
+} from 'balena-sdk';
+import { promises as fs } from 'fs';
+
+import type { BuiltImage } from './compose-types';
+import Logger = require('./logger');
+
+export interface ServiceReport {
+	serviceName: string;
+	/** Name of the locally built image (balena deploy only) */
+	image?: string;
+	size?: number;
+	digest?: string;
+	status?: string;
+	buildDurationSeconds?: number;
+}
+
+export interface BuildReportData {
+	command: 'deploy' | 'push';
+	fleet: string;
+	status: 'success' | 'failed';
+	startedAt: string;
+	finishedAt: string;
+	durationSeconds: number;
+	release?: {
+		id: number;
+		commit: string;
+		status: Release['status'];
+		isFinal: boolean;
+	};
+	services: ServiceReport[];
+	warnings: string[];
+	/** Metadata messages received from the balenaCloud builder (push only) */
+	builder?: Dictionary<string>;
+	error?: string;
+}
+
+const releaseOpts = {
+	$select: ['id', 'commit', 'status', 'is_final'],
+	$expand: {
+		release_image: {
+			$select: 'id',
+			$expand: {
+				image: {
+					$select: [
+						'content_hash',
+						'image_size',
+						'status',
+						'start_timestamp',
+						'end_timestamp',
+					],
+					$expand: {
+						is_a_build_of__service: { $select: 'service_name' },
+					},
+				},
+			},
+		},
+	},
+} satisfies PineOptions<Release>;
+
+type ReportRelease = PineTypedResult<Release, typeof releaseOpts>;
+
+// eslint-disable-next-line no-control-regex
+const ANSI_REGEX = /\u001b\[[0-9;]*m/g;
+const WARN_PREFIX_REGEX = /^\[Warn\]\s*/;
+
+/**
+ * Collects information about a `balena deploy` or `balena push` invocation
+ * (release, service images, warnings logged while running) and writes it to
+ * a JSON file for consumption by CI scripts (the --report option).
+ */
+export class BuildReport {
+	public builder?: Dictionary<string>;
+	/** ID of the release created by the build, set as soon as it is created */
+	public releaseId?: number;
+
+	private readonly startedAt = new Date();
+	private readonly warnings: string[] = [];
+	private readonly images: BuiltImage[] = [];
+	private readonly logger = Logger.getLogger();
+
+	constructor(
+		private readonly command: BuildReportData['command'],
+		private readonly fleet: string,
+	) {
+		this.onWarning = this.onWarning.bind(this);
+		this.logger.streams.warn.on('data', this.onWarning);
+	}
+
+	/** Record images built locally, to report their names and sizes */
+	public addBuiltImages(images: BuiltImage[]) {
+		this.images.push(...images);
+	}
+
+	/**
+	 * Fetch the release (if any) from the API and write the report to the
+	 * given file. Failing to write the report is logged as a warning rather
+	 * than thrown, so as not to hide the error of a failed build or deploy.
+	 * @param error Error that caused the build or deploy to fail, if any
+	 */
+	public async write(sdk: BalenaSDK, filePath: string, error?: Error) {
+		this.logger.streams.warn.removeListener('data', this.onWarning);
+		const { releaseId } = this;
+
+		let release: ReportRelease | undefined;
+		if (releaseId != null) {
+			try {
+				release = (await sdk.models.release.get(
+					releaseId,
+					releaseOpts,
+				)) as ReportRelease;
+			} catch (err) {
+				this.logger.logDebug(`Failed to fetch release ${releaseId}: ${err}`);
+			}
+		}
+
+		const finishedAt = new Date();
+		const data: BuildReportData = {
+			command: this.command,
+			fleet: this.fleet,
+			status:
+				error == null && (release == null || release.status === 'success')
+					? 'success'
+					: 'failed',
+			startedAt: this.startedAt.toISOString(),
+			finishedAt: finishedAt.toISOString(),
+			durationSeconds: (finishedAt.getTime() - this.startedAt.getTime()) / 1000,
+			...(release != null && {
+				release: {
+					id: release.id,
+					commit: release.commit,
+					status: release.status,
+					isFinal: release.is_final,
+				},
+			}),
+			services: this.getServiceReports(release),
+			warnings: this.warnings,
+			...(this.builder != null && { builder: this.builder }),
+			...(error != null && { error: error.message }),
+		};
+		try {
+			await fs.writeFile(filePath, JSON.stringify(data, null, 4) + '\n');
+		} catch (err) {
+			this.logger.logWarn(
+				`Failed to write the build report to "${filePath}": ${err.message}`,
+			);
+			return;
+		}
+		this.logger.logInfo(`Build report written to "${filePath}"`);
+	}
+
+	private onWarning(line: string) {
+		this.warnings.push(
+			line.replace(ANSI_REGEX, '').replace(WARN_PREFIX_REGEX, '').trimEnd(),
+		);
+	}
+
+	private getServiceReports(release?: ReportRelease): ServiceReport[] {
+		const byService: Dictionary<ServiceReport> = {};
+		for (const image of this.images) {
+			byService[image.serviceName] = {
+				serviceName: image.serviceName,
+				image: image.name,
+				size: image.props.size,
+				buildDurationSeconds: getDurationSeconds(
+					image.props.startTime,
+					image.props.endTime,
+				),
+			};
+		}
+		for (const { image } of release?.release_image ?? []) {
+			const { content_hash, image_size, status } = image[0];
+			const serviceName =
+				image[0].is_a_build_of__service[0]?.service_name ?? '';
+			byService[serviceName] = {
+				...byService[serviceName],
+				serviceName,
+				size: image_size ?? byService[serviceName]?.size,
+				digest: content_hash ?? undefined,
+				status,
+				buildDurationSeconds:
+					getDurationSeconds(
+						image[0].start_timestamp,
+						image[0].end_timestamp,
+					) ?? byService[serviceName]?.buildDurationSeconds,
+			};
+		}
+		return Object.values(byService);
+	}
+}
+
+function getDurationSeconds(
+	start?: Date | string | null,
+	end?: Date | string | null,
+): number | undefined {
+	if (start == null || end == null) {
+		return;
+	}
+	return (new Date(end).getTime() - new Date(start).getTime()) / 1000;
+}
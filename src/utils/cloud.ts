@@ -107,6 +107,94 @@ export const getDeviceAndMaybeAppFromUUID = _.memoize(
 	(_sdk, deviceUUID) => deviceUUID,
 );
 
+export interface DeviceSelector {
+	fleet?: string; // fleet slug
+	uuids?: string[]; // short or full device UUIDs
+	tags?: string[]; // 'key=value' or 'key'
+	online?: boolean;
+	osVersion?: string; // semver range
+}
+
+const selectDevicesPineOptions = {
+	$select: ['id', 'uuid', 'device_name', 'is_online', 'os_version'],
+	$expand: {
+		device_tag: { $select: ['tag_key', 'value'] },
+	},
+} satisfies SDK.PineOptions<SDK.Device>;
+
+export type SelectedDevice = SDK.PineTypedResult<
+	SDK.Device,
+	typeof selectDevicesPineOptions
+>;
+
+/**
+ * Return true if any of the device filters (tags, online status or OS
+ * version) are set in the given selector.
+ */
+export function hasDeviceFilters(selector: DeviceSelector): boolean {
+	return !!(selector.tags?.length || selector.online || selector.osVersion);
+}
+
+/**
+ * Parse a tag selector like 'key=value' or 'key' (any value).
+ */
+export function parseTagSelector(tag: string): { key: string; value?: string } {
+	const i = tag.indexOf('=');
+	const key = i < 0 ? tag : tag.substring(0, i);
+	if (!key) {
+		throw new ExpectedError(`Invalid device tag selector: "${tag}"`);
+	}
+	return i < 0 ? { key } : { key, value: tag.substring(i + 1) };
+}
+
+/**
+ * Return the devices of the selector's fleet, or the devices with the
+ * selector's UUIDs, that match all of the selector's filters.
+ */
+export async function selectDevices(
+	sdk: SDK.BalenaSDK,
+	selector: DeviceSelector,
+): Promise<SelectedDevice[]> {
+	const tags = (selector.tags ?? []).map(parseTagSelector);
+	let devices: SelectedDevice[];
+	if (selector.fleet) {
+		devices = (await sdk.models.device.getAllByApplication(selector.fleet, {
+			...selectDevicesPineOptions,
+			...(selector.online && { $filter: { is_online: true } }),
+			$orderby: { device_name: 'asc' },
+		})) as SelectedDevice[];
+	} else if (selector.uuids?.length) {
+		devices = [];
+		for (const uuid of _.uniq(selector.uuids)) {
+			devices.push(
+				(await sdk.models.device.get(
+					uuid,
+					selectDevicesPineOptions,
+				)) as SelectedDevice,
+			);
+		}
+	} else {
+		throw new ExpectedError('Either a fleet or device UUIDs must be provided');
+	}
+
+	let satisfies: ((version: string, range: string) => boolean) | undefined;
+	if (selector.osVersion) {
+		satisfies = (await import('balena-semver')).satisfies;
+	}
+	return devices.filter(
+		(device) =>
+			(!selector.online || device.is_online) &&
+			(!satisfies ||
+				(device.os_version != null &&
+					satisfies(device.os_version, selector.osVersion!))) &&
+			tags.every(({ key, value }) =>
+				device.device_tag.some(
+					(t) => t.tag_key === key && (value == null || t.value === value),
+				),
+			),
+	);
+}
+
 /**
  * Download balenaOS image for the specified `deviceType`.
  * `OSVersion` may be one of:
@@ -104,3 +104,35 @@ export const json = Flags.boolean({
 	description: 'produce JSON output instead of tabular output',
 	default: false,
 });
+
+export const deviceTag = Flags.string({
+	description: stripIndent`
+		select devices by tag, in the form 'key=value' (or 'key' to match any value).
+		Can be repeated, in which case devices must match all the given tags.`,
+	multiple: true,
+	multipleNonGreedy: true,
+});
+
+export const online = Flags.boolean({
+	description: 'select online devices only',
+	default: false,
+});
+
+export const osVersion = Flags.string({
+	description: `select devices whose OS version satisfies a semver range, e.g. '>=5'`,
+});
+
+export const report = Flags.string({
+	description: stripIndent`
+		write a JSON report of the build to the given file: release ID and commit,
+		service image sizes and digests, build durations, warnings and status`,
+});
+
+export const subnet = Flags.string({
+	description: stripIndent`
+		also scan an IPv4 subnet for devices, e.g. '10.0.0.0/24', by probing the
+		supervisor (48484), SSH (22222) and balenaEngine (2375) ports of each address,
+		for networks where mDNS (multicast) is blocked. Can be repeated.`,
+	multiple: true,
+	multipleNonGreedy: true,
+});
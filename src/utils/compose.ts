@@ -534,10 +534,12 @@ export class BuildProgressInline implements Renderer {
 	private _services;
 	private _startTime: number | undefined;
 	private _ended;
+	private _logPrefix;
 
 	constructor(
 		outStream: NodeJS.ReadWriteStream,
 		descriptors: Array<{ serviceName: string }>,
+		logPrefix?: string,
 	) {
 		this.start = this.start.bind(this);
 		this.end = this.end.bind(this);
@@ -560,7 +562,11 @@ export class BuildProgressInline implements Renderer {
 			.value();
 
 		const offset = 10; // account for escape sequences inserted for colouring
-		this._prefixWidth = offset + _.max(_.map(services, (s) => s.length))!;
+		this._logPrefix = logPrefix ? `${logPrefix} ` : '';
+		this._prefixWidth =
+			offset +
+			this._logPrefix.length +
+			_.max(_.map(services, (s) => s.length))!;
 		this._outStream = outStream;
 		this._services = services;
 		this._ended = false;
@@ -622,7 +628,10 @@ export class BuildProgressInline implements Renderer {
 			}
 		})();
 
-		const prefix = _.padEnd(getChalk().bold(service), this._prefixWidth);
+		const prefix = _.padEnd(
+			getChalk().bold(this._logPrefix + service),
+			this._prefixWidth,
+		);
 		this._outStream.write(prefix);
 		this._outStream.write(str);
 		this._outStream.write('\n');
@@ -253,6 +253,8 @@ export interface BuildProjectOpts {
 	convertEol: boolean;
 	dockerfilePath?: string;
 	multiDockerignore: boolean;
+	/** Label prefixed to inline build logs, e.g. when building concurrently */
+	logPrefix?: string;
 }
 
 export async function buildProject(
@@ -286,9 +288,13 @@ async function $buildProject(
 	const { logger, projectName } = opts;
 	logger.logInfo(`Building for ${opts.arch}/${opts.deviceType}`);
 
-	const needsQemu = await installQemuIfNeeded({ ...opts, imageDescriptors });
-
-	const tarStream = await tarDirectory(opts.projectPath, opts);
+	const [needsQemu, tarStream] = await withBuildContextLock(async () => {
+		const $needsQemu = await installQemuIfNeeded({
+			...opts,
+			imageDescriptors,
+		});
+		return [$needsQemu, await tarDirectory(opts.projectPath, opts)] as const;
+	});
 
 	const tasks: BuildTaskPlus[] = await makeBuildTasks(
 		opts.composition,
@@ -346,20 +352,37 @@ async function $buildProject(
 	});
 }
 
+let buildContextLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run the given function after any previous invocations have completed.
+ * Used to prevent concurrent builds of the same project for different
+ * architectures from interleaving the copy of the (architecture specific)
+ * qemu binary to the build contexts with the creation of the tar stream.
+ */
+async function withBuildContextLock<T>(fn: () => Promise<T>): Promise<T> {
+	const result = buildContextLock.then(fn);
+	buildContextLock = result.catch(() => undefined);
+	return await result;
+}
+
 async function startRenderer({
 	imageDescriptors,
 	inlineLogs,
 	logger,
+	logPrefix,
 }: {
 	imageDescriptors: ImageDescriptor[];
 	inlineLogs?: boolean;
 	logger: Logger;
+	logPrefix?: string;
 }): Promise<Renderer> {
 	let renderer: Renderer;
 	if (inlineLogs) {
 		renderer = new (await import('./compose')).BuildProgressInline(
 			logger.streams['build'],
 			imageDescriptors,
+			logPrefix,
 		);
 	} else {
 		const tty = (await import('./tty'))(process.stdout);
@@ -1348,6 +1371,69 @@ async function pushServiceImages(
 	);
 }
 
+/**
+ * Pull the images of an existing release from the registry, by location and
+ * content hash (digest), requesting a registry token for their repos.
+ * @returns The local names of the pulled images, in the same order
+ */
+export async function pullServiceImages(
+	docker: Dockerode,
+	sdk: BalenaSDK,
+	logger: Logger,
+	images: Array<{ location: string; contentHash: string }>,
+): Promise<string[]> {
+	const { DockerProgress } = await import('docker-progress');
+	const { getRegistryAndName } = await import(
+		'@balena/compose/dist/multibuild'
+	);
+	const { authorizePush, pushProgressRenderer } = await import('./compose');
+	const tty = (await import('./tty'))(process.stdout);
+
+	if (images.length === 0) {
+		return [];
+	}
+	const repos = images.map(({ location }) => getRegistryAndName(location));
+	logger.logDebug('Authorizing pull...');
+	const token = await authorizePush(
+		sdk,
+		await sdk.settings.get('apiUrl'),
+		repos[0].registry,
+		_.map(repos, 'imageName'),
+		[],
+	);
+
+	logger.logInfo('Pulling images from registry...');
+	const opts = { authconfig: { registrytoken: token } };
+	const progress = new DockerProgress({ docker });
+	const renderer = pushProgressRenderer(
+		tty,
+		getChalk().blue('[Pull]') + '    ',
+	);
+	const reporters = progress.aggregateProgress(images.length, renderer);
+
+	tty.hideCursor();
+	try {
+		// Wait for all the pulls to end before failing, so that callers can
+		// remove the pulled images
+		const results = await Promise.allSettled(
+			images.map(async ({ location, contentHash }, index) => {
+				const name = `${location}@${contentHash}`;
+				await progress.pull(name, reporters[index], opts);
+				return name;
+			}),
+		);
+		return results.map((result) => {
+			if (result.status === 'rejected') {
+				throw result.reason;
+			}
+			return result.value;
+		});
+	} finally {
+		renderer.end();
+		tty.showCursor();
+	}
+}
+
 export async function deployProject(
 	docker: Dockerode,
 	sdk: BalenaSDK,
@@ -1358,14 +1444,8 @@ export async function deployProject(
 	skipLogUpload: boolean,
 	projectPath: string,
 	isDraft: boolean,
+	onReleaseCreated?: (releaseId: number) => void,
 ): Promise<import('@balena/compose/dist/release/models').ReleaseModel> {
-	const releaseMod = await import('@balena/compose/dist/release');
-	const { createRelease, tagServiceImages } = await import('./compose');
-	const tty = (await import('./tty'))(process.stdout);
-
-	const prefix = getChalk().cyan('[Info]') + '    ';
-	const spinner = createSpinner();
-
 	const contractPath = path.join(projectPath, 'balena.yml');
 	const contract = await getContractContent(contractPath);
 	if (contract?.version && !semver.valid(contract.version)) {
@@ -1373,6 +1453,48 @@ export async function deployProject(
 			Error: the version field in "${contractPath}"
 			is not a valid semver`);
 	}
+	return await deployImages(
+		docker,
+		sdk,
+		logger,
+		composition,
+		images,
+		appId,
+		skipLogUpload,
+		isDraft,
+		contract?.version,
+		contract ? JSON.stringify(contract) : undefined,
+		onReleaseCreated,
+	);
+}
+
+/**
+ * Create a release for the given composition and push the given local
+ * images to the registry as the release's service images. This is the part
+ * of deployProject() that does not depend on a project directory, also used
+ * to copy a release to another fleet (balena release promote).
+ * @param onReleaseCreated Called with the release ID once it is created,
+ * before the images are pushed
+ */
+export async function deployImages(
+	docker: Dockerode,
+	sdk: BalenaSDK,
+	logger: Logger,
+	composition: Composition,
+	images: BuiltImage[],
+	appId: number,
+	skipLogUpload: boolean,
+	isDraft: boolean,
+	version: string | undefined,
+	contract: string | undefined,
+	onReleaseCreated?: (releaseId: number) => void,
+): Promise<import('@balena/compose/dist/release/models').ReleaseModel> {
+	const releaseMod = await import('@balena/compose/dist/release');
+	const { createRelease, tagServiceImages } = await import('./compose');
+	const tty = (await import('./tty'))(process.stdout);
+
+	const prefix = getChalk().cyan('[Info]') + '    ';
+	const spinner = createSpinner();
 	const apiEndpoint = await sdk.settings.get('apiUrl');
 
 	const $release = await runSpinner(
@@ -1386,11 +1508,12 @@ export async function deployProject(
 				appId,
 				composition,
 				isDraft,
-				contract?.version,
-				contract ? JSON.stringify(contract) : undefined,
+				version,
+				contract,
 			),
 	);
 	const { client: pineClient, release, serviceImages } = $release;
+	onReleaseCreated?.(release.id);
 
 	try {
 		logger.logDebug('Tagging images...');
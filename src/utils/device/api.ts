@@ -15,6 +15,7 @@
  * limitations under the License.
  */
 import * as _ from 'lodash';
+import { isIPv6 } from 'net';
 import * as request from 'request';
 import type * as Stream from 'stream';
 
@@ -57,6 +58,15 @@ export interface Status {
 	}>;
 }
 
+/** The device details returned by the v1 supervisor API */
+export interface DeviceDetails {
+	os_version: string | null;
+	supervisor_version: string;
+	ip_address: string;
+	status: string;
+	[key: string]: any;
+}
+
 const deviceEndpoints = {
 	setTargetState: 'v2/local/target-state',
 	getTargetState: 'v2/local/target-state',
@@ -66,8 +76,16 @@ const deviceEndpoints = {
 	version: 'v2/version',
 	status: 'v2/state/status',
 	containerId: 'v2/containerId',
+	device: 'v1/device',
 };
 
+export interface DeviceAPIRequestOptions {
+	/** Request timeout in milliseconds */
+	timeout?: number;
+	/** Number of attempts of each request (default 6) */
+	maxAttempts?: number;
+}
+
 export class DeviceAPI {
 	private deviceAddress: string;
 
@@ -75,35 +93,32 @@ export class DeviceAPI {
 		private logger: Logger,
 		addr: string,
 		port: number = 48484,
+		private requestOptions: DeviceAPIRequestOptions = {},
 	) {
-		this.deviceAddress = `http://${addr}:${port}/`;
+		// IPv6 addresses are enclosed in brackets, with an escaped zone index
+		const host = isIPv6(addr) ? `[${addr.replace('%', '%25')}]` : addr;
+		this.deviceAddress = `http://${host}:${port}/`;
 	}
 
 	// Either return nothing, or throw an error with the info
 	public async setTargetState(state: any): Promise<void> {
 		const url = this.getUrlForAction('setTargetState');
-		return DeviceAPI.promisifiedRequest(
-			{
-				method: 'POST',
-				url,
-				json: true,
-				body: state,
-			},
-			this.logger,
-		);
+		return this.request({
+			method: 'POST',
+			url,
+			json: true,
+			body: state,
+		});
 	}
 
 	public async getTargetState(): Promise<any> {
 		const url = this.getUrlForAction('getTargetState');
 
-		return DeviceAPI.promisifiedRequest(
-			{
-				method: 'GET',
-				url,
-				json: true,
-			},
-			this.logger,
-		).then((body) => {
+		return this.request({
+			method: 'GET',
+			url,
+			json: true,
+		}).then((body) => {
 			return body.state;
 		});
 	}
@@ -111,14 +126,11 @@ export class DeviceAPI {
 	public async getDeviceInformation(): Promise<DeviceInfo> {
 		const url = this.getUrlForAction('getDeviceInformation');
 
-		return DeviceAPI.promisifiedRequest(
-			{
-				method: 'GET',
-				url,
-				json: true,
-			},
-			this.logger,
-		).then((body) => {
+		return this.request({
+			method: 'GET',
+			url,
+			json: true,
+		}).then((body) => {
 			return body.info;
 		});
 	}
@@ -126,17 +138,14 @@ export class DeviceAPI {
 	public async getContainerId(serviceName: string): Promise<string> {
 		const url = this.getUrlForAction('containerId');
 
-		const body = await DeviceAPI.promisifiedRequest(
-			{
-				method: 'GET',
-				url,
-				json: true,
-				qs: {
-					serviceName,
-				},
+		const body = await this.request({
+			method: 'GET',
+			url,
+			json: true,
+			qs: {
+				serviceName,
 			},
-			this.logger,
-		);
+		});
 
 		if (body.status !== 'success') {
 			throw new ApiErrors.DeviceAPIError(
@@ -149,19 +158,16 @@ export class DeviceAPI {
 	public async ping(): Promise<void> {
 		const url = this.getUrlForAction('ping');
 
-		return DeviceAPI.promisifiedRequest(
-			{
-				method: 'GET',
-				url,
-			},
-			this.logger,
-		);
+		return this.request({
+			method: 'GET',
+			url,
+		});
 	}
 
 	public getVersion(): Promise<string> {
 		const url = this.getUrlForAction('version');
 
-		return DeviceAPI.promisifiedRequest({
+		return this.request({
 			method: 'GET',
 			url,
 			json: true,
@@ -179,7 +185,7 @@ export class DeviceAPI {
 	public getStatus(): Promise<Status> {
 		const url = this.getUrlForAction('status');
 
-		return DeviceAPI.promisifiedRequest({
+		return this.request({
 			method: 'GET',
 			url,
 			json: true,
@@ -194,6 +200,17 @@ export class DeviceAPI {
 		});
 	}
 
+	/** Device details, including the OS and supervisor versions */
+	public async getDeviceDetails(): Promise<DeviceDetails> {
+		const url = this.getUrlForAction('device');
+
+		return this.request({
+			method: 'GET',
+			url,
+			json: true,
+		});
+	}
+
 	public getLogStream(): Promise<Stream.Readable> {
 		const url = this.getUrlForAction('logs');
 
@@ -224,11 +241,19 @@ export class DeviceAPI {
 		return `${this.deviceAddress}${deviceEndpoints[action]}`;
 	}
 
+	private request(opts: request.OptionsWithUrl): Promise<any> {
+		return DeviceAPI.promisifiedRequest(
+			{ timeout: this.requestOptions.timeout, ...opts },
+			this.logger,
+			this.requestOptions.maxAttempts,
+		);
+	}
+
 	// A helper method for promisifying general (non-streaming) requests. Streaming
 	// requests should use a seperate setup
 	private static async promisifiedRequest<
 		T extends Parameters<typeof request>[0],
-	>(opts: T, logger?: Logger): Promise<any> {
+	>(opts: T, logger?: Logger, maxAttempts = 6): Promise<any> {
 		interface ObjectWithUrl {
 			url?: string;
 		}
@@ -275,7 +300,7 @@ export class DeviceAPI {
 		return await retry({
 			func: doRequest,
 			initialDelayMs: 2000,
-			maxAttempts: 6,
+			maxAttempts,
 			label: `Supervisor API (${opts.method} ${(opts as any).url})`,
 		});
 	}
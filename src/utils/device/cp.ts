@@ -0,0 +1,405 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import type { Headers, Pack } from 'tar-stream';
+
+import { ExpectedError } from '../../errors';
+import { getVisuals } from '../lazy';
+import type { SshRemoteCommandOpts } from '../ssh';
+import { validateLocalHostnameOrIp, validateUuid } from '../validation';
+
+/** A path on a device's host OS or service container, e.g. 'f49cefd:main:/data' */
+export interface DevicePath {
+	/** Device UUID, or IP or .local address */
+	device: string;
+	service?: string;
+	/** Absolute path */
+	path: string;
+}
+
+/** Runs shell commands on a device's host OS or service container */
+export type DeviceShell = (
+	command: string,
+	io?: { stdin?: Readable; stdout?: NodeJS.WritableStream },
+) => Promise<void>;
+
+/** A file, directory or symbolic link to copy to a device */
+interface LocalEntry {
+	fsPath: string;
+	/** Path in the tar stream */
+	name: string;
+	stats: fs.Stats;
+}
+
+/** The permission bits of a file mode (without the file type bits) */
+const getPermissions = (mode: number) => mode % 0o10000;
+
+const shellQuote = (arg: string): string =>
+	(require('shell-escape') as typeof import('shell-escape'))([arg]);
+
+/**
+ * Parse a `<device>[:service]:<path>` argument, returning undefined if the
+ * argument is not a device path (e.g. a local path).
+ */
+export function parseDevicePath(arg: string): DevicePath | undefined {
+	const match = /^([^:/\\]+)(?::([^:/\\]+))?:(\/.*)$/.exec(arg);
+	if (match == null) {
+		return;
+	}
+	const [, device, service, devicePath] = match;
+	if (!validateUuid(device) && !validateLocalHostnameOrIp(device)) {
+		return;
+	}
+	return { device, service, path: path.posix.normalize(devicePath) };
+}
+
+/**
+ * Create a function that runs shell commands on the host OS of a device, or
+ * in a service container, over ssh.
+ * @param opts.cloud The balenaCloud ssh gateway, if the device is a UUID
+ */
+export async function getDeviceShell(
+	location: DevicePath,
+	opts: {
+		port?: number;
+		verbose?: boolean;
+		cloud?: Pick<
+			SshRemoteCommandOpts,
+			'hostname' | 'username' | 'proxyCommand'
+		>;
+	},
+): Promise<DeviceShell> {
+	const { findBestUsernameForDevice, runRemoteCommand } = await import(
+		'../ssh'
+	);
+	const { deviceContainerEngineBinary, getContainerIdForService } =
+		await import('./ssh');
+	const deviceUuid = opts.cloud != null ? location.device : undefined;
+	let sshOpts: SshRemoteCommandOpts;
+	if (opts.cloud != null) {
+		sshOpts = { ...opts.cloud, port: opts.port ?? 'cloud' };
+	} else {
+		const port = opts.port ?? 'local';
+		sshOpts = {
+			hostname: location.device,
+			port,
+			username: await findBestUsernameForDevice(location.device, port),
+		};
+	}
+	const containerId =
+		location.service != null
+			? await getContainerIdForService({
+					...sshOpts,
+					deviceUuid,
+					service: location.service,
+				})
+			: undefined;
+
+	return async (command, io = {}) => {
+		let cmd = command;
+		if (containerId != null) {
+			cmd = `"${deviceContainerEngineBinary}" exec -i ${containerId} /bin/sh -c ${shellQuote(cmd)}`;
+		}
+		if (deviceUuid != null) {
+			cmd = `host ${deviceUuid} ${cmd}`;
+		}
+		await runRemoteCommand({
+			...sshOpts,
+			cmd,
+			stdin: io.stdin ?? 'ignore',
+			stdout: io.stdout ?? 'inherit',
+			stderr: 'inherit',
+			verbose: opts.verbose,
+		});
+	};
+}
+
+async function getShellOutput(shell: DeviceShell, command: string) {
+	const { LineCollector } = await import('./ssh-fanout');
+	const output = new LineCollector();
+	await shell(command, { stdout: output });
+	return output.text.trim();
+}
+
+function createProgressStream(message: string, length: number) {
+	const progressStream =
+		require('progress-stream') as typeof import('progress-stream');
+	const progressBar = new (getVisuals().Progress)(message);
+	progressBar.update({ percentage: 0 });
+	return progressStream({ time: 500, length }, ({ percentage, eta }) =>
+		progressBar.update({ percentage: Math.min(percentage, 100), eta }),
+	);
+}
+
+/**
+ * Map the path of a tar entry (starting with `rootName`) to a local path,
+ * where `rootName` is replaced with `localRoot`. Returns undefined for
+ * paths outside of `rootName` (e.g. '../etc/passwd').
+ */
+export function getLocalEntryPath(
+	entryName: string,
+	rootName: string,
+	localRoot: string,
+): string | undefined {
+	const name = path.posix.normalize(entryName).replace(/\/+$/, '');
+	if (name === rootName) {
+		return localRoot;
+	}
+	if (!name.startsWith(`${rootName}/`)) {
+		return;
+	}
+	return path.join(localRoot, ...name.slice(rootName.length + 1).split('/'));
+}
+
+/**
+ * Extract a tar stream whose entries start with `rootName` to `localRoot`,
+ * preserving file permissions and modification times. Entries under a
+ * symbolic link extracted earlier are rejected, as the link may point
+ * outside of `localRoot` (e.g. 'root/link -> /etc' then 'root/link/passwd').
+ */
+export function createLocalExtractor(rootName: string, localRoot: string) {
+	const tar = require('tar-stream') as typeof import('tar-stream');
+	const extract = tar.extract();
+	const symlinks = new Set<string>();
+	const writeEntry = async (
+		header: Headers,
+		stream: Readable,
+		target: string,
+	) => {
+		const link = [...symlinks].find((l) => target.startsWith(l + path.sep));
+		if (link != null) {
+			throw new ExpectedError(
+				`Refusing to extract "${header.name}" through the symbolic link "${link}"`,
+			);
+		}
+		if (symlinks.delete(target)) {
+			// Replace the link rather than writing through it
+			await fs.promises.rm(target);
+		}
+		await fs.promises.mkdir(path.dirname(target), { recursive: true });
+		const mode = getPermissions(header.mode ?? 0o644);
+		switch (header.type) {
+			case 'directory':
+				await fs.promises.mkdir(target, { recursive: true });
+				await fs.promises.chmod(target, mode);
+				stream.resume();
+				return;
+			case 'symlink':
+				await fs.promises.rm(target, { force: true });
+				await fs.promises.symlink(header.linkname!, target);
+				symlinks.add(target);
+				stream.resume();
+				return;
+			case 'file':
+			case 'contiguous-file':
+				await new Promise((resolve, reject) => {
+					stream
+						.pipe(fs.createWriteStream(target, { mode }))
+						.on('finish', resolve)
+						.on('error', reject);
+				});
+				await fs.promises.chmod(target, mode);
+				if (header.mtime != null) {
+					await fs.promises.utimes(target, header.mtime, header.mtime);
+				}
+				return;
+			default:
+				// Device files, fifos etc. are not copied
+				stream.resume();
+		}
+	};
+	extract.on('entry', (header, stream, next) => {
+		const target = getLocalEntryPath(header.name, rootName, localRoot);
+		if (target == null) {
+			stream.resume();
+			next();
+			return;
+		}
+		writeEntry(header, stream, target).then(
+			() => {
+				next();
+			},
+			(err) => {
+				extract.destroy(err);
+			},
+		);
+	});
+	return extract;
+}
+
+async function listLocalEntries(
+	fsPath: string,
+	name: string,
+): Promise<LocalEntry[]> {
+	const stats = await fs.promises.lstat(fsPath);
+	const entries: LocalEntry[] = [{ fsPath, name, stats }];
+	if (stats.isDirectory()) {
+		for (const child of (await fs.promises.readdir(fsPath)).sort()) {
+			entries.push(
+				...(await listLocalEntries(
+					path.join(fsPath, child),
+					`${name}/${child}`,
+				)),
+			);
+		}
+	}
+	return entries;
+}
+
+/**
+ * Create a tar stream of a local file or directory (recursively), with
+ * `rootName` as the name of its top level entry, preserving file
+ * permissions and modification times.
+ * @returns The tar stream and the total size of the files in bytes
+ */
+export async function packLocalPath(
+	localPath: string,
+	rootName: string,
+): Promise<{ pack: Pack; size: number }> {
+	const tar = await import('tar-stream');
+	const entries = await listLocalEntries(localPath, rootName);
+	const pack = tar.pack();
+	const addEntries = async () => {
+		for (const { fsPath, name, stats } of entries) {
+			const header = {
+				name,
+				mode: getPermissions(stats.mode),
+				mtime: stats.mtime,
+			};
+			if (stats.isDirectory()) {
+				pack.entry({ ...header, type: 'directory' });
+			} else if (stats.isSymbolicLink()) {
+				const linkname = await fs.promises.readlink(fsPath);
+				pack.entry({ ...header, type: 'symlink', linkname });
+			} else if (stats.isFile()) {
+				await new Promise<void>((resolve, reject) => {
+					const entry = pack.entry({ ...header, size: stats.size }, (err) => {
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					});
+					fs.createReadStream(fsPath).on('error', reject).pipe(entry);
+				});
+			}
+		}
+		pack.finalize();
+	};
+	addEntries().catch((err) => pack.destroy(err));
+	const size = entries.reduce(
+		(total, { stats }) => total + (stats.isFile() ? stats.size : 0),
+		0,
+	);
+	return { pack, size };
+}
+
+/**
+ * Copy a file or directory (recursively) from a device to this machine.
+ * If `localPath` is an existing directory, the file or directory is copied
+ * into it. Otherwise, it is copied to `localPath`.
+ */
+export async function copyFromDevice(
+	shell: DeviceShell,
+	devicePath: string,
+	localPath: string,
+) {
+	const dir = path.posix.dirname(devicePath);
+	const name = path.posix.basename(devicePath);
+	let size: number;
+	try {
+		size =
+			parseInt(
+				await getShellOutput(shell, `du -sk ${shellQuote(devicePath)}`),
+				10,
+			) * 1024;
+	} catch (err) {
+		throw new ExpectedError(`Cannot access "${devicePath}" on the device`);
+	}
+	const localRoot = (await isDirectory(localPath))
+		? path.join(localPath, name)
+		: localPath;
+
+	const extract = createLocalExtractor(name, localRoot);
+	const extracted = new Promise((resolve, reject) => {
+		extract.on('finish', resolve).on('error', reject);
+	});
+	const progress = createProgressStream(`Copying ${devicePath}`, size);
+	progress.pipe(extract);
+	// The extractor fails on a truncated archive if the remote tar fails
+	await Promise.all([
+		shell(`tar -C ${shellQuote(dir)} -cf - ${shellQuote(name)}`, {
+			stdout: progress,
+		}),
+		extracted,
+	]);
+}
+
+/**
+ * Copy a local file or directory (recursively) to a device. If `devicePath`
+ * is an existing directory on the device, the file or directory is copied
+ * into it. Otherwise, it is copied to `devicePath`.
+ */
+export async function copyToDevice(
+	shell: DeviceShell,
+	localPath: string,
+	devicePath: string,
+) {
+	if (!(await exists(localPath))) {
+		throw new ExpectedError(`No such file or directory: "${localPath}"`);
+	}
+	const isDeviceDir =
+		(await getShellOutput(
+			shell,
+			`if [ -d ${shellQuote(devicePath)} ]; then echo dir; fi`,
+		)) === 'dir';
+	const [dir, name] = isDeviceDir
+		? [devicePath, path.basename(path.resolve(localPath))]
+		: [path.posix.dirname(devicePath), path.posix.basename(devicePath)];
+
+	const { pack, size } = await packLocalPath(localPath, name);
+	const progress = createProgressStream(`Copying ${localPath}`, size);
+	// If reading a local file fails, the progress stream (the stdin of ssh)
+	// is destroyed too, so that the copy fails rather than hangs
+	const { pipeline } = await import('stream/promises');
+	await Promise.all([
+		pipeline(pack, progress),
+		shell(`mkdir -p ${shellQuote(dir)} && tar -C ${shellQuote(dir)} -xf -`, {
+			stdin: progress,
+		}),
+	]);
+}
+
+async function exists(localPath: string) {
+	try {
+		await fs.promises.lstat(localPath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function isDirectory(localPath: string) {
+	try {
+		return (await fs.promises.stat(localPath)).isDirectory();
+	} catch {
+		return false;
+	}
+}
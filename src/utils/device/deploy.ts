@@ -42,7 +42,7 @@ import { DeviceAPI } from './api';
 import * as LocalPushErrors from './errors';
 import LivepushManager from './live';
 import { displayBuildLog } from './logs';
-import { stripIndent } from '../lazy';
+import { getBalenaSdk, stripIndent } from '../lazy';
 
 const LOCAL_APPNAME = 'localapp';
 const LOCAL_RELEASEHASH = '10ca12e1ea5e';
@@ -68,8 +68,22 @@ export interface DeviceDeployOptions {
 	system: boolean;
 	env: string[];
 	convertEol: boolean;
+	/** Use prebuilt images instead of building the project on the device */
+	imagesOnly?: boolean;
+	/** Deploy the images of this release (commit or ID) from balenaCloud */
+	fromRelease?: string;
+	/** Show a live session status panel instead of the device logs */
+	dashboard?: boolean;
+	/** File that live session status transitions are appended to, as NDJSON */
+	eventsFile?: string;
 }
 
+/** The build task properties needed to generate the target state */
+type TargetStateTask = Pick<
+	BuildTask,
+	'serviceName' | 'external' | 'tag' | 'contract'
+>;
+
 interface ParsedEnvironment {
 	[serviceName: string]: { [key: string]: string };
 }
@@ -136,6 +150,11 @@ export async function deployToDevice(opts: DeviceDeployOptions): Promise<void> {
 		opts.deviceHost = address;
 	}
 
+	if (opts.eventsFile) {
+		const { checkEventsFile } = await import('./live-status');
+		await checkEventsFile(opts.eventsFile);
+	}
+
 	const port = 48484;
 	const api = new DeviceAPI(globalLogger, opts.deviceHost, port);
 
@@ -178,6 +197,11 @@ export async function deployToDevice(opts: DeviceDeployOptions): Promise<void> {
 		}
 	}
 
+	if (opts.fromRelease != null || opts.imagesOnly) {
+		await deployPrebuiltImages(api, opts);
+		return;
+	}
+
 	globalLogger.logInfo(`Starting build on device ${opts.deviceHost}`);
 
 	const project = await loadProject(globalLogger, {
@@ -231,26 +255,7 @@ export async function deployToDevice(opts: DeviceDeployOptions): Promise<void> {
 	// Print a newline to clearly separate build time and runtime
 	console.log();
 
-	const envs = await environmentFromInput(
-		opts.env,
-		Object.getOwnPropertyNames(project.composition.services),
-		globalLogger,
-	);
-
-	globalLogger.logDebug('Setting device state...');
-	// Now set the target state on the device
-
-	const currentTargetState = await api.getTargetState();
-
-	const targetState = generateTargetState(
-		currentTargetState,
-		project.composition,
-		buildTasks,
-		envs,
-	);
-	globalLogger.logDebug(`Sending target state: ${JSON.stringify(targetState)}`);
-
-	await api.setTargetState(targetState);
+	await applyTargetState(api, project.composition, buildTasks, opts);
 
 	// Now that we've set the target state, the device will do it's thing
 	// so we can either just display the logs, or start a livepush session
@@ -270,6 +275,9 @@ export async function deployToDevice(opts: DeviceDeployOptions): Promise<void> {
 			deployOpts: opts,
 		});
 		promises.push(livepush.init());
+		if (opts.dashboard || opts.eventsFile) {
+			promises.push(livepush.watchDeviceStatus());
+		}
 		if (opts.detached) {
 			globalLogger.logLivepush(
 				'Running in detached mode, no service logs will be shown',
@@ -286,12 +294,104 @@ export async function deployToDevice(opts: DeviceDeployOptions): Promise<void> {
 	}
 }
 
+/**
+ * Deploy prebuilt images (--images-only) or the images of a cloud release
+ * (--from-release) to the device, without building anything on the device.
+ */
+async function deployPrebuiltImages(api: DeviceAPI, opts: DeviceDeployOptions) {
+	if (!opts.nolive) {
+		globalLogger.logInfo(
+			'A live session is not available when deploying prebuilt images',
+		);
+	}
+	const docker = connectToDocker(opts.deviceHost, opts.devicePort ?? 2375);
+	const { getProjectImages, getReleaseImages } = await import(
+		'./prebuilt-images'
+	);
+	let prebuilt: import('./prebuilt-images').PrebuiltImages;
+	if (opts.fromRelease != null) {
+		globalLogger.logInfo(
+			`Pulling images of release ${opts.fromRelease} onto device ${opts.deviceHost}`,
+		);
+		prebuilt = await getReleaseImages(
+			docker,
+			getBalenaSdk(),
+			globalLogger,
+			opts.fromRelease,
+			await api.getDeviceInformation(),
+		);
+	} else {
+		globalLogger.logInfo(
+			`Deploying prebuilt images to device ${opts.deviceHost}`,
+		);
+		const project = await loadProject(globalLogger, {
+			convertEol: opts.convertEol,
+			dockerfilePath: opts.dockerfilePath,
+			multiDockerignore: opts.multiDockerignore,
+			noParentCheck: opts.noParentCheck,
+			projectPath: opts.source,
+			isLocal: true,
+		});
+		prebuilt = await getProjectImages(
+			docker,
+			globalLogger,
+			project,
+			opts.registrySecrets,
+			opts.pull,
+		);
+	}
+
+	// Tag the images as the local mode images of the services, like
+	// external images are tagged after a build
+	const tasks: TargetStateTask[] = [];
+	for (const [serviceName, name] of Object.entries(prebuilt.images)) {
+		await docker.getImage(name).tag({
+			repo: makeImageName(LOCAL_PROJECT_NAME, serviceName, 'latest'),
+			force: true,
+		});
+		tasks.push({ serviceName, external: true });
+	}
+	await applyTargetState(api, prebuilt.composition, tasks, opts);
+
+	const { awaitInterruptibleTask } = await import('../helpers');
+	await awaitInterruptibleTask(() => streamDeviceLogs(api, opts));
+}
+
+/** Set the target state of the device to run the given services */
+async function applyTargetState(
+	api: DeviceAPI,
+	composition: Composition,
+	tasks: TargetStateTask[],
+	opts: DeviceDeployOptions,
+) {
+	const envs = await environmentFromInput(
+		opts.env,
+		Object.getOwnPropertyNames(composition.services),
+		globalLogger,
+	);
+
+	globalLogger.logDebug('Setting device state...');
+	// Now set the target state on the device
+
+	const currentTargetState = await api.getTargetState();
+
+	const targetState = generateTargetState(
+		currentTargetState,
+		composition,
+		tasks,
+		envs,
+	);
+	globalLogger.logDebug(`Sending target state: ${JSON.stringify(targetState)}`);
+
+	await api.setTargetState(targetState);
+}
+
 async function streamDeviceLogs(
 	deviceApi: DeviceAPI,
 	opts: DeviceDeployOptions,
 ) {
-	// Only show logs if we're not detaching
-	if (opts.detached) {
+	// Only show logs if we're not detaching, and the dashboard is not shown
+	if (opts.detached || opts.dashboard) {
 		return;
 	}
 	globalLogger.logInfo('Streaming device logs...');
@@ -600,7 +700,7 @@ async function assignDockerBuildOpts(
 	);
 }
 
-function getImageNameFromTask(task: BuildTask): string {
+function getImageNameFromTask(task: TargetStateTask): string {
 	return !task.external && task.tag
 		? task.tag
 		: makeImageName(LOCAL_PROJECT_NAME, task.serviceName, 'latest');
@@ -609,7 +709,7 @@ function getImageNameFromTask(task: BuildTask): string {
 export function generateTargetState(
 	currentTargetState: any,
 	composition: Composition,
-	buildTasks: BuildTask[],
+	buildTasks: TargetStateTask[],
 	env: ParsedEnvironment,
 ): any {
 	const keyedBuildTasks = _.keyBy(buildTasks, 'serviceName');
@@ -621,6 +721,12 @@ export function generateTargetState(
 		opts = _.cloneDeep(opts);
 		delete opts.build;
 		delete opts.image;
+		// and of extension fields like the live session's x-balena-sync
+		for (const key of Object.keys(opts)) {
+			if (key.startsWith('x-')) {
+				delete (opts as Dictionary<any>)[key];
+			}
+		}
 
 		const defaults = {
 			environment: {},
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+
+import { ExpectedError } from '../../errors';
+import { getVisuals } from '../lazy';
+import Logger = require('../logger');
+import type { Status } from './api';
+
+/** The state of a service during a live session */
+export interface ServiceLiveStatus {
+	/** Time of the last successful livepush or file sync (ISO 8601) */
+	lastSync?: string;
+	/** Number of changed files waiting to be synced */
+	pending: number;
+	rebuilding: boolean;
+	/** Container status in the last device status report, e.g. 'Running' */
+	containerStatus?: string;
+	lastError?: string;
+}
+
+export type LiveEventType =
+	| 'pending'
+	| 'synced'
+	| 'rebuild-started'
+	| 'rebuild-finished'
+	| 'container-status'
+	| 'error';
+
+/** A line of the --events-file output */
+export interface LiveEvent extends Partial<ServiceLiveStatus> {
+	timestamp: string;
+	service: string;
+	event: LiveEventType;
+}
+
+export interface LiveStatusOptions {
+	/** Show a status panel, redrawn as the status of services changes */
+	dashboard?: boolean;
+	/** File that status transitions are appended to, as NDJSON */
+	eventsFile?: string;
+}
+
+const DASHBOARD_REDRAW_DELAY = 200;
+
+/**
+ * Check that the events file can be opened for appending, so that a bad
+ * --events-file path is reported before the live session starts.
+ */
+export async function checkEventsFile(eventsFile: string) {
+	try {
+		const handle = await fs.promises.open(eventsFile, 'a');
+		await handle.close();
+	} catch (err) {
+		throw new ExpectedError(
+			`Cannot write to the events file "${eventsFile}": ${err.message}`,
+		);
+	}
+}
+
+/**
+ * Track the status of the services of a live session, showing it in a
+ * dashboard and/or writing status transitions to an events file.
+ */
+export class LiveStatus {
+	public readonly services: Dictionary<ServiceLiveStatus> = {};
+	private eventsStream?: fs.WriteStream;
+	private redrawTimer?: NodeJS.Timeout;
+
+	constructor(private opts: LiveStatusOptions) {
+		if (opts.eventsFile) {
+			this.eventsStream = fs.createWriteStream(opts.eventsFile, {
+				flags: 'a',
+			});
+			// Failing to record events should not end the live session
+			this.eventsStream.on('error', (err) => {
+				Logger.getLogger().logWarn(
+					`Failed to write to the events file "${opts.eventsFile}": ${err.message}`,
+				);
+				this.eventsStream = undefined;
+			});
+		}
+	}
+
+	public setPending(service: string, pending: number) {
+		this.update(service, 'pending', { pending });
+	}
+
+	public setSynced(service: string) {
+		this.update(service, 'synced', {
+			lastSync: new Date().toISOString(),
+			pending: 0,
+			lastError: undefined,
+		});
+	}
+
+	public setRebuilding(service: string, rebuilding: boolean) {
+		this.update(service, rebuilding ? 'rebuild-started' : 'rebuild-finished', {
+			rebuilding,
+		});
+	}
+
+	public setError(service: string, message: string) {
+		this.update(service, 'error', { lastError: message });
+	}
+
+	/** Update the container status of services from a device status report */
+	public setDeviceStatus(status: Status) {
+		for (const container of status.containers) {
+			if (
+				this.services[container.serviceName]?.containerStatus !==
+				container.status
+			) {
+				this.update(container.serviceName, 'container-status', {
+					containerStatus: container.status,
+				});
+			}
+		}
+	}
+
+	/** Render the status panel (a table of services) */
+	public renderDashboard(now = new Date()): string {
+		const rows = Object.entries(this.services).map(([service, status]) => ({
+			service,
+			container: status.containerStatus ?? '',
+			pending: status.pending,
+			rebuilding: status.rebuilding ? 'yes' : 'no',
+			last_sync: status.lastSync ?? '',
+			last_error: status.lastError ?? '',
+		}));
+		return [
+			`Live session status at ${now.toISOString()} (press CTRL-C to quit)`,
+			getVisuals().table.horizontal(rows, [
+				'service',
+				'container',
+				'pending',
+				'rebuilding',
+				'last_sync',
+				'last_error',
+			]),
+		].join('\n\n');
+	}
+
+	/** Stop redrawing the dashboard and close the events file */
+	public async close() {
+		if (this.redrawTimer != null) {
+			clearTimeout(this.redrawTimer);
+		}
+		if (this.eventsStream != null) {
+			const stream = this.eventsStream;
+			this.eventsStream = undefined;
+			await new Promise((resolve) => stream.end(resolve));
+		}
+	}
+
+	private update(
+		service: string,
+		event: LiveEventType,
+		changes: Partial<ServiceLiveStatus>,
+	) {
+		const status = (this.services[service] ??= {
+			pending: 0,
+			rebuilding: false,
+		});
+		Object.assign(status, changes);
+		if (this.eventsStream != null) {
+			const line: LiveEvent = {
+				timestamp: new Date().toISOString(),
+				service,
+				event,
+				...changes,
+			};
+			this.eventsStream.write(JSON.stringify(line) + '\n');
+		}
+		if (this.opts.dashboard && this.redrawTimer == null) {
+			this.redrawTimer = setTimeout(() => {
+				this.redrawTimer = undefined;
+				this.redrawDashboard();
+			}, DASHBOARD_REDRAW_DELAY);
+		}
+	}
+
+	private redrawDashboard() {
+		// Clear the screen and move the cursor to the top left corner
+		process.stdout.write('\u001b[2J\u001b[H');
+		console.log(this.renderDashboard());
+	}
+}
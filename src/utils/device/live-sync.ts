@@ -0,0 +1,215 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type * as Dockerode from 'dockerode';
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import { ExpectedError } from '../../errors';
+
+/**
+ * The composition service field that enables the file-sync mode of a live
+ * session, usually set in a docker-compose.dev.yml overlay, e.g.:
+ *
+ *     x-balena-sync:
+ *       paths:
+ *         src: /usr/src/app/src
+ *       restart: kill -HUP 1
+ */
+export const SYNC_FIELD = 'x-balena-sync';
+
+export interface SyncConfig {
+	/** Container paths keyed by paths relative to the service build context */
+	paths: Dictionary<string>;
+	/**
+	 * A command run in the container after files are copied, or true to
+	 * restart the container
+	 */
+	restart?: string | true;
+}
+
+/** A file to copy into (or delete from) the container */
+export interface SyncTarget {
+	/** Path relative to the service build context */
+	hostPath: string;
+	/** Absolute path in the container */
+	containerPath: string;
+}
+
+/**
+ * Get the file-sync configuration of a composition service, or undefined if
+ * the service does not use the file-sync mode.
+ */
+export function getSyncConfig(
+	serviceName: string,
+	service: object,
+): SyncConfig | undefined {
+	const config = (service as Dictionary<any>)[SYNC_FIELD];
+	if (config == null) {
+		return;
+	}
+	const invalid = (reason: string) =>
+		new ExpectedError(
+			`Invalid '${SYNC_FIELD}' field of service '${serviceName}': ${reason}`,
+		);
+	if (!_.isPlainObject(config) || !_.isPlainObject(config.paths)) {
+		throw invalid(`expected an object with a 'paths' object`);
+	}
+	const paths: Dictionary<string> = {};
+	for (const [hostPath, containerPath] of Object.entries(config.paths)) {
+		const normalized = path.normalize(hostPath).replace(/[\\/]+$/, '') || '.';
+		if (path.isAbsolute(hostPath) || normalized.split(path.sep)[0] === '..') {
+			throw invalid(
+				`path '${hostPath}' must be relative to the service build context`,
+			);
+		}
+		if (typeof containerPath !== 'string' || !containerPath.startsWith('/')) {
+			throw invalid(`container path for '${hostPath}' must be absolute`);
+		}
+		paths[normalized] = containerPath;
+	}
+	if (_.isEmpty(paths)) {
+		throw invalid('no paths to sync');
+	}
+	const { restart } = config;
+	if (restart != null && restart !== true && typeof restart !== 'string') {
+		throw invalid(`'restart' must be a command or true`);
+	}
+	return { paths, restart: restart || undefined };
+}
+
+/**
+ * Map changed files (relative to the service build context) to their paths
+ * in the container. Files outside of the synced paths are left out.
+ */
+export function getSyncTargets(
+	config: SyncConfig,
+	changedPaths: string[],
+): SyncTarget[] {
+	const targets: SyncTarget[] = [];
+	for (const changed of _.uniq(changedPaths)) {
+		const hostPath = path.normalize(changed);
+		for (const [syncPath, containerPath] of Object.entries(config.paths)) {
+			const relPath =
+				syncPath === '.' ? hostPath : path.relative(syncPath, hostPath);
+			if (relPath.split(path.sep)[0] === '..' || path.isAbsolute(relPath)) {
+				continue;
+			}
+			targets.push({
+				hostPath,
+				containerPath: path.posix.join(
+					containerPath,
+					...relPath.split(path.sep),
+				),
+			});
+			break;
+		}
+	}
+	return targets;
+}
+
+/**
+ * Run a command in a container, passing its output lines to the given
+ * function.
+ * @returns The exit code of the command
+ */
+export async function execInContainer(
+	container: Dockerode.Container,
+	cmd: string[],
+	onOutput: (line: string) => void,
+): Promise<number> {
+	const { PassThrough } = await import('stream');
+	const exec = await container.exec({
+		Cmd: cmd,
+		AttachStdout: true,
+		AttachStderr: true,
+	});
+	const stream = await exec.start({});
+	const output = new PassThrough();
+	container.modem.demuxStream(stream, output, output);
+	let buffered = '';
+	output.on('data', (data: Buffer) => {
+		const lines = (buffered + data.toString()).split('\n');
+		buffered = lines.pop()!;
+		lines.forEach(onOutput);
+	});
+	await new Promise((resolve, reject) => {
+		stream.on('end', resolve);
+		stream.on('error', reject);
+	});
+	if (buffered) {
+		onOutput(buffered);
+	}
+	return (await exec.inspect()).ExitCode ?? 0;
+}
+
+/**
+ * Copy the given files from the service build context into a container, and
+ * delete from the container the files that no longer exist on this machine.
+ * @returns The number of files copied and deleted
+ */
+export async function syncFiles(
+	container: Dockerode.Container,
+	context: string,
+	targets: SyncTarget[],
+): Promise<{ copied: number; deleted: number }> {
+	const tar = await import('tar-stream');
+	const pack = tar.pack();
+	const deleted: string[] = [];
+	let copied = 0;
+	for (const target of targets) {
+		const filePath = path.join(context, target.hostPath);
+		let stats;
+		try {
+			stats = await fs.stat(filePath);
+		} catch (err) {
+			if (err.code !== 'ENOENT') {
+				throw err;
+			}
+			deleted.push(target.containerPath);
+			continue;
+		}
+		if (!stats.isFile()) {
+			continue;
+		}
+		pack.entry(
+			{
+				name: target.containerPath.slice(1),
+				mode: stats.mode,
+				mtime: stats.mtime,
+			},
+			await fs.readFile(filePath),
+		);
+		copied++;
+	}
+	pack.finalize();
+	if (copied > 0) {
+		await container.putArchive(pack, { path: '/' });
+	}
+	if (deleted.length > 0) {
+		const exitCode = await execInContainer(
+			container,
+			['rm', '-f', ...deleted],
+			_.noop,
+		);
+		if (exitCode !== 0) {
+			throw new Error(`Failed to delete files: rm exited with ${exitCode}`);
+		}
+	}
+	return { copied, deleted: deleted.length };
+}
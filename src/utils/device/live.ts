@@ -34,6 +34,14 @@ import type { DeviceDeployOptions } from './deploy';
 import { generateTargetState, rebuildSingleTask } from './deploy';
 import { BuildError } from './errors';
 import { getServiceColourFn } from './logs';
+import { LiveStatus } from './live-status';
+import type { SyncConfig } from './live-sync';
+import {
+	execInContainer,
+	getSyncConfig,
+	getSyncTargets,
+	syncFiles,
+} from './live-sync';
 import { delay } from '../helpers';
 
 // How often do we want to check the device state
@@ -42,9 +50,15 @@ const DEVICE_STATUS_SETTLE_CHECK_INTERVAL = 1000;
 
 const LIVEPUSH_DEBOUNCE_TIMEOUT = 2000;
 
+// How often the device status is polled for the dashboard and events file
+const DEVICE_STATUS_POLL_INTERVAL = 5000;
+
 interface MonitoredContainer {
 	context: string;
-	livepush: Livepush;
+	/** Undefined for services in file-sync mode */
+	livepush?: Livepush;
+	/** File-sync configuration, see the SYNC_FIELD composition field */
+	sync?: SyncConfig;
 	monitor: chokidar.FSWatcher;
 	containerId: string;
 }
@@ -85,6 +99,9 @@ export class LivepushManager {
 	private rebuildRunningIds: Dictionary<string> = {};
 	private rebuildsCancelled: Dictionary<boolean> = {};
 
+	private status: LiveStatus;
+	private closed = false;
+
 	public constructor(opts: LivepushOpts) {
 		this.buildContext = opts.buildContext;
 		this.composition = opts.composition;
@@ -94,6 +111,10 @@ export class LivepushManager {
 		this.logger = opts.logger;
 		this.deployOpts = opts.deployOpts;
 		this.imageIds = opts.imageIds;
+		this.status = new LiveStatus({
+			dashboard: opts.deployOpts.dashboard,
+			eventsFile: opts.deployOpts.eventsFile,
+		});
 	}
 
 	public async init(): Promise<void> {
@@ -167,21 +188,31 @@ export class LivepushManager {
 				// and also converts forward slashes to backslashes on Windows.
 				const context = path.resolve(rootContext, service.build.context);
 
-				const livepush = await Livepush.init({
-					dockerfile,
-					context,
-					containerId: container.containerId,
-					stageImages: this.imageIds[serviceName],
-					docker: this.docker,
-				});
-				const buildVars = buildTask.buildMetadata.getBuildVarsForService(
-					buildTask.serviceName,
-				);
-				if (!_.isEmpty(buildVars)) {
-					livepush.setBuildArgs(buildVars);
-				}
+				// Services with a sync configuration have changed files copied
+				// into the container instead of using the Dockerfile live directives
+				const sync = getSyncConfig(serviceName, service);
+				let livepush: Livepush | undefined;
+				if (sync == null) {
+					livepush = await Livepush.init({
+						dockerfile,
+						context,
+						containerId: container.containerId,
+						stageImages: this.imageIds[serviceName],
+						docker: this.docker,
+					});
+					const buildVars = buildTask.buildMetadata.getBuildVarsForService(
+						buildTask.serviceName,
+					);
+					if (!_.isEmpty(buildVars)) {
+						livepush.setBuildArgs(buildVars);
+					}
 
-				this.assignLivepushOutputHandlers(serviceName, livepush);
+					this.assignLivepushOutputHandlers(serviceName, livepush);
+				} else {
+					this.logger.logLivepush(
+						`Syncing files of service ${serviceName} (no rebuilds unless the Dockerfile changes)`,
+					);
+				}
 
 				this.updateEventsWaiting[serviceName] = [];
 				this.deleteEventsWaiting[serviceName] = [];
@@ -191,6 +222,7 @@ export class LivepushManager {
 					);
 					const eventQueue = this.updateEventsWaiting[$serviceName];
 					eventQueue.push(changedPath);
+					this.status.setPending($serviceName, eventQueue.length);
 					// eslint-disable-next-line @typescript-eslint/no-floating-promises
 					this.getDebouncedEventHandler($serviceName)();
 				};
@@ -206,6 +238,7 @@ export class LivepushManager {
 
 				this.containers[serviceName] = {
 					livepush,
+					sync,
 					context,
 					monitor,
 					containerId: container.containerId,
@@ -222,7 +255,7 @@ export class LivepushManager {
 		this.logger.logLivepush('Cleaning up device...');
 		await Promise.all(
 			_.map(this.containers, (container) =>
-				container.livepush.cleanupIntermediateContainers(),
+				container.livepush?.cleanupIntermediateContainers(),
 			),
 		);
 		this.logger.logDebug('Cleaning up done.');
@@ -279,8 +312,27 @@ export class LivepushManager {
 		return monitor;
 	}
 
+	/**
+	 * Poll the device status, updating the container status shown in the
+	 * dashboard and written to the events file, until close() is called.
+	 */
+	public async watchDeviceStatus(): Promise<void> {
+		while (!this.closed) {
+			await delay(DEVICE_STATUS_POLL_INTERVAL);
+			try {
+				this.status.setDeviceStatus(await this.api.getStatus());
+			} catch (e) {
+				this.logger.logDebug(`Failed to get device status: ${e.message}`);
+			}
+		}
+	}
+
 	/** Stop the filesystem watcher, allowing the Node process to exit gracefully */
 	public close() {
+		this.closed = true;
+		this.status.close().catch((err) => {
+			this.logger.logDebug(`Failed to close the events file: ${err.message}`);
+		});
 		for (const container of Object.values(this.containers)) {
 			container.monitor.close().catch((err) => {
 				if (process.env.DEBUG) {
@@ -297,6 +349,7 @@ export class LivepushManager {
 	private async awaitDeviceStateSettle(): Promise<void> {
 		// Cache the state to avoid unnecessary calls
 		this.lastDeviceStatus = await this.api.getStatus();
+		this.status.setDeviceStatus(this.lastDeviceStatus);
 
 		if (this.lastDeviceStatus.appState === 'applied') {
 			return;
@@ -329,10 +382,15 @@ export class LivepushManager {
 			return;
 		}
 
-		// Work out if we need to perform any changes on this container
-		const livepush = this.containers[serviceName].livepush;
+		const { livepush, sync } = this.containers[serviceName];
+		if (sync != null) {
+			await this.handleFileSync(serviceName, sync, [...updated, ...deleted]);
+			return;
+		}
 
-		if (!livepush.livepushNeeded(updated, deleted)) {
+		// Work out if we need to perform any changes on this container
+		if (!livepush?.livepushNeeded(updated, deleted)) {
+			this.status.setPending(serviceName, 0);
 			return;
 		}
 
@@ -342,7 +400,9 @@ export class LivepushManager {
 
 		try {
 			await livepush.performLivepush(updated, deleted);
+			this.status.setSynced(serviceName);
 		} catch (e) {
+			this.status.setError(serviceName, e.message);
 			this.logger.logError(
 				`An error occured whilst trying to perform a livepush: `,
 			);
@@ -367,6 +427,7 @@ export class LivepushManager {
 		}
 
 		this.rebuildsRunning[serviceName] = true;
+		this.status.setRebuilding(serviceName, true);
 		try {
 			const buildTask = _.find(this.buildTasks, { serviceName });
 			if (buildTask == null) {
@@ -403,6 +464,10 @@ export class LivepushManager {
 						serviceName,
 					)}`,
 				);
+				this.status.setError(
+					serviceName,
+					`Rebuild failed: ${e.getServiceError(serviceName)}`,
+				);
 				return;
 			} finally {
 				delete this.rebuildRunningIds[serviceName];
@@ -441,6 +506,10 @@ export class LivepushManager {
 				);
 			}
 
+			instance.containerId = container.containerId;
+			if (instance.sync != null) {
+				return;
+			}
 			const dockerfile = new Dockerfile(buildTask.dockerfile!);
 
 			instance.livepush = await Livepush.init({
@@ -453,9 +522,11 @@ export class LivepushManager {
 			this.assignLivepushOutputHandlers(serviceName, instance.livepush);
 		} catch (e) {
 			this.logger.logError(`There was an error rebuilding the service: ${e}`);
+			this.status.setError(serviceName, `Rebuild failed: ${e.message}`);
 		} finally {
 			this.rebuildsRunning[serviceName] = false;
 			this.rebuildsCancelled[serviceName] = false;
+			this.status.setRebuilding(serviceName, false);
 		}
 	}
 
@@ -469,13 +540,62 @@ export class LivepushManager {
 				await this.docker
 					.getContainer(this.rebuildRunningIds[serviceName])
 					.remove({ force: true });
-				await this.containers[serviceName].livepush.cancel();
+				await this.containers[serviceName].livepush?.cancel();
 			} catch {
 				// No need to do anything here
 			}
 		}
 	}
 
+	/**
+	 * Copy changed files into the container of a service in file-sync mode,
+	 * then run the restart command or restart the container, if configured.
+	 */
+	private async handleFileSync(
+		serviceName: string,
+		sync: SyncConfig,
+		changedPaths: string[],
+	): Promise<void> {
+		const targets = getSyncTargets(sync, changedPaths);
+		if (targets.length === 0) {
+			this.status.setPending(serviceName, 0);
+			return;
+		}
+		const msgString = (msg: string) =>
+			`[${getServiceColourFn(serviceName)(serviceName)}] ${msg}`;
+		const log = (msg: string) => this.logger.logLivepush(msgString(msg));
+		const { context, containerId } = this.containers[serviceName];
+		const container = this.docker.getContainer(containerId);
+
+		try {
+			const { copied, deleted } = await syncFiles(container, context, targets);
+			log(`Synced ${copied} changed and ${deleted} deleted file(s)`);
+			this.status.setSynced(serviceName);
+			if (sync.restart === true) {
+				log('Restarting service...');
+				await container.restart();
+			} else if (sync.restart != null) {
+				log(`Executing command: \`${sync.restart}\``);
+				const exitCode = await execInContainer(
+					container,
+					['/bin/sh', '-c', sync.restart],
+					(line) => log(`   ${line}`),
+				);
+				if (exitCode !== 0) {
+					const msg = `Command ${sync.restart} failed with exit code: ${exitCode}`;
+					this.logger.logError(msgString(`  ${msg}`));
+					this.status.setError(serviceName, msg);
+				}
+			}
+		} catch (e) {
+			this.status.setError(serviceName, e.message);
+			this.logger.logError(
+				`An error occured whilst trying to sync files: ${e.message}`,
+			);
+			this.logger.logDebug(e.stack);
+		}
+	}
+
 	private assignLivepushOutputHandlers(
 		serviceName: string,
 		livepush: Livepush,
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+
+import { ExpectedError } from '../../errors';
+import type { DeviceAPI, Status } from './api';
+
+export const STATUS_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Read a target state file, as printed by `balena device local-state --get`
+ * (the 'targetState' property of its --json output is also accepted).
+ */
+export async function readTargetStateFile(file: string): Promise<any> {
+	let state: any;
+	try {
+		state = JSON.parse(await fs.readFile(file, 'utf8'));
+	} catch (err) {
+		throw new ExpectedError(
+			`Failed to read target state file "${file}": ${err.message}`,
+		);
+	}
+	if (_.isPlainObject(state?.targetState)) {
+		state = state.targetState;
+	}
+	if (!_.isPlainObject(state?.local)) {
+		throw new ExpectedError(
+			`Invalid target state file "${file}": expected an object with a 'local' property`,
+		);
+	}
+	return state;
+}
+
+/** Image and container statuses keyed by e.g. 'image main', 'service main' */
+function getServiceStatuses(status?: Status): Dictionary<string> {
+	const statuses: Dictionary<string> = {};
+	for (const image of status?.images ?? []) {
+		statuses[`image ${image.serviceName}`] =
+			image.downloadProgress != null && image.status === 'Downloading'
+				? `${image.status} (${image.downloadProgress}%)`
+				: image.status;
+	}
+	for (const container of status?.containers ?? []) {
+		statuses[`service ${container.serviceName}`] = container.status;
+	}
+	return statuses;
+}
+
+/**
+ * Describe the differences between two device status reports, e.g.
+ * "service main: Installing -> Running". All of the current status is
+ * described if the previous status is undefined.
+ */
+export function getStatusTransitions(
+	prev: Status | undefined,
+	curr: Status,
+): string[] {
+	const transitions: string[] = [];
+	const change = (what: string, from?: string, to?: string) => {
+		if (from !== to) {
+			transitions.push(
+				from == null
+					? `${what}: ${to}`
+					: `${what}: ${from} -> ${to ?? '(removed)'}`,
+			);
+		}
+	};
+
+	change('app state', prev?.appState, curr.appState);
+	const prevStatuses = getServiceStatuses(prev);
+	const currStatuses = getServiceStatuses(curr);
+	for (const key of _.union(
+		Object.keys(prevStatuses),
+		Object.keys(currStatuses),
+	)) {
+		change(key, prevStatuses[key], currStatuses[key]);
+	}
+	return transitions;
+}
+
+/**
+ * Poll the status of a local mode device, printing status transitions as
+ * they happen. This function never returns (quit with CTRL-C).
+ */
+export async function watchLocalStatus(
+	api: DeviceAPI,
+	intervalMs = STATUS_POLL_INTERVAL_MS,
+): Promise<never> {
+	const { delay } = await import('../helpers');
+	let prev: Status | undefined;
+	for (;;) {
+		const curr = await api.getStatus();
+		const timestamp = new Date().toISOString();
+		for (const transition of getStatusTransitions(prev, curr)) {
+			console.log(`[${timestamp}] ${transition}`);
+		}
+		prev = curr;
+		await delay(intervalMs);
+	}
+}
@@ -14,11 +14,12 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { Flags } from '@oclif/core';
 import ColorHash = require('color-hash');
 import * as _ from 'lodash';
 import type { Readable } from 'stream';
 
-import { getChalk } from '../lazy';
+import { getChalk, stripIndent } from '../lazy';
 import Logger = require('../logger');
 import { ExpectedError, SIGINTError } from '../../errors';
 
@@ -29,15 +30,20 @@ class DeviceConnectionLostError extends ExpectedError {
 	}
 }
 
-interface Log {
+export interface Log {
 	message: string;
 	timestamp?: number;
 	serviceName?: string;
+	/** Set when displaying the logs of several devices (balena logs --fleet) */
+	deviceName?: string;
+	isStdErr?: boolean;
 
 	// There's also a serviceId and imageId, but they're
 	// meaningless in local mode
 }
 
+export type LogHandler = (log: Log) => Promise<void> | void;
+
 interface BuildLog {
 	serviceName: string;
 	message: string;
@@ -55,12 +61,17 @@ interface BuildLog {
  * 	filterService) logs
  * @param filterService Filter the logs so that only logs
  * 	from a single service will be displayed
+ * @param opts Output format and time window / message filters
+ * @param onLog Called with every log object received, whether displayed or
+ * 	not (e.g. to save logs to disk)
  */
 async function displayDeviceLogs(
 	logs: Readable,
 	logger: Logger,
 	system: boolean,
 	filterServices?: string[],
+	opts?: LogDisplayOptions,
+	onLog?: LogHandler,
 ): Promise<void> {
 	const { addSIGINTHandler } = await import('../helpers');
 	const { parse: ndjsonParse } = await import('ndjson');
@@ -73,9 +84,23 @@ async function displayDeviceLogs(
 	process.once('SIGTERM', handleSignal);
 	try {
 		await new Promise((_resolve, reject) => {
+			// Stop calling onLog once it fails (e.g. the disk is full), but keep
+			// displaying the logs
+			let handleLog = onLog;
+			const callLogHandler = async (log: Log) => {
+				try {
+					await handleLog?.(log);
+				} catch (err) {
+					if (handleLog != null) {
+						handleLog = undefined;
+						logger.logWarn(`Stopped saving and checking logs: ${err.message}`);
+					}
+				}
+			};
 			const jsonStream = ndjsonParse();
 			jsonStream.on('data', (log) => {
-				displayLogObject(log, logger, system, filterServices);
+				displayLogObject(log, logger, system, filterServices, opts);
+				void callLogHandler(log);
 			});
 			jsonStream.on('error', (e) => {
 				logger.logWarn(`Error parsing NDJSON log chunk: ${e}`);
@@ -111,18 +136,29 @@ export async function connectAndDisplayDeviceLogs({
 	logger,
 	system,
 	filterServices,
+	displayOptions,
+	onLog,
 	maxAttempts = 3,
 }: {
 	deviceApi: import('./api').DeviceAPI;
 	logger: Logger;
 	system: boolean;
 	filterServices?: string[];
+	displayOptions?: LogDisplayOptions;
+	onLog?: LogHandler;
 	maxAttempts?: number;
 }) {
 	async function connectAndDisplay() {
 		// Open a new connection to the device's supervisor, TCP port 48484
 		const logStream = await deviceApi.getLogStream();
-		return displayDeviceLogs(logStream, logger, system, filterServices);
+		return displayDeviceLogs(
+			logStream,
+			logger,
+			system,
+			filterServices,
+			displayOptions,
+			onLog,
+		);
 	}
 
 	const { retry } = await import('../../utils/helpers');
@@ -149,15 +185,190 @@ export function displayBuildLog(log: BuildLog, logger: Logger): void {
 	logger.logBuild(toPrint);
 }
 
+export type LogOutputFormat = 'text' | 'json' | 'ndjson' | 'logfmt';
+
+/** Log lines written to stderr have level 'error', others 'info' */
+export type LogLevel = 'info' | 'error';
+
+export interface LogFilter {
+	/** Only show logs at or after this time (milliseconds since the epoch) */
+	since?: number;
+	/** Only show logs at or before this time (milliseconds since the epoch) */
+	until?: number;
+	/** Only show logs whose message matches this regular expression */
+	grep?: RegExp;
+	/** Only show logs of this level or above */
+	level?: LogLevel;
+}
+
+export interface LogDisplayOptions {
+	output?: LogOutputFormat;
+	filter?: LogFilter;
+}
+
+/** A log line as printed by the json, ndjson and logfmt output formats */
+export interface LogRecord {
+	timestamp: string;
+	device?: string;
+	service?: string;
+	level: LogLevel;
+	message: string;
+}
+
+/**
+ * Flags shared by the commands that display device logs
+ * (\`balena logs\` and \`balena logs replay\`)
+ */
+export const logDisplayFlags = {
+	service: Flags.string({
+		description: stripIndent`
+				Reject logs not originating from this service.
+				This can be used in combination with --system or other --service flags.`,
+		char: 's',
+		multiple: true,
+	}),
+	system: Flags.boolean({
+		default: false,
+		description:
+			'Only show system logs. This can be used in combination with --service.',
+		char: 'S',
+	}),
+	output: Flags.string({
+		description: 'output format',
+		options: ['text', 'json', 'ndjson', 'logfmt'],
+		default: 'text',
+		char: 'o',
+	}),
+	since: Flags.string({
+		description:
+			'only show logs since a duration before now (e.g. 30m, 2h, 1d) or a timestamp',
+	}),
+	until: Flags.string({
+		description:
+			'only show logs until a duration before now (e.g. 30m, 2h, 1d) or a timestamp',
+	}),
+	grep: Flags.string({
+		description: 'only show logs whose message matches a regular expression',
+	}),
+	level: Flags.string({
+		description: "only show logs of this level ('error': stderr logs)",
+		options: ['info', 'error'],
+	}),
+};
+
+/** Parse the regular expression given as value of a command option */
+export function parseRegExp(pattern: string, optionName: string): RegExp {
+	try {
+		return new RegExp(pattern);
+	} catch (err) {
+		throw new ExpectedError(
+			`Invalid ${optionName} regular expression: ${err.message}`,
+		);
+	}
+}
+
+/** Build the LogDisplayOptions from the values of logDisplayFlags */
+export function getLogDisplayOptions(options: {
+	output: string;
+	since?: string;
+	until?: string;
+	grep?: string;
+	level?: string;
+}): LogDisplayOptions {
+	return {
+		output: options.output as LogOutputFormat,
+		filter: {
+			since: options.since != null ? parseLogTime(options.since) : undefined,
+			until: options.until != null ? parseLogTime(options.until) : undefined,
+			grep:
+				options.grep != null ? parseRegExp(options.grep, '--grep') : undefined,
+			level: options.level as LogLevel | undefined,
+		},
+	};
+}
+
+const DURATION_REGEX = /(\d+)(ms|s|m|h|d|w)/g;
+const DURATION_UNITS_MS: Dictionary<number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse the value of the --since or --until options, which may be either a
+ * duration before now (like '30m', '2h' or '1h30m') or a timestamp (like
+ * '2024-01-31T12:00:00Z').
+ * @returns Milliseconds since the epoch
+ */
+export function parseLogTime(value: string, now = Date.now()): number {
+	if (/^(\d+(ms|s|m|h|d|w))+$/.test(value)) {
+		let duration = 0;
+		for (const [, amount, unit] of value.matchAll(DURATION_REGEX)) {
+			duration += parseInt(amount, 10) * DURATION_UNITS_MS[unit];
+		}
+		return now - duration;
+	}
+	const time = Date.parse(value);
+	if (isNaN(time)) {
+		throw new ExpectedError(stripIndent`
+			Invalid time "${value}": expected a duration like '30m', '2h' or '1d',
+			or a timestamp like '2024-01-31T12:00:00Z'`);
+	}
+	return time;
+}
+
+export function matchesLogFilter(
+	obj: Log & { timestamp: number },
+	filter: LogFilter = {},
+): boolean {
+	return (
+		(filter.since == null || obj.timestamp >= filter.since) &&
+		(filter.until == null || obj.timestamp <= filter.until) &&
+		(filter.level !== 'error' || !!obj.isStdErr) &&
+		(filter.grep == null || filter.grep.test(obj.message))
+	);
+}
+
+const formatLogfmtValue = (value: string) =>
+	/^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+
+export function formatLogRecord(
+	record: LogRecord,
+	format: 'ndjson' | 'logfmt',
+): string {
+	if (format === 'ndjson') {
+		return JSON.stringify(record);
+	}
+	return [
+		`time=${record.timestamp}`,
+		...(record.device != null
+			? [`device=${formatLogfmtValue(record.device)}`]
+			: []),
+		...(record.service != null
+			? [`service=${formatLogfmtValue(record.service)}`]
+			: []),
+		`level=${record.level}`,
+		`msg=${formatLogfmtValue(record.message)}`,
+	].join(' ');
+}
+
+/**
+ * Display a log object, unless it is filtered out by the system and service
+ * filters or by the options' filter.
+ * @returns The displayed log record, or undefined if the log was filtered
+ * out. With the 'json' output format, nothing is printed: the caller is
+ * expected to collect the returned records and print them as a JSON array.
+ */
 export function displayLogObject<T extends Log>(
 	obj: T,
 	logger: Logger,
 	system: boolean,
 	filterServices?: string[],
-): void {
-	const d = obj.timestamp != null ? new Date(obj.timestamp) : new Date();
-	let toPrint = `[${d.toISOString()}]`;
-
+	opts: LogDisplayOptions = {},
+): LogRecord | undefined {
 	if (obj.serviceName != null) {
 		if (filterServices) {
 			if (!_.includes(filterServices, obj.serviceName)) {
@@ -166,19 +377,44 @@ export function displayLogObject<T extends Log>(
 		} else if (system) {
 			return;
 		}
-
-		const colourFn = getServiceColourFn(obj.serviceName);
-
-		toPrint += ` ${colourFn(`[${obj.serviceName}]`)}`;
 	} else if (filterServices != null && !system) {
 		// We have a system log here but we are filtering based
 		// on a service, so drop this too
 		return;
 	}
 
-	toPrint += ` ${obj.message}`;
+	const timestamp = obj.timestamp ?? Date.now();
+	if (!matchesLogFilter({ ...obj, timestamp }, opts.filter)) {
+		return;
+	}
+	const record: LogRecord = {
+		timestamp: new Date(timestamp).toISOString(),
+		...(obj.deviceName != null && { device: obj.deviceName }),
+		...(obj.serviceName != null && { service: obj.serviceName }),
+		level: obj.isStdErr ? 'error' : 'info',
+		message: obj.message,
+	};
 
-	logger.logLogs(toPrint);
+	switch (opts.output ?? 'text') {
+		case 'text': {
+			let toPrint = `[${record.timestamp}]`;
+			if (record.device != null) {
+				// Devices are coloured the same way as services
+				toPrint += ` ${getServiceColourFn(record.device)(`[${record.device}]`)}`;
+			}
+			if (record.service != null) {
+				toPrint += ` ${getServiceColourFn(record.service)(`[${record.service}]`)}`;
+			}
+			toPrint += ` ${record.message}`;
+			logger.logLogs(toPrint);
+			break;
+		}
+		case 'ndjson':
+		case 'logfmt':
+			console.log(formatLogRecord(record, opts.output as 'ndjson' | 'logfmt'));
+			break;
+	}
+	return record;
 }
 
 export const getServiceColourFn = _.memoize(_getServiceColourFn);
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Composition } from '@balena/compose/dist/parse';
+import type { RegistrySecrets } from '@balena/compose/dist/multibuild';
+import type {
+	BalenaSDK,
+	PineOptions,
+	PineTypedResult,
+	Release,
+} from 'balena-sdk';
+import type * as Dockerode from 'dockerode';
+
+import { ExpectedError } from '../../errors';
+import type { ComposeProject } from '../compose-types';
+import { stripIndent } from '../lazy';
+import type Logger = require('../logger');
+import type { DeviceInfo } from './api';
+import { displayBuildLog } from './logs';
+
+/** A composition and the names of its service images on the device */
+export interface PrebuiltImages {
+	composition: Composition;
+	/** Image names on the device, keyed by service name */
+	images: Dictionary<string>;
+}
+
+const deviceReleaseOpts = {
+	$select: ['commit', 'composition', 'status'],
+	$expand: {
+		belongs_to__application: {
+			$select: 'slug',
+			$expand: { is_for__device_type: { $select: 'slug' } },
+		},
+		release_image: {
+			$select: 'id',
+			$expand: {
+				image: {
+					$select: ['is_stored_at__image_location', 'content_hash'],
+					$expand: {
+						is_a_build_of__service: { $select: 'service_name' },
+					},
+				},
+			},
+		},
+	},
+} satisfies PineOptions<Release>;
+
+async function imageExists(docker: Dockerode, name: string) {
+	try {
+		await docker.getImage(name).inspect();
+		return true;
+	} catch (err) {
+		if (err.statusCode === 404) {
+			return false;
+		}
+		throw err;
+	}
+}
+
+async function pullImage(
+	docker: Dockerode,
+	serviceName: string,
+	name: string,
+	logger: Logger,
+	registrySecrets: RegistrySecrets,
+) {
+	const { DockerProgress } = await import('docker-progress');
+	const { getAuthConfigObj } = await import('@balena/compose/dist/multibuild');
+	displayBuildLog({ serviceName, message: `Pulling ${name}...` }, logger);
+	await new DockerProgress({ docker }).pull(
+		name,
+		(progressObj) => {
+			if (progressObj.progress) {
+				displayBuildLog({ serviceName, message: progressObj.progress }, logger);
+			}
+		},
+		{ authconfig: getAuthConfigObj(name, registrySecrets) },
+	);
+}
+
+/**
+ * Copy an image from the Docker daemon of this machine (e.g. built with
+ * `balena build`) to the device's balenaEngine.
+ */
+async function transferImage(
+	localDocker: Dockerode,
+	deviceDocker: Dockerode,
+	serviceName: string,
+	name: string,
+	logger: Logger,
+) {
+	const { loadImage } = await import('../docker');
+	displayBuildLog(
+		{ serviceName, message: `Loading ${name} onto the device...` },
+		logger,
+	);
+	const output = await loadImage(
+		deviceDocker,
+		await localDocker.getImage(name).get(),
+	);
+	const error = output.find((line) => line.error)?.error;
+	if (error) {
+		throw new ExpectedError(
+			`Failed to load image ${name} onto the device: ${error}`,
+		);
+	}
+}
+
+/**
+ * Get the images of a project onto the device without building them: images
+ * named in the composition are pulled by the device (unless already present
+ * and `pull` is false), and the images of services with a build section are
+ * used if present on the device, or else loaded from the Docker daemon of
+ * this machine, where `balena build` would have built them.
+ */
+export async function getProjectImages(
+	deviceDocker: Dockerode,
+	logger: Logger,
+	project: ComposeProject,
+	registrySecrets: RegistrySecrets,
+	pull: boolean,
+): Promise<PrebuiltImages> {
+	let localDocker: Dockerode | undefined;
+	const images: Dictionary<string> = {};
+	for (const descriptor of project.descriptors) {
+		const { serviceName } = descriptor;
+		if (typeof descriptor.image === 'string') {
+			images[serviceName] = descriptor.image;
+			if (pull || !(await imageExists(deviceDocker, descriptor.image))) {
+				await pullImage(
+					deviceDocker,
+					serviceName,
+					descriptor.image,
+					logger,
+					registrySecrets,
+				);
+			}
+			continue;
+		}
+		const name = descriptor.image.tag!;
+		images[serviceName] = name;
+		if (await imageExists(deviceDocker, name)) {
+			logger.logDebug(`Using image ${name} found on the device`);
+			continue;
+		}
+		if (localDocker == null) {
+			const { getDocker } = await import('../docker');
+			try {
+				localDocker = await getDocker({});
+			} catch (err) {
+				logger.logDebug(`Cannot connect to the local Docker daemon: ${err}`);
+			}
+		}
+		if (localDocker == null || !(await imageExists(localDocker, name))) {
+			throw new ExpectedError(stripIndent`
+				Image ${name} for service '${serviceName}' was not found on the device or on this machine.
+				Build it with 'balena build', or set the 'image' of the service in the composition.`);
+		}
+		await transferImage(localDocker, deviceDocker, serviceName, name, logger);
+	}
+	return { composition: project.composition, images };
+}
+
+/**
+ * Pull the images of a release from the balena registry onto the device,
+ * checking that the device is compatible with the release's fleet.
+ */
+export async function getReleaseImages(
+	deviceDocker: Dockerode,
+	sdk: BalenaSDK,
+	logger: Logger,
+	releaseParam: string,
+	deviceInfo: DeviceInfo,
+): Promise<PrebuiltImages> {
+	const { disambiguateReleaseParam } = await import('../normalization');
+	const release = (await sdk.models.release.get(
+		await disambiguateReleaseParam(sdk, releaseParam),
+		deviceReleaseOpts,
+	)) as PineTypedResult<Release, typeof deviceReleaseOpts>;
+	if (release.status !== 'success') {
+		throw new ExpectedError(
+			`Release ${release.commit} is not successful (status: ${release.status})`,
+		);
+	}
+
+	const fleet = release.belongs_to__application[0];
+	const fleetDeviceType = fleet.is_for__device_type[0].slug;
+	const { areDeviceTypesCompatible } = await import('../helpers');
+	if (
+		!(await areDeviceTypesCompatible(fleetDeviceType, deviceInfo.deviceType))
+	) {
+		throw new ExpectedError(stripIndent`
+			The device type of the device (${deviceInfo.deviceType}) is not compatible
+			with the architecture of fleet ${fleet.slug} (${fleetDeviceType})`);
+	}
+
+	const { pullServiceImages } = await import('../compose_ts');
+	const releaseImages = release.release_image.map(({ image }) => image[0]);
+	const names = await pullServiceImages(
+		deviceDocker,
+		sdk,
+		logger,
+		releaseImages.map((image) => ({
+			location: image.is_stored_at__image_location,
+			contentHash: image.content_hash!,
+		})),
+	);
+	const images: Dictionary<string> = {};
+	releaseImages.forEach((image, index) => {
+		images[image.is_a_build_of__service[0].service_name] = names[index];
+	});
+	return { composition: release.composition as Composition, images };
+}
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Writable } from 'stream';
+
+import { instanceOf } from '../../errors';
+import { mapWithConcurrency } from '../helpers';
+import type { SshRemoteCommandOpts } from '../ssh';
+import { getServiceColourFn } from './logs';
+
+/** A device to run a command on, either a cloud device or a local device */
+export interface SshTarget {
+	/** Name used to prefix output lines, e.g. the device name or address */
+	name: string;
+	/** Device UUID, for devices reached through the balenaCloud ssh gateway */
+	uuid?: string;
+	/** IP or .local address, for local devices */
+	address?: string;
+}
+
+export interface SshFanOutOptions {
+	/** Shell command to run on the host OS or service container */
+	command: string;
+	/** Service name, to run the command in the service container */
+	service?: string;
+	/** Maximum number of devices to run the command on at the same time */
+	concurrency: number;
+	/** SSH server port for local devices, or gateway port for cloud devices */
+	port?: number;
+	/** The balenaCloud ssh gateway, for targets with a UUID */
+	cloud?: Pick<SshRemoteCommandOpts, 'hostname' | 'username' | 'proxyCommand'>;
+	/** Print the output lines of each device as they arrive, with a prefix */
+	printOutput: boolean;
+	verbose?: boolean;
+}
+
+export interface SshFanOutResult {
+	target: string;
+	uuid?: string;
+	address?: string;
+	/** Exit code of the command, or null if it could not be run */
+	exitCode: number | null;
+	/** Error message if the command could not be run */
+	error?: string;
+	stdout: string;
+	stderr: string;
+}
+
+/**
+ * Error messages printed by the ssh client when it fails to run a command,
+ * e.g. 'ssh: connect to host 192.168.0.10 port 22222: Connection refused'
+ */
+const SSH_CLIENT_ERROR_REGEX =
+	/^(ssh: |kex_exchange_identification: |ssh_exchange_identification: |Connection (closed|reset|timed out) |Host key verification failed|Received disconnect from )|: Permission denied \(/m;
+
+/**
+ * Whether ssh failed to run a command, given its exit code and stderr
+ * output: ssh exits with code 255 on connection errors, but so it does if
+ * the remote command itself exits with code 255, in which case ssh does not
+ * print an error message of its own.
+ */
+export function isSshClientError(exitCode: number | undefined, stderr: string) {
+	return exitCode === 255 && SSH_CLIENT_ERROR_REGEX.test(stderr);
+}
+
+/**
+ * A writable stream that collects the text written to it and, optionally,
+ * passes each complete line to the given function.
+ */
+export class LineCollector extends Writable {
+	public text = '';
+	private partial = '';
+
+	constructor(private onLine?: (line: string) => void) {
+		super();
+	}
+
+	public _write(
+		chunk: Buffer,
+		_encoding: string,
+		callback: (error?: Error | null) => void,
+	) {
+		const data = chunk.toString();
+		this.text += data;
+		if (this.onLine != null) {
+			const lines = (this.partial + data).split('\n');
+			this.partial = lines.pop()!;
+			for (const line of lines) {
+				this.onLine(line.replace(/\r$/, ''));
+			}
+		}
+		callback();
+	}
+
+	public _final(callback: (error?: Error | null) => void) {
+		if (this.partial && this.onLine != null) {
+			this.onLine(this.partial.replace(/\r$/, ''));
+		}
+		this.partial = '';
+		callback();
+	}
+}
+
+/**
+ * The remote command that runs the given shell command in a container,
+ * through the device's container engine.
+ */
+export async function getContainerCommand(
+	containerId: string,
+	command: string,
+): Promise<string> {
+	const { deviceContainerEngineBinary } = await import('./ssh');
+	const shellEscape: typeof import('shell-escape') = require('shell-escape');
+	return `"${deviceContainerEngineBinary}" exec ${containerId} /bin/sh -c ${shellEscape([command])}`;
+}
+
+async function runOnTarget(
+	target: SshTarget,
+	opts: SshFanOutOptions,
+): Promise<SshFanOutResult> {
+	const { getContainerIdForService } = await import('./ssh');
+	const { findBestUsernameForDevice, RemoteCommandError, runRemoteCommand } =
+		await import('../ssh');
+	const prefix = getServiceColourFn(target.name)(`[${target.name}]`);
+	const print = (stream: NodeJS.WriteStream) =>
+		opts.printOutput
+			? (line: string) => stream.write(`${prefix} ${line}\n`)
+			: undefined;
+	const stdout = new LineCollector(print(process.stdout));
+	const stderr = new LineCollector(print(process.stderr));
+	const result: SshFanOutResult = {
+		target: target.name,
+		uuid: target.uuid,
+		address: target.address,
+		exitCode: null,
+		stdout: '',
+		stderr: '',
+	};
+
+	try {
+		let sshOpts: SshRemoteCommandOpts;
+		if (target.address != null) {
+			const port = opts.port ?? 'local';
+			sshOpts = {
+				hostname: target.address,
+				port,
+				username: await findBestUsernameForDevice(target.address, port),
+			};
+		} else {
+			sshOpts = { ...opts.cloud!, port: opts.port ?? 'cloud' };
+		}
+		let cmd = opts.command;
+		if (opts.service != null) {
+			const containerId = await getContainerIdForService({
+				...sshOpts,
+				deviceUuid: target.uuid,
+				service: opts.service,
+			});
+			cmd = await getContainerCommand(containerId, cmd);
+		}
+		if (target.uuid != null) {
+			cmd = `host ${target.uuid} ${cmd}`;
+		}
+		await runRemoteCommand({
+			...sshOpts,
+			cmd,
+			stdin: 'ignore',
+			stdout,
+			stderr,
+			verbose: opts.verbose,
+		});
+		result.exitCode = 0;
+	} catch (err) {
+		if (
+			instanceOf(err, RemoteCommandError) &&
+			!isSshClientError(err.exitCode, stderr.text)
+		) {
+			result.exitCode = err.exitCode ?? null;
+		}
+		if (result.exitCode == null) {
+			result.error = err.message;
+		}
+	} finally {
+		// The streams are ended by runRemoteCommand, unless ssh failed to start
+		for (const stream of [stdout, stderr]) {
+			if (!stream.writableEnded) {
+				stream.end();
+			}
+		}
+	}
+	result.stdout = stdout.text;
+	result.stderr = stderr.text;
+	return result;
+}
+
+/**
+ * Run a non-interactive command on the host OS or a service container of
+ * each of the given devices, in parallel up to the concurrency limit.
+ * Errors are reported in the results rather than thrown.
+ */
+export async function runOnTargets(
+	targets: SshTarget[],
+	opts: SshFanOutOptions,
+): Promise<SshFanOutResult[]> {
+	return await mapWithConcurrency(targets, opts.concurrency, (target) =>
+		runOnTarget(target, opts),
+	);
+}
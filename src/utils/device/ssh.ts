@@ -29,7 +29,7 @@ export interface DeviceSSHOpts extends SshRemoteCommandOpts {
 	service?: string;
 }
 
-const deviceContainerEngineBinary = `$(if [ -f /usr/bin/balena ]; then echo "balena"; else echo "docker"; fi)`;
+export const deviceContainerEngineBinary = `$(if [ -f /usr/bin/balena ]; then echo "balena"; else echo "docker"; fi)`;
 
 /**
  * List the running containers on the device over ssh, and return the full
@@ -1,8 +1,12 @@
 import Bonjour from 'bonjour-service';
 import type { Service } from 'bonjour-service';
+import * as _ from 'lodash';
+import { connect, isIPv4 as isIPv4Address } from 'net';
 import * as os from 'os';
 
-interface LocalBalenaOsDevice {
+import { ExpectedError } from '../errors';
+
+export interface LocalBalenaOsDevice {
 	address: string;
 	host: string;
 	osVariant?: string;
@@ -17,27 +21,126 @@ const avahiBalenaSshConfig = {
 
 const avahiBalenaSshSubtype = 'resin-device';
 
+/**
+ * Options of the multicast-dns module, which the Bonjour constructor passes
+ * its options on to (although bonjour-service types them as a ServiceConfig,
+ * see https://github.com/onlxltd/bonjour-service/issues/10)
+ */
+interface MulticastDnsOptions {
+	type?: 'udp4' | 'udp6';
+	/** Multicast group address */
+	ip?: string;
+	/** Network interface to send and receive multicast packets on */
+	interface: string;
+	bind: string;
+}
+
+const SUPERVISOR_PORT = 48484;
+const SSH_PORT = 22222;
+const ENGINE_PORT = 2375;
+
+/** Number of addresses probed at the same time when scanning a subnet */
+const PROBE_CONCURRENCY = 64;
+const PROBE_TIMEOUT_MS = 1000;
+/** Subnets larger than /16 (65536 addresses) would take too long to scan */
+const MIN_SUBNET_PREFIX = 16;
+
+/** Information about a local device, from its supervisor API */
+export interface SupervisorInfo {
+	/** Whether the supervisor API is reachable (e.g. not a production image) */
+	supervisorReachable: boolean;
+	/** Whether the supervisor answers unauthenticated requests (local mode) */
+	localMode?: boolean;
+	deviceType?: string;
+	arch?: string;
+	osVersion?: string;
+	supervisorVersion?: string;
+}
+
+/**
+ * Keeps track of the devices found by successive discoveries, to report the
+ * devices that appear or disappear. A device disappears after it was missed
+ * by `maxMissed` discoveries in a row, as mDNS responses can be lost.
+ */
+export class LocalDeviceTracker {
+	private devices = new Map<
+		string,
+		{ device: LocalBalenaOsDevice; missed: number }
+	>();
+
+	constructor(private maxMissed = 2) {}
+
+	public update(found: LocalBalenaOsDevice[]): {
+		appeared: LocalBalenaOsDevice[];
+		disappeared: LocalBalenaOsDevice[];
+	} {
+		const appeared: LocalBalenaOsDevice[] = [];
+		const disappeared: LocalBalenaOsDevice[] = [];
+		const foundKeys = new Set<string>();
+		for (const device of found) {
+			const key = `${device.host} ${device.address}`;
+			foundKeys.add(key);
+			if (!this.devices.has(key)) {
+				appeared.push(device);
+			}
+			this.devices.set(key, { device, missed: 0 });
+		}
+		for (const [key, entry] of this.devices) {
+			if (!foundKeys.has(key) && ++entry.missed >= this.maxMissed) {
+				this.devices.delete(key);
+				disappeared.push(entry.device);
+			}
+		}
+		return { appeared, disappeared };
+	}
+}
+
+/**
+ * Find the balenaOS devices on the local network through mDNS, over IPv4 and
+ * IPv6, and optionally by probing the addresses of the given subnets (e.g.
+ * '10.0.0.0/24') for networks where multicast is blocked. Devices found by
+ * both mDNS and a subnet probe are listed once, with their mDNS host name.
+ */
 export async function discoverLocalBalenaOsDevices(
 	timeout = 4000,
+	subnets: string[] = [],
+): Promise<LocalBalenaOsDevice[]> {
+	// parse the subnets first, to report invalid subnets without waiting
+	const subnetAddresses = subnets.map(parseSubnet);
+	const [mdnsDevices, ...subnetDevices] = await Promise.all([
+		discoverMdnsDevices(timeout),
+		...subnetAddresses.map(probeAddresses),
+	]);
+	return _.uniqBy([...mdnsDevices, ...subnetDevices.flat()], 'address');
+}
+
+async function discoverMdnsDevices(
+	timeout: number,
 ): Promise<LocalBalenaOsDevice[]> {
 	// search over all network interfaces
 	const networks = os.networkInterfaces();
-	const validNics: os.NetworkInterfaceInfo[] = [];
+	const searches: Array<Promise<Service[]>> = [];
 	for (const networkName of Object.keys(networks)) {
-		for (const iface of networks[networkName]!) {
-			if (isIPv4(iface.family) && !iface.internal) {
-				validNics.push(iface);
-			}
+		const nics = networks[networkName]!.filter((iface) => !iface.internal);
+		for (const iface of nics.filter((i) => isIPv4(i.family))) {
+			searches.push(searchBalenaDevicesOnInterface(iface, timeout));
+		}
+		// IPv6 multicast is bound to an interface rather than to an address,
+		// so a single search is needed per interface
+		const ipv6Iface = nics.find((i) => isIPv6(i.family));
+		if (ipv6Iface != null) {
+			searches.push(
+				searchBalenaDevicesOnInterface(ipv6Iface, timeout, networkName),
+			);
 		}
 	}
+	const allServices = await Promise.all(searches);
 
-	const allServices = await Promise.all(
-		validNics.map((iface) => searchBalenaDevicesOnInterface(iface, timeout)),
-	);
-
-	// dedupe services in case the same device is found on multiple interfaces
-	const services = Array.from(
-		new Map(allServices.flat().map((item) => [item.fqdn, item])).values(),
+	// dedupe services in case the same device is found on multiple interfaces,
+	// preferring the services found over IPv4
+	const services = _.uniqBy(
+		_.sortBy(allServices.flat(), (s) => s.referer?.family === 'IPv6'),
+		'fqdn',
 	);
 
 	return services
@@ -45,31 +148,58 @@ export async function discoverLocalBalenaOsDevices(
 			({ subtypes, referer }) =>
 				subtypes?.includes(avahiBalenaSshSubtype) && referer != null,
 		)
-		.map(({ referer, host, port }) => ({
-			// We ensure referer is not null on the filter above
-			address: referer!.address,
+		.map(({ referer, addresses, host, port }) => ({
+			// Devices found over IPv6 usually advertise an IPv4 address as well
+			address:
+				referer!.family === 'IPv6'
+					? addresses?.find((a) => isIPv4Address(a)) ?? referer!.address
+					: referer!.address,
 			host,
 			port,
 		}));
 }
 
+/**
+ * Search for balenaOS devices on a network interface. If `ipv6Interface`
+ * (the network interface name) is given, the search is made over IPv6.
+ */
 async function searchBalenaDevicesOnInterface(
 	iface: os.NetworkInterfaceInfo,
 	timeout: number,
+	ipv6Interface?: string,
 ): Promise<Service[]> {
+	const mdnsOptions: MulticastDnsOptions =
+		ipv6Interface == null
+			? {
+					interface: iface.address,
+					// binds to receive from any incoming interface
+					// see: https://github.com/mafintosh/multicast-dns/issues/53#issuecomment-638365104
+					bind: '0.0.0.0',
+				}
+			: {
+					type: 'udp6',
+					ip: 'ff02::fb',
+					// Windows identifies interfaces by their scope ID
+					interface: `::%${
+						process.platform === 'win32' ? iface.scopeid : ipv6Interface
+					}`,
+					bind: '::',
+				};
 	return await new Promise<Service[]>((resolve) => {
-		const bonjour = new Bonjour(
-			{
-				// @ts-expect-error bonjour-service types are incorrect https://github.com/onlxltd/bonjour-service/issues/10
-				interface: iface.address,
-				// binds to receive from any incoming interface
-				// see: https://github.com/mafintosh/multicast-dns/issues/53#issuecomment-638365104
-				bind: '0.0.0.0',
-			},
-			async (err: string | Error) => {
-				await (await import('../errors')).handleError(err);
-			},
-		);
+		const bonjour = new Bonjour(mdnsOptions, async (err: string | Error) => {
+			if (ipv6Interface != null) {
+				// IPv6 multicast is often unavailable: rely on the IPv4 search
+				return;
+			}
+			const { handleError } = await import('../errors');
+			const code = (err as NodeJS.ErrnoException).code;
+			if (code === 'EACCES' || code === 'EPERM') {
+				err = new ExpectedError(
+					`Permission denied listening for mDNS (multicast DNS) responses on this network interface (${iface.address}). Try running this command with administrator privileges (e.g. sudo).`,
+				);
+			}
+			await handleError(err);
+		});
 		const resinSshServices: Service[] = [];
 		const browser = bonjour.find(avahiBalenaSshConfig, (service) =>
 			resinSshServices.push(service),
@@ -85,3 +215,136 @@ async function searchBalenaDevicesOnInterface(
 function isIPv4(family: string | number) {
 	return family === 4 || family === 'IPv4';
 }
+
+function isIPv6(family: string | number) {
+	return family === 6 || family === 'IPv6';
+}
+
+const ipv4ToNumber = (address: string) =>
+	address.split('.').reduce((n, part) => n * 256 + parseInt(part, 10), 0);
+
+const numberToIPv4 = (n: number) =>
+	[3, 2, 1, 0].map((i) => Math.floor(n / Math.pow(256, i)) % 256).join('.');
+
+/**
+ * List the host addresses of an IPv4 subnet in CIDR notation, e.g.
+ * '10.0.0.0/24' (excluding the network and broadcast addresses of subnets
+ * with more than 2 addresses). Subnets larger than /16 are rejected.
+ */
+export function parseSubnet(subnet: string): string[] {
+	const match = /^([0-9.]+)\/(\d{1,2})$/.exec(subnet.trim());
+	const prefix = match != null ? parseInt(match[2], 10) : NaN;
+	if (match == null || !isIPv4Address(match[1]) || !(prefix <= 32)) {
+		throw new ExpectedError(
+			`Invalid subnet "${subnet}": expected an IPv4 subnet like 10.0.0.0/24`,
+		);
+	}
+	if (prefix < MIN_SUBNET_PREFIX) {
+		throw new ExpectedError(
+			`Subnet "${subnet}" is too large: the prefix length must be at least ${MIN_SUBNET_PREFIX}`,
+		);
+	}
+	const size = Math.pow(2, 32 - prefix);
+	const network = Math.floor(ipv4ToNumber(match[1]) / size) * size;
+	const [first, last] =
+		size > 2
+			? [network + 1, network + size - 2]
+			: [network, network + size - 1];
+	return _.range(first, last + 1).map(numberToIPv4);
+}
+
+/** Whether a TCP connection to the given address and port can be opened */
+async function isPortOpen(address: string, port: number): Promise<boolean> {
+	return await new Promise((resolve) => {
+		const socket = connect({ host: address, port });
+		const done = (open: boolean) => {
+			socket.destroy();
+			resolve(open);
+		};
+		socket.setTimeout(PROBE_TIMEOUT_MS, () => {
+			done(false);
+		});
+		socket.once('connect', () => {
+			done(true);
+		});
+		socket.once('error', () => {
+			done(false);
+		});
+	});
+}
+
+/**
+ * Probe the given addresses for the supervisor API, SSH server and
+ * balenaEngine ports of balenaOS devices, a limited number of addresses at a
+ * time. Addresses with the supervisor API or SSH server port open are
+ * reported as devices (an open balenaEngine port alone could be any Docker
+ * host).
+ */
+async function probeAddresses(
+	addresses: string[],
+): Promise<LocalBalenaOsDevice[]> {
+	const { mapWithConcurrency } = await import('./helpers');
+	const results = await mapWithConcurrency(
+		addresses,
+		PROBE_CONCURRENCY,
+		async (address) => {
+			const [supervisor, ssh, engine] = await Promise.all(
+				[SUPERVISOR_PORT, SSH_PORT, ENGINE_PORT].map((port) =>
+					isPortOpen(address, port),
+				),
+			);
+			return supervisor || ssh
+				? {
+						address,
+						host: address,
+						port: SSH_PORT,
+						// balenaEngine is only exposed by development images
+						osVariant: engine ? 'development' : 'production',
+					}
+				: undefined;
+		},
+	);
+	return _.compact(results);
+}
+
+/**
+ * Query the supervisor API of a local device for its device type, OS
+ * version, supervisor version and whether it is in local mode. The
+ * supervisor API is not reachable on production images, and requires
+ * authentication unless the device is in local mode, in which case only
+ * `supervisorReachable` (and `localMode`) are set.
+ */
+export async function querySupervisor(
+	address: string,
+	timeout = 2000,
+): Promise<SupervisorInfo> {
+	const { DeviceAPI } = await import('./device/api');
+	const Logger = await import('./logger');
+	const api = new DeviceAPI(Logger.getLogger(), address, undefined, {
+		timeout,
+		maxAttempts: 1,
+	});
+	try {
+		await api.ping();
+	} catch {
+		return { supervisorReachable: false };
+	}
+	let deviceInfo;
+	try {
+		deviceInfo = await api.getDeviceInformation();
+	} catch {
+		return { supervisorReachable: true, localMode: false };
+	}
+	const [supervisorVersion, details] = await Promise.all([
+		api.getVersion().catch(() => undefined),
+		api.getDeviceDetails().catch(() => undefined),
+	]);
+	return {
+		supervisorReachable: true,
+		localMode: true,
+		deviceType: deviceInfo?.deviceType,
+		arch: deviceInfo?.arch,
+		osVersion: details?.os_version ?? undefined,
+		supervisorVersion: supervisorVersion ?? details?.supervisor_version,
+	};
+}
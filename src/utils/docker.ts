@@ -174,6 +174,33 @@ export async function isBalenaEngine(docker: dockerode): Promise<boolean> {
 	);
 }
 
+/** A line of the JSON output of the Docker API's "load image" endpoint */
+export interface LoadImageOutputLine {
+	stream?: string;
+	error?: string;
+}
+
+/**
+ * Load an image tar stream (as created by `docker save`) into the Docker
+ * daemon, returning the output lines of the daemon. Loading errors are
+ * reported in the `error` property of an output line.
+ */
+export async function loadImage(
+	docker: dockerode,
+	image: NodeJS.ReadableStream,
+): Promise<LoadImageOutputLine[]> {
+	const streamToPromise =
+		require('stream-to-promise') as typeof import('stream-to-promise');
+	const output = await streamToPromise(
+		(await docker.loadImage(image)) as NodeJS.ReadStream,
+	);
+	return output
+		.toString()
+		.split('\n')
+		.filter((line) => line.trim())
+		.map((line): LoadImageOutputLine => JSON.parse(line));
+}
+
 export async function getDocker(
 	options: DockerConnectionCliFlags,
 ): Promise<dockerode> {
@@ -16,9 +16,12 @@
  */
 
 import { Flags } from '@oclif/core';
-import { stripIndent } from './lazy';
+import type * as BalenaSdk from 'balena-sdk';
+import { getVisuals, stripIndent } from './lazy';
 
 import { ExpectedError } from '../errors';
+import type { SelectedDevice } from './cloud';
+import * as cf from './common-flags';
 
 export const booleanConfig = Flags.boolean({
 	char: 'c',
@@ -69,6 +72,84 @@ export const rmRenameHelp = stripIndent`
 	configuration variable.
 `;
 
+export const dryRun = Flags.boolean({
+	description:
+		'list the devices that would be affected, without making any changes',
+	default: false,
+});
+
+export const bulkHelp = stripIndent`
+	The --device-tag, --online and --os-version options select a subset of the
+	devices of the given fleet(s), or of the devices given with the --device
+	option, and operate on device-specific variables of each selected device.
+	Devices must match all the given selectors. The --dry-run option lists the
+	devices that would be affected without making any changes. When operating
+	on multiple devices, a summary of the result for each device is printed.
+`;
+
+export const rmRenameBulkHelp = stripIndent`
+	Alternatively, device-specific variables can be selected by NAME (instead of
+	database ID) across multiple devices of a fleet, using the --fleet option
+	optionally combined with the --device-tag, --online and --os-version device
+	selectors. Devices that do not have a device-specific value for the variable
+	are skipped. The --dry-run option lists the devices that would be affected
+	without making any changes, and a summary of the result for each device is
+	printed otherwise. Device service variables cannot be selected in this way.
+`;
+
+export const bulkFlags = {
+	fleet: {
+		...cf.fleet,
+		description: 'select the devices of a fleet (fleet name or slug)',
+	},
+	'device-tag': cf.deviceTag,
+	online: cf.online,
+	'os-version': cf.osVersion,
+	'dry-run': dryRun,
+};
+
+/**
+ * If the --fleet option or device selectors were used with the 'env rm' or
+ * 'env rename' commands, return the selected devices. Otherwise, return
+ * undefined.
+ */
+export async function getBulkSelectedDevices(
+	sdk: BalenaSdk.BalenaSDK,
+	options: {
+		fleet?: string;
+		'device-tag'?: string[];
+		online: boolean;
+		'os-version'?: string;
+		'dry-run': boolean;
+		service: boolean;
+	},
+): Promise<SelectedDevice[] | undefined> {
+	const { hasDeviceFilters, selectDevices } = await import('./cloud');
+	const selector = {
+		tags: options['device-tag'],
+		online: options.online,
+		osVersion: options['os-version'],
+	};
+	if (!options.fleet) {
+		if (hasDeviceFilters(selector) || options['dry-run']) {
+			throw new ExpectedError(
+				'The --fleet option is required when selecting devices by name',
+			);
+		}
+		return;
+	}
+	if (options.service) {
+		throw new ExpectedError(
+			'Device service variables cannot be selected by name with the --fleet option',
+		);
+	}
+	const { getFleetSlug } = await import('./sdk');
+	return await selectDevices(sdk, {
+		...selector,
+		fleet: await getFleetSlug(sdk, options.fleet),
+	});
+}
+
 /**
  * Return an API database resource name like 'device_config_variable' or
  * 'service_environment_variable' given three boolean arguments.
@@ -104,3 +185,92 @@ export function parseDbId(id: string): number {
 	}
 	return Number(id);
 }
+
+/**
+ * Return an array of variable name prefixes like: [ 'RESIN_', 'BALENA_' ].
+ * These prefixes can be used to identify "configuration variables".
+ */
+export async function getReservedPrefixes(
+	balena: BalenaSdk.BalenaSDK,
+): Promise<string[]> {
+	const settings = await balena.settings.getAll();
+	const response = await balena.request.send({
+		baseUrl: settings.apiUrl,
+		url: '/config/vars',
+	});
+
+	return response.body.reservedNamespaces;
+}
+
+/**
+ * Return true if the variable name starts with a reserved configuration
+ * variable prefix, or if isConfig (e.g. the --config option) is true.
+ */
+export async function isConfigVarName(
+	balena: BalenaSdk.BalenaSDK,
+	name: string,
+	isConfig = false,
+): Promise<boolean> {
+	if (isConfig) {
+		return true;
+	}
+	const reservedPrefixes = await getReservedPrefixes(balena);
+	return reservedPrefixes.some((prefix) => name.startsWith(prefix));
+}
+
+/**
+ * Run the given operation on each of the selected devices (or only list
+ * them, if dryRun is true), and print a table summarizing the result for
+ * each device. Errors are reported in the summary rather than thrown, and
+ * set the process exit code.
+ * @param devices The selected devices
+ * @param description Description of the operation, e.g. "Set FOO=bar"
+ * @param dryRun Whether to only list the devices
+ * @param operation Operation to run for each device. It may return a
+ * result message (default: 'OK')
+ */
+export async function runOnSelectedDevices(
+	devices: SelectedDevice[],
+	description: string,
+	dryRun: boolean,
+	operation: (device: SelectedDevice) => Promise<string | void>,
+) {
+	if (devices.length === 0) {
+		throw new ExpectedError('No devices match the given selectors');
+	}
+	const visuals = getVisuals();
+	if (dryRun) {
+		console.log(
+			`${description} on ${devices.length} device(s) (dry run, no changes made):`,
+		);
+		console.log(
+			visuals.table.horizontal(devices, [
+				'uuid',
+				'device_name',
+				'is_online',
+				'os_version',
+			]),
+		);
+		return;
+	}
+	console.log(`${description} on ${devices.length} device(s)`);
+	const results: Array<{ uuid: string; device_name: string; result: string }> =
+		[];
+	for (const device of devices) {
+		let result: string;
+		try {
+			result = (await operation(device)) || 'OK';
+		} catch (err) {
+			result = `Error: ${err.message}`;
+			process.exitCode = 1;
+		}
+		results.push({
+			uuid: device.uuid,
+			device_name: device.device_name,
+			result,
+		});
+	}
+	console.log(
+		visuals.table.horizontal(results, ['uuid', 'device_name', 'result']),
+	);
+}
@@ -0,0 +1,476 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type * as SDK from 'balena-sdk';
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+
+import { ExpectedError } from '../errors';
+import { getVarResourceName } from './env-common';
+import { getChalk } from './lazy';
+
+/**
+ * The variables of a fleet or device, as declared in a manifest file:
+ *   config:   configuration variables (BALENA_* / RESIN_*)
+ *   env:      environment variables that apply to all services
+ *   services: environment variables that apply to a specific service
+ */
+export interface VarsScope {
+	config?: Dictionary<string>;
+	env?: Dictionary<string>;
+	services?: Dictionary<Dictionary<string>>;
+}
+
+export interface VarsManifest extends VarsScope {
+	fleet?: string;
+	devices?: Dictionary<VarsScope>;
+}
+
+/**
+ * A single variable, identified by its API resource name, the fleet slug
+ * or device UUID it belongs to and (for service variables) the service name.
+ */
+export interface VarRecord {
+	resource: string;
+	target: string;
+	serviceName?: string;
+	name: string;
+	value: string;
+	id?: number; // database ID of an existing variable
+}
+
+export interface VarChange {
+	action: 'add' | 'update' | 'remove';
+	desired?: VarRecord;
+	current?: VarRecord;
+}
+
+/**
+ * Read and validate a YAML or JSON variables manifest file.
+ * Numeric and boolean values are converted to strings.
+ */
+export async function loadVarsManifest(
+	filePath: string,
+): Promise<VarsManifest> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(filePath, 'utf8');
+	} catch (err) {
+		if (err.code === 'ENOENT') {
+			throw new ExpectedError(`File not found: "${filePath}"`);
+		}
+		throw err;
+	}
+	let parsed: unknown;
+	try {
+		// YAML is a superset of JSON, so the YAML parser handles both formats
+		const yaml = await import('js-yaml');
+		parsed = yaml.load(raw);
+	} catch (err) {
+		throw new ExpectedError(
+			`Error parsing file "${filePath}":\n${err.message}`,
+		);
+	}
+	return validateVarsManifest(parsed, filePath);
+}
+
+export function validateVarsManifest(
+	parsed: unknown,
+	filePath = 'manifest',
+): VarsManifest {
+	const fail = (msg: string): never => {
+		throw new ExpectedError(`Invalid variables manifest "${filePath}": ${msg}`);
+	};
+	if (!_.isPlainObject(parsed)) {
+		return fail('expected an object at the top level');
+	}
+	const obj = parsed as Dictionary<unknown>;
+	const manifest: VarsManifest = {};
+	if (obj.fleet != null) {
+		if (typeof obj.fleet !== 'string') {
+			return fail('"fleet" must be a string');
+		}
+		manifest.fleet = obj.fleet;
+	}
+	Object.assign(manifest, validateScope(obj, '', fail));
+	if (obj.devices != null) {
+		if (!_.isPlainObject(obj.devices)) {
+			return fail('"devices" must be a mapping of device UUIDs');
+		}
+		manifest.devices = _.mapValues(
+			obj.devices as Dictionary<unknown>,
+			(scope, uuid) => {
+				if (scope == null) {
+					return {};
+				}
+				if (!_.isPlainObject(scope)) {
+					return fail(`"devices.${uuid}" must be an object`);
+				}
+				return validateScope(
+					scope as Dictionary<unknown>,
+					`devices.${uuid}.`,
+					fail,
+				);
+			},
+		);
+	}
+	const unknownKeys = _.difference(Object.keys(obj), [
+		'fleet',
+		'config',
+		'env',
+		'services',
+		'devices',
+	]);
+	if (unknownKeys.length > 0) {
+		return fail(`unknown key(s): ${unknownKeys.join(', ')}`);
+	}
+	return manifest;
+}
+
+function validateScope(
+	obj: Dictionary<unknown>,
+	prefix: string,
+	fail: (msg: string) => never,
+): VarsScope {
+	const scope: VarsScope = {};
+	for (const key of ['config', 'env'] as const) {
+		if (obj[key] != null) {
+			scope[key] = validateVarMap(obj[key], `${prefix}${key}`, fail);
+		}
+	}
+	if (obj.services != null) {
+		if (!_.isPlainObject(obj.services)) {
+			return fail(`"${prefix}services" must be a mapping of service names`);
+		}
+		scope.services = _.mapValues(
+			obj.services as Dictionary<unknown>,
+			(vars, serviceName) =>
+				vars == null
+					? {}
+					: validateVarMap(vars, `${prefix}services.${serviceName}`, fail),
+		);
+	}
+	return scope;
+}
+
+function validateVarMap(
+	vars: unknown,
+	path: string,
+	fail: (msg: string) => never,
+): Dictionary<string> {
+	if (!_.isPlainObject(vars)) {
+		return fail(`"${path}" must be a mapping of variable names to values`);
+	}
+	return _.mapValues(vars as Dictionary<unknown>, (value, name) => {
+		if (
+			typeof value !== 'string' &&
+			typeof value !== 'number' &&
+			typeof value !== 'boolean'
+		) {
+			return fail(`"${path}.${name}" must be a string, number or boolean`);
+		}
+		return String(value);
+	});
+}
+
+/**
+ * Flatten a manifest into a list of VarRecord objects covering the six
+ * variable resource types (fleet/device x config/env/service).
+ * @param fleetSlug The slug of the fleet the manifest applies to
+ * @param deviceUuids Mapping of manifest device keys to full device UUIDs
+ */
+export function getDesiredVars(
+	manifest: VarsManifest,
+	fleetSlug: string,
+	deviceUuids: Dictionary<string> = {},
+): VarRecord[] {
+	const records: VarRecord[] = [];
+	const addScope = (scope: VarsScope, target: string, isDevice: boolean) => {
+		for (const [name, value] of Object.entries(scope.config ?? {})) {
+			records.push({
+				resource: getVarResourceName(true, isDevice, false),
+				target,
+				name,
+				value,
+			});
+		}
+		for (const [name, value] of Object.entries(scope.env ?? {})) {
+			records.push({
+				resource: getVarResourceName(false, isDevice, false),
+				target,
+				name,
+				value,
+			});
+		}
+		for (const [serviceName, vars] of Object.entries(scope.services ?? {})) {
+			for (const [name, value] of Object.entries(vars)) {
+				records.push({
+					resource: getVarResourceName(false, isDevice, true),
+					target,
+					serviceName,
+					name,
+					value,
+				});
+			}
+		}
+	};
+	addScope(manifest, fleetSlug, false);
+	for (const [key, scope] of Object.entries(manifest.devices ?? {})) {
+		addScope(scope, deviceUuids[key] ?? key, true);
+	}
+	return records;
+}
+
+const varKey = (v: VarRecord) =>
+	[v.resource, v.target, v.serviceName ?? '', v.name].join('\u0000');
+
+/**
+ * Compare the desired variables against the current ones and return the
+ * list of changes needed to reconcile them. Variables that exist but are
+ * not desired are only removed if `prune` is true.
+ */
+export function diffVars(
+	desired: VarRecord[],
+	current: VarRecord[],
+	prune: boolean,
+): VarChange[] {
+	const changes: VarChange[] = [];
+	const currentByKey = _.keyBy(current, varKey);
+	const desiredByKey = _.keyBy(desired, varKey);
+	for (const d of desired) {
+		const c = currentByKey[varKey(d)];
+		if (c == null) {
+			changes.push({ action: 'add', desired: d });
+		} else if (c.value !== d.value) {
+			changes.push({ action: 'update', desired: d, current: c });
+		}
+	}
+	if (prune) {
+		for (const c of current) {
+			if (desiredByKey[varKey(c)] == null) {
+				changes.push({ action: 'remove', current: c });
+			}
+		}
+	}
+	return _.sortBy(
+		changes,
+		(c) => scopeLabel((c.desired ?? c.current)!),
+		(c) => (c.desired ?? c.current)!.name,
+	);
+}
+
+/**
+ * Return a human-readable description of the scope of a variable, e.g.
+ * "device 7cf02a6, service main (env)".
+ */
+export function scopeLabel(v: VarRecord): string {
+	const isDevice = v.resource.startsWith('device_');
+	const kind = v.resource.includes('config') ? 'config' : 'env';
+	const target = isDevice
+		? `device ${v.target.substring(0, 7)}`
+		: `fleet ${v.target}`;
+	const service = v.serviceName ? `, service ${v.serviceName}` : '';
+	return `${target}${service} (${kind})`;
+}
+
+/**
+ * Format a list of changes as a human-readable diff, grouped by scope.
+ */
+export function formatVarChanges(changes: VarChange[]): string {
+	const chalk = getChalk();
+	const lines: string[] = [];
+	const groups = _.groupBy(changes, (c) =>
+		scopeLabel((c.desired ?? c.current)!),
+	);
+	for (const [label, group] of Object.entries(groups)) {
+		lines.push(chalk.bold(label));
+		for (const change of group) {
+			switch (change.action) {
+				case 'add':
+					lines.push(
+						chalk.green(`  + ${change.desired!.name}=${change.desired!.value}`),
+					);
+					break;
+				case 'update':
+					lines.push(
+						chalk.yellow(
+							`  ~ ${change.desired!.name}=${change.desired!.value} (was: ${change.current!.value})`,
+						),
+					);
+					break;
+				case 'remove':
+					lines.push(
+						chalk.red(`  - ${change.current!.name}=${change.current!.value}`),
+					);
+					break;
+			}
+		}
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Fetch the current variables of the given fleet and devices from the API,
+ * covering the six variable resource types.
+ */
+export async function getCurrentVars(
+	sdk: SDK.BalenaSDK,
+	fleetSlug: string,
+	deviceUuids: string[],
+): Promise<VarRecord[]> {
+	const records: VarRecord[] = [];
+	const toRecords = <T extends SDK.EnvironmentVariableBase>(
+		vars: T[],
+		resource: string,
+		target: string,
+		getServiceName?: (v: T) => string | undefined,
+	) => {
+		for (const v of vars) {
+			records.push({
+				resource,
+				target,
+				serviceName: getServiceName?.(v),
+				name: v.name,
+				value: v.value,
+				id: v.id,
+			});
+		}
+	};
+
+	const app = sdk.models.application;
+	toRecords(
+		await app.configVar.getAllByApplication(fleetSlug),
+		getVarResourceName(true, false, false),
+		fleetSlug,
+	);
+	toRecords(
+		await app.envVar.getAllByApplication(fleetSlug),
+		getVarResourceName(false, false, false),
+		fleetSlug,
+	);
+	toRecords(
+		await sdk.models.service.var.getAllByApplication(fleetSlug, {
+			$expand: { service: { $select: 'service_name' } },
+		}),
+		getVarResourceName(false, false, true),
+		fleetSlug,
+		(v: SDK.ServiceEnvironmentVariable) =>
+			(v.service as SDK.Service[])[0]?.service_name,
+	);
+
+	const device = sdk.models.device;
+	for (const uuid of deviceUuids) {
+		toRecords(
+			await device.configVar.getAllByDevice(uuid),
+			getVarResourceName(true, true, false),
+			uuid,
+		);
+		toRecords(
+			await device.envVar.getAllByDevice(uuid),
+			getVarResourceName(false, true, false),
+			uuid,
+		);
+		toRecords(
+			await device.serviceVar.getAllByDevice(uuid, {
+				$expand: {
+					service_install: {
+						$expand: { installs__service: { $select: 'service_name' } },
+					},
+				},
+			}),
+			getVarResourceName(false, true, true),
+			uuid,
+			(v: SDK.DeviceServiceEnvironmentVariable) =>
+				(
+					(v.service_install as SDK.ServiceInstall[])[0]
+						?.installs__service as SDK.Service[]
+				)[0]?.service_name,
+		);
+	}
+	return records;
+}
+
+/**
+ * Apply the given changes through the API. Errors are collected rather than
+ * thrown so that one failing variable does not prevent the others from
+ * being applied. Returns the list of error messages.
+ */
+export async function applyVarChanges(
+	sdk: SDK.BalenaSDK,
+	changes: VarChange[],
+): Promise<string[]> {
+	const errors: string[] = [];
+	const serviceIds: Dictionary<number> = {};
+	const getServiceId = async (fleetSlug: string, serviceName: string) => {
+		const key = `${fleetSlug}/${serviceName}`;
+		if (serviceIds[key] == null) {
+			const [service] = await sdk.models.service.getAllByApplication(
+				fleetSlug,
+				{ $select: 'id', $filter: { service_name: serviceName } },
+			);
+			if (service == null) {
+				throw new ExpectedError(
+					`Service "${serviceName}" not found for fleet "${fleetSlug}"`,
+				);
+			}
+			serviceIds[key] = service.id;
+		}
+		return serviceIds[key];
+	};
+
+	for (const change of changes) {
+		const v = (change.desired ?? change.current)!;
+		try {
+			if (change.action === 'remove') {
+				await sdk.pine.delete({ resource: v.resource, id: v.id! });
+				continue;
+			}
+			switch (v.resource) {
+				case 'application_config_variable':
+					await sdk.models.application.configVar.set(v.target, v.name, v.value);
+					break;
+				case 'application_environment_variable':
+					await sdk.models.application.envVar.set(v.target, v.name, v.value);
+					break;
+				case 'service_environment_variable':
+					await sdk.models.service.var.set(
+						await getServiceId(v.target, v.serviceName!),
+						v.name,
+						v.value,
+					);
+					break;
+				case 'device_config_variable':
+					await sdk.models.device.configVar.set(v.target, v.name, v.value);
+					break;
+				case 'device_environment_variable':
+					await sdk.models.device.envVar.set(v.target, v.name, v.value);
+					break;
+				case 'device_service_environment_variable':
+					await sdk.models.device.serviceVar.set(
+						v.target,
+						v.serviceName!,
+						v.name,
+						v.value,
+					);
+					break;
+			}
+		} catch (err) {
+			errors.push(`${err.message}, ${scopeLabel(v)}, variable: ${v.name}`);
+		}
+	}
+	return errors;
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+	BalenaSDK,
+	LogMessage,
+	LogsOptions,
+	LogsSubscription,
+} from 'balena-sdk';
+import * as _ from 'lodash';
+
+import type { DeviceSelector, SelectedDevice } from './cloud';
+import { ExpectedError } from '../errors';
+import Logger = require('./logger');
+
+export type FleetLogHandler = (
+	device: SelectedDevice,
+	log: LogMessage,
+) => Promise<void> | void;
+
+/** Number of log lines requested when (re)subscribing to a device's logs */
+const SUBSCRIBE_COUNT = 100;
+export const DEVICE_REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * Drops log lines already seen, which are replayed by the API when
+ * resubscribing to a device's logs after a connection error.
+ */
+export class LogDeduplicator {
+	private lastTimestamp = -Infinity;
+	private lastMessages = new Set<string>();
+
+	/** Return true if the log line is new, recording it as seen */
+	public isNew(log: { timestamp: number; message: string }): boolean {
+		if (log.timestamp < this.lastTimestamp) {
+			return false;
+		}
+		if (log.timestamp > this.lastTimestamp) {
+			this.lastTimestamp = log.timestamp;
+			this.lastMessages.clear();
+		} else if (this.lastMessages.has(log.message)) {
+			return false;
+		}
+		this.lastMessages.add(log.message);
+		return true;
+	}
+}
+
+/**
+ * Fetch the log history of the devices matching the selector, calling
+ * `onLog` with the lines of all devices merged in timestamp order.
+ */
+export async function getFleetLogHistory(
+	sdk: BalenaSDK,
+	selector: DeviceSelector,
+	onLog: FleetLogHandler,
+	logsOptions?: LogsOptions,
+) {
+	const { selectDevices } = await import('./cloud');
+	const devices = await selectDevices(sdk, selector);
+	if (devices.length === 0) {
+		throw new ExpectedError('No devices match the given selection');
+	}
+	const histories = await Promise.all(
+		devices.map(async (device) =>
+			(await sdk.logs.history(device.uuid, logsOptions)).map(
+				(log) => [device, log] as const,
+			),
+		),
+	);
+	for (const [device, log] of _.sortBy(
+		histories.flat(),
+		([, log]) => log.timestamp,
+	)) {
+		await onLog(device, log);
+	}
+}
+
+/**
+ * Subscribe to the live logs of all the devices matching the selector,
+ * calling `onLog` for each log line. The device selection is refreshed
+ * periodically, subscribing to devices that join the selection (e.g. that
+ * come online or are tagged) and unsubscribing from those that leave it.
+ * A subscription that fails is dropped and renewed on the next refresh,
+ * skipping log lines already received. This function never returns (quit
+ * with CTRL-C).
+ */
+export async function tailFleetLogs(
+	sdk: BalenaSDK,
+	selector: DeviceSelector,
+	onLog: FleetLogHandler,
+	refreshIntervalMs = DEVICE_REFRESH_INTERVAL_MS,
+): Promise<never> {
+	const { selectDevices } = await import('./cloud');
+	const logger = Logger.getLogger();
+	const subscriptions = new Map<string, LogsSubscription>();
+	const deduplicators = new Map<string, LogDeduplicator>();
+
+	const subscribe = async (device: SelectedDevice) => {
+		const subscription = await sdk.logs.subscribe(device.uuid, {
+			count: SUBSCRIBE_COUNT,
+		});
+		subscriptions.set(device.uuid, subscription);
+		let deduplicator = deduplicators.get(device.uuid);
+		if (deduplicator == null) {
+			deduplicator = new LogDeduplicator();
+			deduplicators.set(device.uuid, deduplicator);
+		}
+		const handleLog = async (log: LogMessage) => {
+			try {
+				await onLog(device, log);
+			} catch (err) {
+				logger.logWarn(
+					`Failed to process a log line of device ${device.device_name}: ${err}`,
+				);
+			}
+		};
+		subscription.on('line', (log: LogMessage) => {
+			if (deduplicator.isNew(log)) {
+				void handleLog(log);
+			}
+		});
+		subscription.on('error', (err) => {
+			logger.logWarn(
+				`Lost connection to the logs of device ${device.device_name}: ${err}`,
+			);
+			subscription.unsubscribe();
+			if (subscriptions.get(device.uuid) === subscription) {
+				subscriptions.delete(device.uuid);
+			}
+		});
+	};
+
+	const refresh = async () => {
+		const devices = await selectDevices(sdk, selector);
+		const uuids = new Set(devices.map((d) => d.uuid));
+		for (const [uuid, subscription] of subscriptions) {
+			if (!uuids.has(uuid)) {
+				subscription.unsubscribe();
+				subscriptions.delete(uuid);
+				logger.logDebug(`Stopped streaming logs of device ${uuid}`);
+			}
+		}
+		for (const device of devices) {
+			if (!subscriptions.has(device.uuid)) {
+				logger.logDebug(`Streaming logs of device ${device.uuid}`);
+				await subscribe(device);
+			}
+		}
+		return devices;
+	};
+
+	const devices = await refresh();
+	if (devices.length === 0) {
+		logger.logInfo(
+			'No devices currently match the given selection, waiting for devices...',
+		);
+	}
+	// Never resolve (quit with CTRL-C)
+	return await new Promise<never>(() => {
+		let refreshing = false;
+		setInterval(() => {
+			if (refreshing) {
+				return;
+			}
+			refreshing = true;
+			refresh()
+				.catch((err) => {
+					logger.logWarn(`Failed to refresh the device selection: ${err}`);
+				})
+				.finally(() => {
+					refreshing = false;
+				});
+		}, refreshIntervalMs);
+	});
+}
@@ -271,6 +271,29 @@ export async function retry<T>({
 	return await func();
 }
 
+/**
+ * Call `fn` for each item, with at most `concurrency` calls running at the
+ * same time, and return the results in the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, items.length) }, worker),
+	);
+	return results;
+}
+
 /**
  * Return a compare(a, b) function suitable for use as the argument for the
  * sort() method of an array. That function will use the given manuallySortedArray
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { spawn } from 'child_process';
+
+import type { Log } from './device/logs';
+import Logger = require('./logger');
+
+export interface LogAlertOptions {
+	/** Log messages matching this expression trigger an alert */
+	pattern: RegExp;
+	/** Shell command run on each alert */
+	exec?: string;
+	/** URL that alerts are POSTed to, as JSON */
+	webhook?: string;
+	/**
+	 * Minimum time between alerts for the same device service, in
+	 * milliseconds. Matching lines within that time are counted, and the
+	 * count is passed to the next alert.
+	 */
+	interval: number;
+}
+
+/** The details of a log line that matched, passed to the alert actions */
+export interface LogAlert {
+	device: string;
+	service?: string;
+	message: string;
+	timestamp: string;
+	/** Number of matching lines skipped since the previous alert */
+	suppressed: number;
+}
+
+const WEBHOOK_TIMEOUT = 10000;
+
+/**
+ * Run a command and/or call a webhook when a log line matches a regular
+ * expression, at most once per interval for each device service.
+ */
+export class LogAlerter {
+	private lastAlerts = new Map<string, number>();
+	private suppressed = new Map<string, number>();
+	private logger = Logger.getLogger();
+
+	constructor(private opts: LogAlertOptions) {}
+
+	/**
+	 * Check a log line of the given device, triggering an alert if it matches.
+	 * The alert actions run in the background: failures are reported as
+	 * warnings.
+	 * @param device The device UUID or address
+	 * @returns The alert, or undefined if the line did not trigger an alert
+	 */
+	public check(
+		device: string,
+		log: Log,
+		now = Date.now(),
+	): LogAlert | undefined {
+		if (!this.opts.pattern.test(log.message)) {
+			return;
+		}
+		const key = `${device}/${log.serviceName ?? ''}`;
+		const suppressed = this.suppressed.get(key) ?? 0;
+		if (now - (this.lastAlerts.get(key) ?? -Infinity) < this.opts.interval) {
+			this.suppressed.set(key, suppressed + 1);
+			return;
+		}
+		this.lastAlerts.set(key, now);
+		this.suppressed.delete(key);
+
+		const alert: LogAlert = {
+			device,
+			service: log.serviceName,
+			message: log.message,
+			timestamp: new Date(log.timestamp ?? now).toISOString(),
+			suppressed,
+		};
+		this.logger.logDebug(
+			`Log alert for device ${device}: ${JSON.stringify(alert.message)}`,
+		);
+		if (this.opts.exec) {
+			runAlertCommand(this.opts.exec, alert).catch((err) => {
+				this.logger.logWarn(`Log alert command failed: ${err.message}`);
+			});
+		}
+		if (this.opts.webhook) {
+			postAlert(this.opts.webhook, alert).catch((err) => {
+				this.logger.logWarn(`Log alert webhook failed: ${err.message}`);
+			});
+		}
+		return alert;
+	}
+}
+
+/** The environment variables that an alert is passed to commands with */
+export function getAlertEnv(alert: LogAlert): Dictionary<string> {
+	return {
+		BALENA_DEVICE_UUID: alert.device,
+		BALENA_SERVICE: alert.service ?? '',
+		BALENA_LOG_MESSAGE: alert.message,
+		BALENA_LOG_TIMESTAMP: alert.timestamp,
+		BALENA_LOG_SUPPRESSED: `${alert.suppressed}`,
+	};
+}
+
+/**
+ * Run an alert command. Its output is written to stderr, so that it does not
+ * corrupt the logs written to stdout (e.g. as JSON).
+ */
+async function runAlertCommand(command: string, alert: LogAlert) {
+	await new Promise<void>((resolve, reject) => {
+		const ps = spawn(command, {
+			shell: true,
+			stdio: ['ignore', process.stderr, process.stderr],
+			env: { ...process.env, ...getAlertEnv(alert) },
+		});
+		ps.on('error', reject);
+		ps.on('exit', (code) => {
+			if (code) {
+				reject(new Error(`'${command}' exited with code ${code}`));
+			} else {
+				resolve();
+			}
+		});
+	});
+}
+
+async function postAlert(url: string, alert: LogAlert) {
+	const { default: got } = await import('got');
+	await got.post(url, {
+		json: alert,
+		retry: 0,
+		timeout: { request: WEBHOOK_TIMEOUT },
+	});
+}
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import { ExpectedError } from '../errors';
+import type { Log } from './device/logs';
+import { LogDeduplicator } from './fleet-logs';
+import Logger = require('./logger');
+
+/**
+ * Saved logs are written by `balena logs --save-dir <dir>` to files named
+ * '<dir>/<device>/<service>.log', one JSON SavedLog object per line. When a
+ * file reaches the size or age limit, it is renamed '<service>.1.log', and
+ * previously rotated files '<service>.<n>.log' are renamed '<service>.<n+1>.log',
+ * up to the maxFiles limit. System logs are saved as service '_system'.
+ */
+export interface SavedLog {
+	/** Milliseconds since the epoch */
+	timestamp: number;
+	deviceName?: string;
+	serviceName?: string;
+	isStdErr?: boolean;
+	message: string;
+}
+
+export interface LogRecorderOptions {
+	dir: string;
+	/** Rotate a log file when it reaches this size, in bytes */
+	maxFileSize: number;
+	/** Rotate a log file when its first line is this old, in milliseconds */
+	maxFileAge: number;
+	/** Number of rotated files kept per device service */
+	maxFiles: number;
+}
+
+const SYSTEM_LOGS = '_system';
+
+const toFileName = (name: string) => name.replace(/[^\w.-]/g, '_');
+
+/** Read a saved log file, skipping lines that cannot be parsed */
+export async function readSavedLogFile(file: string): Promise<SavedLog[]> {
+	const contents = await fs.readFile(file, 'utf8');
+	const logs: SavedLog[] = [];
+	for (const line of contents.split('\n')) {
+		if (line.trim()) {
+			try {
+				logs.push(JSON.parse(line));
+			} catch {
+				// a line truncated by an interrupted write
+			}
+		}
+	}
+	return logs;
+}
+
+/** The current and rotated log files of a device service */
+class LogFile {
+	private size = 0;
+	/** Timestamp of the first line of the current file */
+	private startTime?: number;
+	private deduplicator = new LogDeduplicator();
+	private queue: Promise<void>;
+
+	constructor(
+		public readonly basePath: string,
+		private opts: LogRecorderOptions,
+	) {
+		this.queue = this.init();
+	}
+
+	public get path() {
+		return `${this.basePath}.log`;
+	}
+
+	private rotatedPath(n: number) {
+		return `${this.basePath}.${n}.log`;
+	}
+
+	/**
+	 * Pick up an existing log file, so that lines saved by a previous run are
+	 * not saved again (the API and the supervisor replay recent lines)
+	 */
+	private async init() {
+		await fs.mkdir(path.dirname(this.basePath), { recursive: true });
+		for (const file of [this.path, this.rotatedPath(1)]) {
+			let logs: SavedLog[];
+			try {
+				logs = await readSavedLogFile(file);
+			} catch (err) {
+				if (err.code === 'ENOENT') {
+					continue;
+				}
+				throw err;
+			}
+			if (logs.length > 0) {
+				this.deduplicator.isNew(logs[logs.length - 1]);
+			}
+			if (file === this.path) {
+				this.size = (await fs.stat(file)).size;
+				this.startTime = logs[0]?.timestamp;
+			}
+			break;
+		}
+	}
+
+	/** Append a log line, unless it was already saved */
+	public write(log: SavedLog): Promise<void> {
+		const result = this.queue.then(() => this.append(log));
+		this.queue = result.catch(_.noop);
+		return result;
+	}
+
+	private async append(log: SavedLog) {
+		if (!this.deduplicator.isNew(log)) {
+			return;
+		}
+		if (
+			this.size >= this.opts.maxFileSize ||
+			(this.startTime != null &&
+				log.timestamp - this.startTime >= this.opts.maxFileAge)
+		) {
+			await this.rotate();
+		}
+		const line = JSON.stringify(log) + '\n';
+		await fs.appendFile(this.path, line);
+		this.size += Buffer.byteLength(line);
+		this.startTime ??= log.timestamp;
+	}
+
+	private async rotate() {
+		await fs.rm(this.rotatedPath(this.opts.maxFiles), { force: true });
+		for (let n = this.opts.maxFiles - 1; n >= 1; n--) {
+			await fs
+				.rename(this.rotatedPath(n), this.rotatedPath(n + 1))
+				.catch((err) => {
+					if (err.code !== 'ENOENT') {
+						throw err;
+					}
+				});
+		}
+		await fs.rename(this.path, this.rotatedPath(1));
+		this.size = 0;
+		this.startTime = undefined;
+	}
+}
+
+/**
+ * Save device logs to rotating per-device, per-service files, dropping
+ * lines already saved (e.g. replayed after reconnecting to a device).
+ */
+export class LogRecorder {
+	private files = new Map<string, LogFile>();
+	private logger = Logger.getLogger();
+
+	constructor(private opts: LogRecorderOptions) {}
+
+	/**
+	 * Save a log line of the given device. Errors are reported as warnings,
+	 * so that failing to save logs does not interrupt their display.
+	 * @param device The device UUID or address, used as directory name
+	 */
+	public async write(device: string, log: Log) {
+		const basePath = path.join(
+			this.opts.dir,
+			toFileName(device),
+			toFileName(log.serviceName ?? SYSTEM_LOGS),
+		);
+		let file = this.files.get(basePath);
+		if (file == null) {
+			file = new LogFile(basePath, this.opts);
+			this.files.set(basePath, file);
+		}
+		try {
+			await file.write({
+				timestamp: log.timestamp ?? Date.now(),
+				..._.pick(log, 'deviceName', 'serviceName', 'isStdErr'),
+				message: log.message,
+			});
+		} catch (err) {
+			this.logger.logWarn(`Failed to save log to ${file.path}: ${err.message}`);
+		}
+	}
+}
+
+/**
+ * Read the logs saved in a directory by `balena logs --save-dir`, merged in
+ * timestamp order. When logs of several devices were saved, the device name
+ * is set (to the name of the device directory if the device name was not
+ * saved).
+ */
+export async function readSavedLogs(dir: string): Promise<SavedLog[]> {
+	let devices: string[];
+	try {
+		devices = (await fs.readdir(dir, { withFileTypes: true }))
+			.filter((entry) => entry.isDirectory())
+			.map((entry) => entry.name);
+	} catch (err) {
+		if (err.code === 'ENOENT') {
+			throw new ExpectedError(`Directory "${dir}" not found`);
+		}
+		throw err;
+	}
+
+	const logs: SavedLog[] = [];
+	for (const device of devices) {
+		const files = (await fs.readdir(path.join(dir, device))).filter((file) =>
+			file.endsWith('.log'),
+		);
+		for (const file of files) {
+			for (const log of await readSavedLogFile(path.join(dir, device, file))) {
+				logs.push(devices.length > 1 ? { deviceName: device, ...log } : log);
+			}
+		}
+	}
+	if (logs.length === 0) {
+		throw new ExpectedError(`No saved logs found in "${dir}"`);
+	}
+	return _.sortBy(logs, (log) => log.timestamp);
+}
@@ -30,9 +30,10 @@ export async function join(
 	deviceHostnameOrIp?: string,
 	appName?: string,
 	appUpdatePollInterval?: number,
+	subnets?: string[],
 ): Promise<void> {
 	logger.logDebug('Determining device...');
-	deviceHostnameOrIp = deviceHostnameOrIp || (await selectLocalDevice());
+	deviceHostnameOrIp = deviceHostnameOrIp || (await selectLocalDevice(subnets));
 	await assertDeviceIsCompatible(deviceHostnameOrIp);
 	logger.logDebug(`Using device: ${deviceHostnameOrIp}`);
 
@@ -71,9 +72,10 @@ export async function join(
 export async function leave(
 	logger: Logger,
 	deviceHostnameOrIp?: string,
+	subnets?: string[],
 ): Promise<void> {
 	logger.logDebug('Determining device...');
-	deviceHostnameOrIp = deviceHostnameOrIp || (await selectLocalDevice());
+	deviceHostnameOrIp = deviceHostnameOrIp || (await selectLocalDevice(subnets));
 	await assertDeviceIsCompatible(deviceHostnameOrIp);
 	logger.logDebug(`Using device: ${deviceHostnameOrIp}`);
 
@@ -166,11 +168,14 @@ async function getOsVersion(deviceIp: string): Promise<string> {
 const dockerPort = 2375;
 const dockerTimeout = 2000;
 
-async function selectLocalBalenaOsDevice(timeout = 4000): Promise<string> {
+async function selectLocalBalenaOsDevice(
+	timeout = 4000,
+	subnets?: string[],
+): Promise<string> {
 	const { discoverLocalBalenaOsDevices } = await import('../utils/discover');
 	const { SpinnerPromise } = getVisuals();
 	const devices = await new SpinnerPromise({
-		promise: discoverLocalBalenaOsDevices(timeout),
+		promise: discoverLocalBalenaOsDevices(timeout, subnets),
 		startMessage: 'Discovering local balenaOS devices..',
 		stopMessage: 'Reporting discovered devices',
 	});
@@ -213,9 +218,9 @@ async function selectLocalBalenaOsDevice(timeout = 4000): Promise<string> {
 	});
 }
 
-async function selectLocalDevice(): Promise<string> {
+async function selectLocalDevice(subnets?: string[]): Promise<string> {
 	try {
-		const hostnameOrIp = await selectLocalBalenaOsDevice();
+		const hostnameOrIp = await selectLocalBalenaOsDevice(undefined, subnets);
 		console.error(`==> Selected device: ${hostnameOrIp}`);
 		return hostnameOrIp;
 	} catch (e) {
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type * as Dockerode from 'dockerode';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as _ from 'lodash';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExpectedError } from '../errors';
+import type Logger = require('./logger');
+import type { FleetInfo, ReleaseMetadata } from './release-copy';
+
+/**
+ * A release bundle is a tar file with the following entries:
+ * - 'release.json': the ReleaseBundleManifest (always the first entry)
+ * - 'images/<service>.tar': the service images, as saved by the Docker API
+ *   ('docker save'), tagged with the names listed in the manifest
+ */
+export interface ReleaseBundleManifest {
+	bundleVersion: number;
+	/** The fleet the release was exported from */
+	fleet: FleetInfo;
+	release: ReleaseMetadata;
+	/** Image names and bundle entry paths keyed by service name */
+	images: Dictionary<{ name: string; path: string }>;
+}
+
+export const BUNDLE_VERSION = 1;
+const MANIFEST_ENTRY = 'release.json';
+
+/**
+ * Write a release bundle with the given manifest and the local images named
+ * in `imageNames`, which are tagged with the image names of the manifest
+ * (the tags are removed on failure).
+ * @param imageNames Local image names keyed by service name
+ */
+export async function writeReleaseBundle(
+	docker: Dockerode,
+	logger: Logger,
+	fleet: FleetInfo,
+	release: ReleaseMetadata,
+	imageNames: Dictionary<string>,
+	bundlePath: string,
+): Promise<ReleaseBundleManifest> {
+	const { makeImageName } = await import('./compose_ts');
+	const { pipeline } = await import('node:stream/promises');
+	const tar = await import('tar-stream');
+
+	const manifest: ReleaseBundleManifest = {
+		bundleVersion: BUNDLE_VERSION,
+		fleet,
+		release,
+		images: {},
+	};
+	for (const serviceName of Object.keys(imageNames)) {
+		manifest.images[serviceName] = {
+			name: makeImageName(release.commit, serviceName, 'latest'),
+			path: `images/${serviceName}.tar`,
+		};
+	}
+
+	// The size of each tar entry must be known before writing it, so images
+	// are saved to temporary files first
+	const taggedImages: string[] = [];
+	const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'balena-release-'));
+	const pack = tar.pack();
+	const addEntries = async () => {
+		pack.entry(
+			{ name: MANIFEST_ENTRY },
+			JSON.stringify(manifest, null, 4) + '\n',
+		);
+		for (const [serviceName, { name, path: entryPath }] of Object.entries(
+			manifest.images,
+		)) {
+			logger.logInfo(`Saving image for service '${serviceName}'...`);
+			const [repo, tag] = name.split(':');
+			await docker.getImage(imageNames[serviceName]).tag({ repo, tag });
+			taggedImages.push(name);
+			const tmpFile = path.join(tmpDir, `${serviceName}.tar`);
+			await pipeline(
+				await docker.getImage(name).get(),
+				createWriteStream(tmpFile),
+			);
+			const { size } = await fs.stat(tmpFile);
+			await pipeline(
+				createReadStream(tmpFile),
+				pack.entry({ name: entryPath, size }),
+			);
+			await fs.rm(tmpFile);
+		}
+		pack.finalize();
+	};
+	try {
+		await Promise.all([
+			pipeline(pack, createWriteStream(bundlePath)),
+			addEntries().catch((err) => {
+				pack.destroy(err);
+				throw err;
+			}),
+		]);
+	} catch (err) {
+		const { removeImages } = await import('./release-copy');
+		await removeImages(docker, logger, taggedImages);
+		throw err;
+	} finally {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	}
+	return manifest;
+}
+
+/**
+ * Iterate over the entries of a release bundle, calling `onEntry` with each
+ * entry's name and stream, while `onEntry` returns true.
+ */
+async function readBundleEntries(
+	bundlePath: string,
+	onEntry: (name: string, stream: NodeJS.ReadableStream) => Promise<boolean>,
+) {
+	const tar = await import('tar-stream');
+	const extract = tar.extract();
+	const input = createReadStream(bundlePath);
+
+	await new Promise<void>((resolve, reject) => {
+		extract.on('entry', (header, stream, next) => {
+			const done = onEntry(header.name, stream);
+			const stop = (err?: Error) => {
+				input.destroy();
+				extract.destroy();
+				if (err) {
+					reject(err);
+				} else {
+					resolve();
+				}
+			};
+			done.then((more) => {
+				if (!more) {
+					stop();
+				} else {
+					// drain the entry if onEntry did not read it
+					stream.resume();
+				}
+			}, stop);
+			stream.on('end', () => {
+				done.then((more) => {
+					if (more) {
+						next();
+					}
+				}, _.noop);
+			});
+		});
+		extract.on('finish', resolve);
+		extract.on('error', reject);
+		input.on('error', reject);
+		input.pipe(extract);
+	});
+}
+
+/** Read the manifest of a release bundle, without reading its images */
+export async function readReleaseBundleManifest(
+	bundlePath: string,
+): Promise<ReleaseBundleManifest> {
+	const streamToPromise =
+		require('stream-to-promise') as typeof import('stream-to-promise');
+	let manifest: ReleaseBundleManifest | undefined;
+	await readBundleEntries(bundlePath, async (name, stream) => {
+		if (name === MANIFEST_ENTRY) {
+			const contents = await streamToPromise(stream as NodeJS.ReadStream);
+			manifest = JSON.parse(contents.toString());
+		}
+		return false;
+	});
+	if (manifest == null) {
+		throw new ExpectedError(
+			`"${bundlePath}" is not a release bundle: '${MANIFEST_ENTRY}' not found`,
+		);
+	}
+	if (manifest.bundleVersion !== BUNDLE_VERSION) {
+		throw new ExpectedError(
+			`Unsupported release bundle version ${manifest.bundleVersion} in "${bundlePath}"`,
+		);
+	}
+	return manifest;
+}
+
+/**
+ * Load the service images of a release bundle into the Docker daemon. On
+ * failure, the images loaded so far are removed.
+ * @returns The local image names keyed by service name
+ */
+export async function loadReleaseBundleImages(
+	docker: Dockerode,
+	logger: Logger,
+	bundlePath: string,
+	manifest: ReleaseBundleManifest,
+): Promise<Dictionary<string>> {
+	const { loadImage } = await import('./docker');
+	const imageNames: Dictionary<string> = {};
+	const services = Object.keys(manifest.images);
+	const loadEntry = async (name: string, stream: NodeJS.ReadableStream) => {
+		const serviceName = services.find((s) => manifest.images[s].path === name);
+		if (serviceName == null) {
+			return true;
+		}
+		logger.logInfo(`Loading image for service '${serviceName}'...`);
+		const output = await loadImage(docker, stream);
+		const error = output.find((line) => line.error)?.error;
+		if (error) {
+			throw new ExpectedError(
+				`Failed to load image for service '${serviceName}': ${error}`,
+			);
+		}
+		imageNames[serviceName] = manifest.images[serviceName].name;
+		return true;
+	};
+	try {
+		await readBundleEntries(bundlePath, loadEntry);
+		const missing = services.filter((s) => imageNames[s] == null);
+		if (missing.length > 0) {
+			throw new ExpectedError(
+				`Images missing from release bundle "${bundlePath}" for service(s): ${missing.join(', ')}`,
+			);
+		}
+	} catch (err) {
+		// Remove the images that were loaded before the failure
+		const { removeImages } = await import('./release-copy');
+		await removeImages(docker, logger, Object.values(imageNames));
+		throw err;
+	}
+	return imageNames;
+}
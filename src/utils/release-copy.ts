@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Composition } from '@balena/compose/dist/parse';
+import type {
+	BalenaSDK,
+	PineOptions,
+	PineTypedResult,
+	Release,
+} from 'balena-sdk';
+import type * as Dockerode from 'dockerode';
+
+import { ExpectedError } from '../errors';
+import { stripIndent } from './lazy';
+import type { BuiltImage } from './compose-types';
+import type Logger = require('./logger');
+
+const sourceReleaseOpts = {
+	$select: [
+		'id',
+		'commit',
+		'composition',
+		'contract',
+		'semver',
+		'status',
+		'is_final',
+		'note',
+	],
+	$expand: {
+		belongs_to__application: {
+			$select: ['id', 'slug'],
+			$expand: { is_for__device_type: { $select: 'slug' } },
+		},
+		release_tag: {
+			$select: ['tag_key', 'value'],
+		},
+		release_image: {
+			$select: 'id',
+			$expand: {
+				image: {
+					$select: [
+						'is_stored_at__image_location',
+						'content_hash',
+						'image_size',
+						'dockerfile',
+						'project_type',
+					],
+					$expand: {
+						is_a_build_of__service: { $select: 'service_name' },
+					},
+				},
+			},
+		},
+	},
+} satisfies PineOptions<Release>;
+
+export type SourceRelease = PineTypedResult<Release, typeof sourceReleaseOpts>;
+
+/**
+ * The parts of a release that are copied to a new release by
+ * `balena release promote` and `balena release import`.
+ */
+export interface ReleaseMetadata {
+	commit: string;
+	composition: Composition;
+	contract: string | null;
+	semver: string;
+	note: string | null;
+	tags: Dictionary<string>;
+	/** Image properties keyed by service name */
+	images: Dictionary<{
+		dockerfile?: string;
+		projectType?: string;
+		size?: number;
+	}>;
+}
+
+/**
+ * Get a release by commit or ID, with the properties needed to copy it,
+ * checking that it is finalized and successful.
+ */
+export async function getSourceRelease(
+	sdk: BalenaSDK,
+	releaseParam: string,
+): Promise<SourceRelease> {
+	const { disambiguateReleaseParam } = await import('./normalization');
+	const commitOrId = await disambiguateReleaseParam(sdk, releaseParam);
+	const release = (await sdk.models.release.get(
+		commitOrId,
+		sourceReleaseOpts,
+	)) as SourceRelease;
+
+	if (!release.is_final) {
+		throw new ExpectedError(
+			`Release ${release.commit} is a draft: only finalized releases can be copied`,
+		);
+	}
+	if (release.status !== 'success') {
+		throw new ExpectedError(
+			`Release ${release.commit} is not successful (status: ${release.status})`,
+		);
+	}
+	return release;
+}
+
+export function getReleaseMetadata(release: SourceRelease): ReleaseMetadata {
+	const tags: Dictionary<string> = {};
+	for (const tag of release.release_tag) {
+		tags[tag.tag_key] = tag.value;
+	}
+	const images: ReleaseMetadata['images'] = {};
+	for (const { image } of release.release_image) {
+		images[image[0].is_a_build_of__service[0].service_name] = {
+			dockerfile: image[0].dockerfile,
+			projectType: image[0].project_type ?? undefined,
+			size: image[0].image_size ?? undefined,
+		};
+	}
+	return {
+		commit: release.commit,
+		composition: release.composition as Composition,
+		contract: release.contract,
+		semver: release.semver,
+		note: release.note,
+		tags,
+		images,
+	};
+}
+
+/** A fleet slug and the slug of its device type */
+export interface FleetInfo {
+	slug: string;
+	deviceType: string;
+}
+
+/**
+ * Check that the device type of the target fleet is compatible with the
+ * architecture of the fleet that a release was built for.
+ */
+export async function checkFleetCompatibility(
+	target: FleetInfo,
+	source: FleetInfo,
+) {
+	const { areDeviceTypesCompatible } = await import('./helpers');
+	if (!(await areDeviceTypesCompatible(source.deviceType, target.deviceType))) {
+		throw new ExpectedError(stripIndent`
+			The device type of fleet ${target.slug} (${target.deviceType}) is not compatible
+			with the architecture of fleet ${source.slug} (${source.deviceType})`);
+	}
+}
+
+/**
+ * Pull the service images of a release from the registry. On failure, the
+ * images pulled so far are removed.
+ * @returns The local image names keyed by service name
+ */
+export async function pullReleaseImages(
+	docker: Dockerode,
+	sdk: BalenaSDK,
+	logger: Logger,
+	release: SourceRelease,
+): Promise<Dictionary<string>> {
+	const { pullServiceImages } = await import('./compose_ts');
+	const images = release.release_image.map(({ image }) => image[0]);
+	const pulls = images.map((image) => ({
+		location: image.is_stored_at__image_location,
+		contentHash: image.content_hash!,
+	}));
+	let names: string[];
+	try {
+		names = await pullServiceImages(docker, sdk, logger, pulls);
+	} catch (err) {
+		// Remove the images that were pulled before the failure
+		await removeImages(
+			docker,
+			logger,
+			pulls.map(({ location, contentHash }) => `${location}@${contentHash}`),
+		);
+		throw err;
+	}
+	const imageNames: Dictionary<string> = {};
+	images.forEach((image, index) => {
+		imageNames[image.is_a_build_of__service[0].service_name] = names[index];
+	});
+	return imageNames;
+}
+
+/**
+ * Create a release in the given fleet with the composition, contract,
+ * release tags and note of the given release metadata, pushing the given
+ * local images as its service images.
+ * @param imageNames Local image names keyed by service name
+ */
+export async function createReleaseCopy(
+	docker: Dockerode,
+	sdk: BalenaSDK,
+	logger: Logger,
+	appId: number,
+	metadata: ReleaseMetadata,
+	imageNames: Dictionary<string>,
+): Promise<{ id: number; commit: string }> {
+	const { applyReleaseTagKeysAndValues, deployImages } = await import(
+		'./compose_ts'
+	);
+	const images: BuiltImage[] = Object.entries(imageNames).map(
+		([serviceName, name]) => ({
+			serviceName,
+			name,
+			logs: '',
+			props: metadata.images[serviceName] ?? {},
+		}),
+	);
+	const release = await deployImages(
+		docker,
+		sdk,
+		logger,
+		metadata.composition,
+		images,
+		appId,
+		true,
+		false,
+		metadata.contract != null ? metadata.semver : undefined,
+		metadata.contract ?? undefined,
+	);
+	await applyReleaseTagKeysAndValues(
+		sdk,
+		release.id,
+		Object.keys(metadata.tags),
+		Object.values(metadata.tags),
+	);
+	if (metadata.note) {
+		await sdk.models.release.setNote(release.id, metadata.note);
+	}
+	return release;
+}
+
+/** Remove local images, e.g. images pulled or loaded to copy a release */
+export async function removeImages(
+	docker: Dockerode,
+	logger: Logger,
+	names: string[],
+) {
+	logger.logDebug('Removing local images...');
+	await Promise.all(
+		names.map((name) =>
+			docker
+				.getImage(name)
+				.remove()
+				.catch((err) =>
+					logger.logDebug(`Failed to remove image ${name}: ${err}`),
+				),
+		),
+	);
+}
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+
+import { getChalk } from './lazy';
+
+export interface DiffEntry {
+	action: 'add' | 'update' | 'remove';
+	key: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+/** The parts of a release that are compared by `balena release diff` */
+export interface DiffableRelease {
+	composition?: Dictionary<any> | null;
+	/** Image content hashes (digests) keyed by service name */
+	images: Dictionary<string | null>;
+	tags: Dictionary<string>;
+	note?: string | null;
+}
+
+export interface ReleaseDiff {
+	services: {
+		added: string[];
+		removed: string[];
+		changed: Dictionary<DiffEntry[]>;
+	};
+	/** Changes to top-level composition keys other than 'services' */
+	composition: DiffEntry[];
+	images: DiffEntry[];
+	tags: DiffEntry[];
+	note?: DiffEntry;
+}
+
+/** Service keys that may be given either as a map or as a 'KEY=VALUE' list */
+const MAP_OR_LIST_KEYS = ['environment', 'labels', 'sysctls'];
+
+/**
+ * Compare two plain key/value maps, returning an entry for each key that was
+ * added, removed or whose value changed. Keys are prefixed with `prefix`.
+ */
+export function diffMaps(
+	before: Dictionary<unknown>,
+	after: Dictionary<unknown>,
+	prefix = '',
+): DiffEntry[] {
+	const entries: DiffEntry[] = [];
+	for (const key of _.union(Object.keys(before), Object.keys(after)).sort()) {
+		const fullKey = `${prefix}${key}`;
+		if (!(key in after)) {
+			entries.push({ action: 'remove', key: fullKey, before: before[key] });
+		} else if (!(key in before)) {
+			entries.push({ action: 'add', key: fullKey, after: after[key] });
+		} else if (!_.isEqual(before[key], after[key])) {
+			entries.push({
+				action: 'update',
+				key: fullKey,
+				before: before[key],
+				after: after[key],
+			});
+		}
+	}
+	return entries;
+}
+
+function normalizeMapOrList(value: unknown): Dictionary<unknown> {
+	if (Array.isArray(value)) {
+		return _.fromPairs(
+			value.map((item: unknown) => {
+				const [key, ...rest] = String(item).split('=');
+				return [key, rest.length > 0 ? rest.join('=') : null];
+			}),
+		);
+	}
+	return _.isPlainObject(value) ? (value as Dictionary<unknown>) : {};
+}
+
+/**
+ * Compare the configuration of a service in two compositions. Maps such as
+ * labels and environment are compared entry by entry, and lists such as
+ * ports are compared item by item, ignoring order.
+ */
+export function diffServiceConfig(
+	before: Dictionary<unknown>,
+	after: Dictionary<unknown>,
+): DiffEntry[] {
+	const entries: DiffEntry[] = [];
+	for (const key of _.union(Object.keys(before), Object.keys(after)).sort()) {
+		const [b, a] = [before[key], after[key]];
+		if (_.isEqual(b, a)) {
+			continue;
+		}
+		if (MAP_OR_LIST_KEYS.includes(key)) {
+			entries.push(
+				...diffMaps(normalizeMapOrList(b), normalizeMapOrList(a), `${key}.`),
+			);
+		} else if (_.isPlainObject(b) && _.isPlainObject(a)) {
+			entries.push(
+				...diffMaps(
+					b as Dictionary<unknown>,
+					a as Dictionary<unknown>,
+					`${key}.`,
+				),
+			);
+		} else if (Array.isArray(b) && Array.isArray(a)) {
+			for (const item of _.differenceWith(b, a, _.isEqual)) {
+				entries.push({ action: 'remove', key, before: item });
+			}
+			for (const item of _.differenceWith(a, b, _.isEqual)) {
+				entries.push({ action: 'add', key, after: item });
+			}
+		} else {
+			entries.push(...diffMaps(_.pick(before, key), _.pick(after, key)));
+		}
+	}
+	return entries;
+}
+
+export function diffReleases(
+	before: DiffableRelease,
+	after: DiffableRelease,
+): ReleaseDiff {
+	const servicesBefore: Dictionary<Dictionary<unknown>> =
+		before.composition?.services ?? {};
+	const servicesAfter: Dictionary<Dictionary<unknown>> =
+		after.composition?.services ?? {};
+
+	const changed: Dictionary<DiffEntry[]> = {};
+	for (const name of _.intersection(
+		Object.keys(servicesBefore),
+		Object.keys(servicesAfter),
+	).sort()) {
+		const entries = diffServiceConfig(
+			servicesBefore[name] ?? {},
+			servicesAfter[name] ?? {},
+		);
+		if (entries.length > 0) {
+			changed[name] = entries;
+		}
+	}
+
+	const noteBefore = before.note ?? '';
+	const noteAfter = after.note ?? '';
+
+	return {
+		services: {
+			added: _.difference(
+				Object.keys(servicesAfter),
+				Object.keys(servicesBefore),
+			).sort(),
+			removed: _.difference(
+				Object.keys(servicesBefore),
+				Object.keys(servicesAfter),
+			).sort(),
+			changed,
+		},
+		composition: diffMaps(
+			_.omit(before.composition ?? {}, 'services'),
+			_.omit(after.composition ?? {}, 'services'),
+		),
+		images: diffMaps(before.images, after.images),
+		tags: diffMaps(before.tags, after.tags),
+		...(noteBefore !== noteAfter && {
+			note: {
+				action: 'update',
+				key: 'note',
+				before: noteBefore,
+				after: noteAfter,
+			},
+		}),
+	};
+}
+
+export function isEmptyDiff(diff: ReleaseDiff): boolean {
+	return (
+		diff.services.added.length === 0 &&
+		diff.services.removed.length === 0 &&
+		_.isEmpty(diff.services.changed) &&
+		diff.composition.length === 0 &&
+		diff.images.length === 0 &&
+		diff.tags.length === 0 &&
+		diff.note == null
+	);
+}
+
+const formatValue = (value: unknown) =>
+	typeof value === 'string' ? value : JSON.stringify(value);
+
+function formatEntry(entry: DiffEntry, indent: string): string {
+	const chalk = getChalk();
+	switch (entry.action) {
+		case 'add':
+			return chalk.green(
+				`${indent}+ ${entry.key}: ${formatValue(entry.after)}`,
+			);
+		case 'remove':
+			return chalk.red(`${indent}- ${entry.key}: ${formatValue(entry.before)}`);
+		case 'update':
+			return chalk.yellow(
+				`${indent}~ ${entry.key}: ${formatValue(entry.before)} -> ${formatValue(
+					entry.after,
+				)}`,
+			);
+	}
+}
+
+export function formatReleaseDiff(diff: ReleaseDiff): string {
+	const chalk = getChalk();
+	const lines: string[] = [];
+	const { added, removed, changed } = diff.services;
+	if (added.length || removed.length || !_.isEmpty(changed)) {
+		lines.push(chalk.bold('Services'));
+		lines.push(...added.map((name) => chalk.green(`  + ${name}`)));
+		lines.push(...removed.map((name) => chalk.red(`  - ${name}`)));
+		for (const [name, entries] of Object.entries(changed)) {
+			lines.push(chalk.yellow(`  ~ ${name}`));
+			lines.push(...entries.map((e) => formatEntry(e, '      ')));
+		}
+	}
+	const sections: Array<[string, DiffEntry[]]> = [
+		['Composition', diff.composition],
+		['Images', diff.images],
+		['Release tags', diff.tags],
+		['Note', diff.note ? [diff.note] : []],
+	];
+	for (const [title, entries] of sections) {
+		if (entries.length > 0) {
+			lines.push(chalk.bold(title));
+			lines.push(...entries.map((e) => formatEntry(e, '  ')));
+		}
+	}
+	return lines.join('\n');
+}
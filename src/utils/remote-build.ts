@@ -55,6 +55,8 @@ export interface RemoteBuild {
 	// For internal use
 	releaseId?: number;
 	hadError?: boolean;
+	// Metadata messages received from the builder, other than cursor commands
+	metadata?: Dictionary<string>;
 }
 
 interface BuilderMessage {
@@ -193,6 +195,12 @@ async function handleHeadlessBuildStream(
 }
 
 function handleBuilderMetadata(obj: BuilderMessage, build: RemoteBuild) {
+	if (obj.resource != null && obj.resource !== 'cursor') {
+		build.metadata = {
+			...build.metadata,
+			[obj.resource]: String(obj.value ?? ''),
+		};
+	}
 	switch (obj.resource) {
 		case 'cursor': {
 			if (obj.value == null) {
@@ -0,0 +1,266 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+	BalenaSDK,
+	Device,
+	PineOptions,
+	PineTypedResult,
+} from 'balena-sdk';
+import { promises as fs } from 'fs';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import { ExpectedError } from '../errors';
+import { delay } from './helpers';
+import { getVisuals } from './lazy';
+
+/** State of a staged rollout, saved after each batch so it can be resumed */
+export interface RolloutState {
+	fleet: string; // fleet slug
+	release: { id: number; commit: string };
+	/** Device UUIDs, in the order they are pinned to the release */
+	batches: string[][];
+	/** Number of batches that have fully reached the release */
+	completedBatches: number;
+	/**
+	 * ID of the release each device was pinned to before the rollout,
+	 * or null if the device was tracking the fleet's release
+	 */
+	previousReleases: Dictionary<number | null>;
+	/** Timeout in minutes for each batch to reach the release */
+	timeout: number;
+	haltReason?: string;
+}
+
+/** Rollout states keyed by fleet slug */
+type RolloutStates = Dictionary<RolloutState>;
+
+const ROLLOUTS_FILENAME = 'rollouts.json';
+
+/** Image install statuses reported by the supervisor for failed services */
+const FAILED_STATUS_REGEX = /fail|dead/i;
+
+/**
+ * The devices of a batch, with the image installs of the rolled out release
+ * only, as the installs of previous releases may have failed or be stopped
+ */
+const getBatchDevicePineOptions = (releaseId: number) =>
+	({
+		$select: ['uuid', 'device_name', 'is_online', 'is_running__release'],
+		$expand: {
+			image_install: {
+				$select: 'status',
+				$filter: { is_provided_by__release: releaseId },
+			},
+		},
+	}) satisfies PineOptions<Device>;
+
+type BatchDevice = PineTypedResult<
+	Device,
+	ReturnType<typeof getBatchDevicePineOptions>
+>;
+
+/**
+ * Choose the given percentage of devices (rounded up) to roll out a release
+ * to. Devices are sorted by UUID, so the choice is stable between runs and
+ * unrelated to device names or registration order.
+ */
+export function chooseRolloutDevices<T extends { uuid: string }>(
+	devices: T[],
+	percent: number,
+): T[] {
+	const count = Math.ceil((devices.length * percent) / 100);
+	return _.sortBy(devices, 'uuid').slice(0, count);
+}
+
+/** Split the device UUIDs into batches of at most batchSize devices */
+export function planBatches(uuids: string[], batchSize: number): string[][] {
+	return _.chunk(uuids, batchSize);
+}
+
+async function getRolloutsPath(sdk: BalenaSDK): Promise<string> {
+	const dataDirectory = await sdk.settings.get('dataDirectory');
+	return path.join(dataDirectory, ROLLOUTS_FILENAME);
+}
+
+async function readRolloutStates(sdk: BalenaSDK): Promise<RolloutStates> {
+	try {
+		return JSON.parse(await fs.readFile(await getRolloutsPath(sdk), 'utf8'));
+	} catch {
+		return {};
+	}
+}
+
+async function writeRolloutStates(sdk: BalenaSDK, states: RolloutStates) {
+	const rolloutsPath = await getRolloutsPath(sdk);
+	await fs.mkdir(path.dirname(rolloutsPath), { recursive: true });
+	await fs.writeFile(rolloutsPath, JSON.stringify(states, null, 2));
+}
+
+export async function getRolloutState(
+	sdk: BalenaSDK,
+	fleet: string,
+): Promise<RolloutState | undefined> {
+	return (await readRolloutStates(sdk))[fleet];
+}
+
+/** Save the state of a rollout, or delete it if state is undefined */
+export async function saveRolloutState(
+	sdk: BalenaSDK,
+	fleet: string,
+	state?: RolloutState,
+) {
+	const states = await readRolloutStates(sdk);
+	if (state == null) {
+		delete states[fleet];
+	} else {
+		states[fleet] = state;
+	}
+	await writeRolloutStates(sdk, states);
+}
+
+/**
+ * Return the reason to halt the rollout if any of the devices went offline
+ * or reported a failed service, or undefined otherwise.
+ */
+export function getHaltReason(devices: BatchDevice[]): string | undefined {
+	for (const device of devices) {
+		if (!device.is_online) {
+			return `Device ${device.device_name} (${device.uuid}) went offline`;
+		}
+		const failed = device.image_install.find((ii) =>
+			FAILED_STATUS_REGEX.test(ii.status),
+		);
+		if (failed) {
+			return `Device ${device.device_name} (${device.uuid}) reported a service in '${failed.status}' state`;
+		}
+	}
+}
+
+/**
+ * Wait until all the devices of a batch are running the release, polling
+ * the API like awaitDeviceOsUpdate() does. Throws an ExpectedError if a
+ * device goes offline or reports a failed service, or on timeout.
+ */
+export async function awaitBatchRelease(
+	sdk: BalenaSDK,
+	state: RolloutState,
+	batchIndex: number,
+) {
+	const uuids = state.batches[batchIndex];
+	const visuals = getVisuals();
+	const progressBar = new visuals.Progress(
+		`Batch ${batchIndex + 1}/${state.batches.length}: waiting for ${
+			uuids.length
+		} device(s) to run release ${state.release.commit}`,
+	);
+	progressBar.update({ percentage: 0 });
+	const deadline = Date.now() + state.timeout * 60 * 1000;
+
+	const poll = async (): Promise<void> => {
+		const devices = (await sdk.models.device.getAllByApplication(state.fleet, {
+			...getBatchDevicePineOptions(state.release.id),
+			$filter: { uuid: { $in: uuids } },
+		})) as BatchDevice[];
+		const done = devices.filter(
+			(d) => d.is_running__release?.__id === state.release.id,
+		);
+		progressBar.update({ percentage: (done.length / uuids.length) * 100 });
+		if (done.length === uuids.length) {
+			return;
+		}
+
+		const haltReason =
+			getHaltReason(_.difference(devices, done)) ??
+			(Date.now() > deadline
+				? `Timed out after ${state.timeout} minute(s) waiting for batch ${
+						batchIndex + 1
+					} to reach the release`
+				: undefined);
+		if (haltReason) {
+			throw new ExpectedError(haltReason);
+		}
+
+		await delay(3000);
+		await poll();
+	};
+
+	await poll();
+}
+
+/**
+ * Pin the remaining batches of a rollout to its release, one batch at a
+ * time, waiting for each batch to reach the release before pinning the
+ * next. The state is saved after each batch, and the rollout is halted
+ * (leaving its state saved for --resume or --abort) on failure.
+ */
+export async function runRollout(sdk: BalenaSDK, state: RolloutState) {
+	delete state.haltReason;
+	await saveRolloutState(sdk, state.fleet, state);
+
+	for (let i = state.completedBatches; i < state.batches.length; i++) {
+		console.info(
+			`Pinning batch ${i + 1}/${state.batches.length} (${
+				state.batches[i].length
+			} device(s)) to release ${state.release.commit}`,
+		);
+		await sdk.models.device.pinToRelease(state.batches[i], state.release.id);
+		try {
+			await awaitBatchRelease(sdk, state, i);
+		} catch (err) {
+			state.haltReason = err.message;
+			await saveRolloutState(sdk, state.fleet, state);
+			throw new ExpectedError(
+				`Rollout halted: ${err.message}\n` +
+					'Use --resume to continue the rollout, or --abort to roll it back.',
+			);
+		}
+		state.completedBatches = i + 1;
+		await saveRolloutState(sdk, state.fleet, state);
+	}
+
+	await saveRolloutState(sdk, state.fleet);
+	console.info(
+		`Release ${state.release.commit} rolled out to ${
+			_.flatten(state.batches).length
+		} device(s) of fleet ${state.fleet}`,
+	);
+}
+
+/**
+ * Restore the devices that may have been pinned by a rollout to the release
+ * they were running before it (or to tracking the fleet's release), and
+ * delete the rollout state.
+ */
+export async function abortRollout(sdk: BalenaSDK, state: RolloutState) {
+	const pinned = _.flatten(state.batches.slice(0, state.completedBatches + 1));
+	const byPreviousRelease = _.groupBy(pinned, (uuid) =>
+		String(state.previousReleases[uuid] ?? ''),
+	);
+	for (const [releaseId, uuids] of Object.entries(byPreviousRelease)) {
+		if (releaseId === '') {
+			await sdk.models.device.trackApplicationRelease(uuids);
+		} else {
+			await sdk.models.device.pinToRelease(uuids, parseInt(releaseId, 10));
+		}
+	}
+	await saveRolloutState(sdk, state.fleet);
+	console.info(
+		`Rollout of release ${state.release.commit} to fleet ${state.fleet} aborted: ${pinned.length} device(s) rolled back`,
+	);
+}
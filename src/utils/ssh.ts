@@ -161,6 +161,8 @@ export async function runRemoteCommand({
 
 			if (ps.stdin && stdin && typeof stdin !== 'string') {
 				stdin.pipe(ps.stdin);
+				// end the remote stdin if the input fails, so the remote command ends
+				stdin.once('error', () => ps.stdin?.end());
 			}
 			if (ps.stdout && stdout && typeof stdout !== 'string') {
 				ps.stdout.pipe(stdout);
@@ -309,6 +311,73 @@ export const findBestUsernameForDevice = _.memoize(
 	},
 );
 
+/**
+ * Return the hostname of the balenaCloud ssh gateway, the balenaCloud username,
+ * and the proxytunnel command for ssh connections to cloud devices (if a
+ * global proxy is configured and noproxy is false).
+ */
+export async function getCloudSshOptions({
+	noproxy = false,
+	verbose = false,
+}: {
+	noproxy?: boolean;
+	verbose?: boolean;
+}): Promise<{ hostname: string; username: string; proxyCommand?: string[] }> {
+	const { getProxyConfig } = await import('./helpers');
+	const { getBalenaSdk, stripIndent } = await import('./lazy');
+	const { which } = await import('./which');
+	const sdk = getBalenaSdk();
+
+	const proxyConfig = getProxyConfig();
+	const useProxy = !!proxyConfig && !noproxy;
+
+	const [whichProxytunnel, { username }, proxyUrl] = await Promise.all([
+		useProxy ? which('proxytunnel', false) : undefined,
+		sdk.auth.getUserInfo(),
+		// note that `proxyUrl` refers to the balenaCloud "resin-proxy"
+		// service, currently "balena-devices.com", rather than some
+		// local proxy server URL
+		sdk.settings.get('proxyUrl'),
+	]);
+
+	const getSshProxyCommand = () => {
+		if (!proxyConfig) {
+			return;
+		}
+		if (!whichProxytunnel) {
+			console.warn(stripIndent`
+				Proxy is enabled but the \`proxytunnel\` binary cannot be found.
+				Please install it if you want to route the \`balena ssh\` requests through the proxy.
+				Alternatively you can pass \`--noproxy\` param to the \`balena ssh\` command to ignore the proxy config
+				for the \`ssh\` requests.
+
+				Attempting the unproxied request for now.`);
+			return;
+		}
+
+		const p = proxyConfig;
+		if (p.username && p.password) {
+			// proxytunnel understands these variables for proxy authentication.
+			// Setting the variables instead of command-line options avoids the
+			// need for shell-specific escaping of special characters like '$'.
+			process.env.PROXYUSER = p.username;
+			process.env.PROXYPASS = p.password;
+		}
+
+		return [
+			'proxytunnel',
+			`--proxy=${p.host}:${p.port}`,
+			// ssh replaces these %h:%p variables in the ProxyCommand option
+			// https://linux.die.net/man/5/ssh_config
+			'--dest=%h:%p',
+			...(verbose ? ['--verbose'] : []),
+		];
+	};
+
+	const proxyCommand = useProxy ? getSshProxyCommand() : undefined;
+	return { hostname: `ssh.${proxyUrl}`, username, proxyCommand };
+}
+
 /**
  * Return a device's balenaOS release by executing 'cat /etc/os-release'
  * over ssh to the given deviceIp address.  The result is cached with
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createHash } from 'crypto';
+import * as _ from 'lodash';
+
+import { ExpectedError } from '../errors';
+
+export interface PortRange {
+	start: number;
+	end: number;
+}
+
+/** The local port allocated to a remote port of a device */
+export interface PortAllocation {
+	uuid: string;
+	remotePort: number;
+	localPort: number;
+}
+
+/** Parse a local port range in the format '<start>-<end>' */
+export function parsePortRange(range: string): PortRange {
+	const match = /^(\d+)-(\d+)$/.exec(range.trim());
+	const [start, end] = match ? [match[1], match[2]].map(Number) : [];
+	if (match == null || start < 1 || end > 65535 || start > end) {
+		throw new ExpectedError(
+			`Invalid port range "${range}": expected <start>-<end>, e.g. 20000-29999`,
+		);
+	}
+	return { start, end };
+}
+
+/**
+ * Allocate a local port from the range to each remote port of each device.
+ * The preferred local port is derived from a hash of the device UUID and
+ * remote port, so that a device keeps its local port between runs even if
+ * devices are added to or removed from the selection. Collisions are
+ * resolved by taking the next free port, in UUID order.
+ */
+export function allocateLocalPorts(
+	uuids: string[],
+	remotePorts: number[],
+	range: PortRange,
+): PortAllocation[] {
+	const size = range.end - range.start + 1;
+	const pairs = _.sortBy(
+		_.flatMap(_.uniq(uuids), (uuid) =>
+			_.uniq(remotePorts).map((remotePort) => ({ uuid, remotePort })),
+		),
+		['uuid', 'remotePort'],
+	);
+	if (pairs.length > size) {
+		throw new ExpectedError(
+			`The port range ${range.start}-${range.end} is too small for ${pairs.length} tunnels`,
+		);
+	}
+	const used = new Set<number>();
+	return pairs.map(({ uuid, remotePort }) => {
+		const hash = createHash('sha1')
+			.update(`${uuid}:${remotePort}`)
+			.digest()
+			.readUInt32BE(0);
+		let offset = hash % size;
+		while (used.has(offset)) {
+			offset = (offset + 1) % size;
+		}
+		used.add(offset);
+		return { uuid, remotePort, localPort: range.start + offset };
+	});
+}
@@ -0,0 +1,336 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { BalenaSDK } from 'balena-sdk';
+import { promises as fs } from 'fs';
+import type { Server, Socket } from 'net';
+import * as path from 'path';
+
+import { ExpectedError } from '../errors';
+import { delay } from './helpers';
+import type { DevicePortOpener, PortMapping } from './tunnel';
+
+/** A named set of port mappings to a device, started with 'tunnel up' */
+export interface TunnelProfile {
+	/** Device UUID */
+	device: string;
+	ports: PortMapping[];
+	/** Local address of the port mappings that do not specify one */
+	bindAddress: string;
+}
+
+/** Tunnel profiles keyed by profile name */
+type TunnelProfiles = Dictionary<TunnelProfile>;
+
+export interface TunnelStats {
+	/** Number of open connections */
+	active: number;
+	/** Number of connections accepted since the tunnel was started */
+	total: number;
+	/** Bytes received from the device */
+	bytesIn: number;
+	/** Bytes sent to the device */
+	bytesOut: number;
+}
+
+interface TunnelState extends PortMapping {
+	server?: Server;
+	/** Whether the remote port was reachable on the last health check */
+	reachable?: boolean;
+	lastError?: string;
+	stats: TunnelStats;
+}
+
+export interface TunnelRunnerOptions {
+	/** Milliseconds between health checks while the remote ports are reachable */
+	healthCheckInterval: number;
+	/** Number of times to retry connecting to the device for each connection */
+	maxRetries: number;
+	/** Called when a connection is opened or closed, or a health check ends */
+	onChange?: () => void;
+}
+
+const TUNNELS_FILENAME = 'tunnels.json';
+
+/** Maximum delay between retries while the device is unreachable */
+const MAX_RETRY_DELAY_MS = 60000;
+
+async function getProfilesPath(sdk: BalenaSDK): Promise<string> {
+	const dataDirectory = await sdk.settings.get('dataDirectory');
+	return path.join(dataDirectory, TUNNELS_FILENAME);
+}
+
+export async function getTunnelProfiles(
+	sdk: BalenaSDK,
+): Promise<TunnelProfiles> {
+	const profilesPath = await getProfilesPath(sdk);
+	try {
+		return JSON.parse(await fs.readFile(profilesPath, 'utf8'));
+	} catch (err) {
+		if (err.code === 'ENOENT') {
+			return {};
+		}
+		// Don't overwrite a corrupt or unreadable file when saving a profile
+		throw new ExpectedError(
+			`Failed to read the tunnel profiles file "${profilesPath}": ${err.message}`,
+		);
+	}
+}
+
+export async function getTunnelProfile(
+	sdk: BalenaSDK,
+	name: string,
+): Promise<TunnelProfile> {
+	const profile = (await getTunnelProfiles(sdk))[name];
+	if (profile == null) {
+		throw new ExpectedError(
+			`Tunnel profile "${name}" not found. Use 'balena tunnel save' to create it.`,
+		);
+	}
+	return profile;
+}
+
+/** Save a tunnel profile, or delete it if profile is undefined */
+export async function saveTunnelProfile(
+	sdk: BalenaSDK,
+	name: string,
+	profile?: TunnelProfile,
+) {
+	const profiles = await getTunnelProfiles(sdk);
+	if (profile == null) {
+		delete profiles[name];
+	} else {
+		profiles[name] = profile;
+	}
+	const profilesPath = await getProfilesPath(sdk);
+	await fs.mkdir(path.dirname(profilesPath), { recursive: true });
+	await fs.writeFile(profilesPath, JSON.stringify(profiles, null, 2));
+}
+
+/** Format a port mapping like the --port option of 'balena tunnel' */
+export const formatPortMapping = (mapping: PortMapping) =>
+	`${mapping.remotePort}:${mapping.localAddress}:${mapping.localPort}`;
+
+/**
+ * Milliseconds to wait before the given retry (starting at 0), doubling
+ * from 1 second up to a maximum of 1 minute.
+ */
+export const getRetryDelayMs = (retry: number) =>
+	Math.min(MAX_RETRY_DELAY_MS, 1000 * Math.pow(2, retry));
+
+/**
+ * Keeps the port mappings of a tunnel profile open: each local connection is
+ * tunnelled to the device, retrying with backoff while the device is
+ * unreachable, and the remote ports are periodically checked to be
+ * reachable (more often, with backoff, after a failed check).
+ */
+export class TunnelProfileRunner {
+	public readonly tunnels: TunnelState[];
+	private healthCheckTimer?: NodeJS.Timeout;
+	private sockets = new Set<Socket>();
+	private failedHealthChecks = 0;
+	private stopped = false;
+
+	constructor(
+		profile: TunnelProfile,
+		private openDevicePort: DevicePortOpener,
+		private opts: TunnelRunnerOptions,
+	) {
+		this.tunnels = profile.ports.map((mapping) => ({
+			...mapping,
+			stats: { active: 0, total: 0, bytesIn: 0, bytesOut: 0 },
+		}));
+	}
+
+	/** Connection counts and bytes transferred of all the port mappings */
+	public get stats(): TunnelStats {
+		const total: TunnelStats = { active: 0, total: 0, bytesIn: 0, bytesOut: 0 };
+		for (const { stats } of this.tunnels) {
+			total.active += stats.active;
+			total.total += stats.total;
+			total.bytesIn += stats.bytesIn;
+			total.bytesOut += stats.bytesOut;
+		}
+		return total;
+	}
+
+	/**
+	 * Listen on the local ports and start the health checks. Throws an
+	 * ExpectedError if any of the local ports cannot be listened on.
+	 */
+	public async start() {
+		const { createServer } = await import('net');
+		try {
+			for (const tunnel of this.tunnels) {
+				// Keep the device connection open until it has replied to
+				// clients that end their side of the connection
+				const server = createServer({ allowHalfOpen: true }, (client) => {
+					this.handleConnection(tunnel, client);
+				});
+				await new Promise<void>((resolve, reject) => {
+					server.once('error', reject);
+					server.listen(tunnel.localPort, tunnel.localAddress, resolve);
+				});
+				tunnel.server = server;
+			}
+		} catch (err) {
+			await this.stop();
+			throw new ExpectedError(`Unable to open local port: ${err.message}`);
+		}
+		await this.checkHealth();
+	}
+
+	/** Stop listening, close all connections and stop the health checks */
+	public async stop() {
+		this.stopped = true;
+		clearTimeout(this.healthCheckTimer);
+		for (const socket of this.sockets) {
+			socket.destroy();
+		}
+		await Promise.all(
+			this.tunnels.map(
+				({ server }) =>
+					new Promise((resolve) => {
+						if (server == null) {
+							resolve(undefined);
+						} else {
+							server.close(resolve);
+						}
+					}),
+			),
+		);
+	}
+
+	/**
+	 * Check that the remote port of each port mapping is reachable, and
+	 * schedule the next check.
+	 */
+	public async checkHealth() {
+		await Promise.all(
+			this.tunnels.map(async (tunnel) => {
+				try {
+					const socket = await this.openDevicePort(tunnel.remotePort);
+					socket.destroy();
+					tunnel.reachable = true;
+					tunnel.lastError = undefined;
+				} catch (err) {
+					tunnel.reachable = false;
+					tunnel.lastError = err.message;
+				}
+			}),
+		);
+		if (this.stopped) {
+			return;
+		}
+		this.failedHealthChecks = this.tunnels.every((t) => t.reachable)
+			? 0
+			: this.failedHealthChecks + 1;
+		this.opts.onChange?.();
+		const interval =
+			this.failedHealthChecks > 0
+				? Math.min(
+						this.opts.healthCheckInterval,
+						getRetryDelayMs(this.failedHealthChecks - 1),
+					)
+				: this.opts.healthCheckInterval;
+		this.healthCheckTimer = setTimeout(() => {
+			void this.checkHealth();
+		}, interval);
+	}
+
+	/** A one line summary of the status of the port mappings */
+	public getStatusLine(): string {
+		const humanize = require('humanize');
+		const { active, total, bytesIn, bytesOut } = this.stats;
+		const ports = this.tunnels.map(({ localPort, reachable, lastError }) => {
+			const status =
+				reachable == null ? 'checking' : reachable ? 'up' : 'unreachable';
+			return `${localPort} ${status}${lastError ? ` (${lastError})` : ''}`;
+		});
+		return [
+			ports.join(', '),
+			`connections: ${active} active, ${total} total`,
+			`received ${humanize.filesize(bytesIn)}, sent ${humanize.filesize(
+				bytesOut,
+			)}`,
+		].join(' | ');
+	}
+
+	private async connectWithRetry(port: number, client: Socket) {
+		for (let retry = 0; ; retry++) {
+			try {
+				return await this.openDevicePort(port);
+			} catch (err) {
+				if (this.stopped || client.destroyed || retry >= this.opts.maxRetries) {
+					throw err;
+				}
+				await delay(getRetryDelayMs(retry));
+			}
+		}
+	}
+
+	private handleConnection(tunnel: TunnelState, client: Socket) {
+		const { stats } = tunnel;
+		stats.active++;
+		stats.total++;
+		this.sockets.add(client);
+		this.opts.onChange?.();
+		client.on('data', (data: Buffer) => {
+			stats.bytesOut += data.length;
+		});
+		client.once('close', () => {
+			stats.active--;
+			this.sockets.delete(client);
+			this.opts.onChange?.();
+		});
+		// Don't read from the client until the device connection is open
+		client.pause();
+		client.on('error', () => {
+			client.destroy();
+		});
+
+		this.connectWithRetry(tunnel.remotePort, client).then(
+			(remote) => {
+				if (client.destroyed) {
+					remote.destroy();
+					return;
+				}
+				this.sockets.add(remote);
+				remote.on('data', (data: Buffer) => {
+					stats.bytesIn += data.length;
+				});
+				remote.on('error', () => {
+					client.destroy();
+				});
+				client.on('close', () => {
+					remote.destroy();
+				});
+				remote.on('close', () => {
+					this.sockets.delete(remote);
+					client.end();
+				});
+				client.pipe(remote);
+				remote.pipe(client);
+			},
+			(err) => {
+				tunnel.reachable = false;
+				tunnel.lastError = err.message;
+				client.destroy();
+			},
+		);
+	}
+}
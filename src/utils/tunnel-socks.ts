@@ -0,0 +1,260 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Server, Socket } from 'net';
+
+import { instanceOf } from '../errors';
+import type { DevicePortOpener, TunnelConnectionLogger } from './tunnel';
+
+/** SOCKS5 reply codes (RFC 1928) */
+export enum SocksReply {
+	Succeeded = 0x00,
+	GeneralFailure = 0x01,
+	NotAllowed = 0x02,
+	HostUnreachable = 0x04,
+	ConnectionRefused = 0x05,
+	CommandNotSupported = 0x07,
+	AddressTypeNotSupported = 0x08,
+}
+
+const SOCKS_VERSION = 0x05;
+const NO_AUTHENTICATION = 0x00;
+const NO_ACCEPTABLE_METHODS = 0xff;
+const CONNECT_COMMAND = 0x01;
+
+export interface SocksRequest {
+	command: number;
+	/** Destination host name or IP address, or undefined if not supported */
+	host?: string;
+	port: number;
+	/** Length of the request in bytes */
+	length: number;
+}
+
+/**
+ * Parse a SOCKS5 method selection message, returning the authentication
+ * methods offered by the client, or undefined if the message is incomplete.
+ */
+export function parseSocksGreeting(
+	data: Buffer,
+): { methods: number[]; length: number } | undefined {
+	if (data.length < 2 || data.length < 2 + data[1]) {
+		return;
+	}
+	const length = 2 + data[1];
+	return { methods: [...data.subarray(2, length)], length };
+}
+
+/**
+ * Parse a SOCKS5 request, returning undefined if the request is incomplete.
+ * The host is undefined for unsupported address types.
+ */
+export function parseSocksRequest(data: Buffer): SocksRequest | undefined {
+	if (data.length < 5) {
+		return;
+	}
+	const command = data[1];
+	let host: string | undefined;
+	let addressEnd: number;
+	switch (data[3]) {
+		case 0x01: // IPv4 address
+			addressEnd = 8;
+			if (data.length >= addressEnd) {
+				host = [...data.subarray(4, addressEnd)].join('.');
+			}
+			break;
+		case 0x03: // Domain name
+			addressEnd = 5 + data[4];
+			host = data.subarray(5, addressEnd).toString();
+			break;
+		case 0x04: // IPv6 address
+			addressEnd = 20;
+			if (data.length >= addressEnd) {
+				const groups = [];
+				for (let i = 4; i < addressEnd; i += 2) {
+					groups.push(data.readUInt16BE(i).toString(16));
+				}
+				host = groups.join(':');
+			}
+			break;
+		default:
+			return { command, port: 0, length: data.length };
+	}
+	if (data.length < addressEnd + 2) {
+		return;
+	}
+	return {
+		command,
+		host,
+		port: data.readUInt16BE(addressEnd),
+		length: addressEnd + 2,
+	};
+}
+
+/** The SOCKS5 reply to a request, with an unspecified bound address */
+const socksReply = (reply: SocksReply) =>
+	Buffer.from([SOCKS_VERSION, reply, 0x00, 0x01, 0, 0, 0, 0, 0, 0]);
+
+/** The SOCKS5 reply code for an error opening a device port */
+export async function getSocksErrorReply(err: Error): Promise<SocksReply> {
+	const { RemoteSocketNotListening, UnableToConnectError } = await import(
+		'./tunnel'
+	);
+	if (instanceOf(err, RemoteSocketNotListening)) {
+		return SocksReply.ConnectionRefused;
+	}
+	if (instanceOf(err, UnableToConnectError)) {
+		return SocksReply.HostUnreachable;
+	}
+	return SocksReply.GeneralFailure;
+}
+
+/**
+ * Handle a SOCKS5 client connection: negotiate (no authentication), read
+ * the CONNECT request and, if the destination is one of the device's host
+ * names, tunnel the connection to the requested port of the device.
+ */
+function handleSocksClient(
+	client: Socket,
+	openDevicePort: DevicePortOpener,
+	deviceHostnames: string[],
+	onConnection?: TunnelConnectionLogger,
+) {
+	let buffer = Buffer.alloc(0);
+	let greeted = false;
+	const hostnames = deviceHostnames.map((h) => h.toLowerCase());
+
+	/** Send the final reply, discarding any further data from the client */
+	const refuse = (reply: Buffer) => {
+		client.removeListener('data', onData);
+		client.resume();
+		client.end(reply);
+	};
+
+	const connect = async ({ command, host, port }: SocksRequest) => {
+		if (command !== CONNECT_COMMAND) {
+			refuse(socksReply(SocksReply.CommandNotSupported));
+			return;
+		}
+		if (host == null) {
+			refuse(socksReply(SocksReply.AddressTypeNotSupported));
+			return;
+		}
+		if (!hostnames.includes(host.toLowerCase())) {
+			refuse(socksReply(SocksReply.NotAllowed));
+			return;
+		}
+		const connection = {
+			fromHost: client.remoteAddress ?? '',
+			fromPort: client.remotePort ?? 0,
+			localAddress: client.localAddress ?? '',
+			localPort: client.localPort ?? 0,
+			remotePort: port,
+		};
+		let remote: Socket;
+		try {
+			remote = await openDevicePort(port);
+		} catch (err) {
+			refuse(socksReply(await getSocksErrorReply(err)));
+			onConnection?.(connection, err);
+			return;
+		}
+		if (client.destroyed) {
+			remote.destroy();
+			return;
+		}
+		client.write(socksReply(SocksReply.Succeeded));
+		remote.on('error', () => {
+			client.destroy();
+		});
+		client.on('close', () => {
+			remote.destroy();
+		});
+		remote.on('close', () => {
+			client.end();
+		});
+		client.pipe(remote);
+		remote.pipe(client);
+		onConnection?.(connection);
+	};
+
+	function onData(data: Buffer) {
+		buffer = Buffer.concat([buffer, data]);
+		if (buffer[0] !== SOCKS_VERSION) {
+			client.destroy();
+			return;
+		}
+		if (!greeted) {
+			const greeting = parseSocksGreeting(buffer);
+			if (greeting == null) {
+				return;
+			}
+			if (!greeting.methods.includes(NO_AUTHENTICATION)) {
+				refuse(Buffer.from([SOCKS_VERSION, NO_ACCEPTABLE_METHODS]));
+				return;
+			}
+			client.write(Buffer.from([SOCKS_VERSION, NO_AUTHENTICATION]));
+			greeted = true;
+			buffer = buffer.subarray(greeting.length);
+			if (buffer.length === 0) {
+				return;
+			}
+		}
+		const request = parseSocksRequest(buffer);
+		if (request == null) {
+			return;
+		}
+		client.removeListener('data', onData);
+		client.pause();
+		// Data sent after the request (e.g. a TLS client hello) is tunnelled
+		const remaining = buffer.subarray(request.length);
+		if (remaining.length > 0) {
+			client.unshift(remaining);
+		}
+		void connect(request);
+	}
+
+	client.on('data', onData);
+	client.on('error', () => {
+		client.destroy();
+	});
+}
+
+/**
+ * Start a SOCKS5 proxy server on the given local port, that tunnels
+ * connections to any port of the device. Only destinations that are one
+ * of the given device host names (e.g. its UUID) are allowed.
+ */
+export async function startSocksServer(
+	openDevicePort: DevicePortOpener,
+	deviceHostnames: string[],
+	localPort: number,
+	localAddress: string,
+	onConnection?: TunnelConnectionLogger,
+): Promise<Server> {
+	const { createServer } = await import('net');
+	// Keep the device connection open until it has replied to clients that
+	// end their side of the connection
+	const server = createServer({ allowHalfOpen: true }, (client) => {
+		handleSocksClient(client, openDevicePort, deviceHostnames, onConnection);
+	});
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(localPort, localAddress, resolve);
+	});
+	return server;
+}
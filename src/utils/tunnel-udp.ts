@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { RemoteInfo, Socket as UdpSocket } from 'dgram';
+import type { Socket } from 'net';
+
+import type {
+	DevicePortOpener,
+	PortMapping,
+	TunnelConnectionLogger,
+} from './tunnel';
+
+/**
+ * How UDP datagrams are framed in the TCP stream to the device:
+ * - 'length': each datagram is prefixed with its length as a 2-byte big
+ *   endian integer, like DNS over TCP
+ * - 'mbap': datagrams are Modbus frames, sent as they are, and the stream
+ *   received from the device is split into frames on the length field of
+ *   their MBAP header, as Modbus/UDP and Modbus/TCP use the same frames
+ */
+export type UdpFraming = 'length' | 'mbap';
+
+/** Close the device connection of a UDP peer after this period of inactivity */
+const UDP_SESSION_TIMEOUT_MS = 60000;
+
+/**
+ * Length of the MBAP header fields up to and including the length field
+ * (transaction ID, protocol ID and length, 2 bytes each). The length field
+ * counts the bytes that follow it.
+ */
+const MBAP_PREFIX_LENGTH = 6;
+
+/** Frame a datagram to be sent in the TCP stream to the device */
+export function encodeDatagram(data: Buffer, framing: UdpFraming): Buffer {
+	if (framing === 'mbap') {
+		return data;
+	}
+	const length = Buffer.alloc(2);
+	length.writeUInt16BE(data.length);
+	return Buffer.concat([length, data]);
+}
+
+/** Split the TCP stream received from the device into datagrams */
+export class DatagramDecoder {
+	private buffer = Buffer.alloc(0);
+
+	constructor(private framing: UdpFraming) {}
+
+	/** Add data received from the device, returning the complete datagrams */
+	public push(data: Buffer): Buffer[] {
+		this.buffer = Buffer.concat([this.buffer, data]);
+		const datagrams: Buffer[] = [];
+		for (;;) {
+			const frame = this.getNextFrame();
+			if (frame == null || this.buffer.length < frame.end) {
+				break;
+			}
+			datagrams.push(this.buffer.subarray(frame.start, frame.end));
+			this.buffer = this.buffer.subarray(frame.end);
+		}
+		return datagrams;
+	}
+
+	/**
+	 * The offsets of the datagram at the start of the buffer, or undefined if
+	 * its length is not known yet
+	 */
+	private getNextFrame(): { start: number; end: number } | undefined {
+		if (this.framing === 'mbap') {
+			if (this.buffer.length < MBAP_PREFIX_LENGTH) {
+				return;
+			}
+			return {
+				start: 0,
+				end: MBAP_PREFIX_LENGTH + this.buffer.readUInt16BE(4),
+			};
+		}
+		if (this.buffer.length < 2) {
+			return;
+		}
+		return { start: 2, end: 2 + this.buffer.readUInt16BE(0) };
+	}
+}
+
+interface UdpSession {
+	remote: Promise<Socket>;
+	timer: NodeJS.Timeout;
+}
+
+/**
+ * Forward UDP datagrams sent to a local port to the remote port of a device.
+ * The tunnel server only carries TCP streams, so each local peer (address
+ * and port) gets its own TCP connection to the device, over which its
+ * datagrams are framed as per `framing`. This requires the device to accept
+ * the TCP variant of the protocol on the same port (as DNS and Modbus
+ * servers usually do).
+ */
+export async function forwardUdpPort(
+	openDevicePort: DevicePortOpener,
+	{ localAddress, localPort, remotePort }: PortMapping,
+	framing: UdpFraming,
+	onConnection?: TunnelConnectionLogger,
+): Promise<UdpSocket> {
+	const dgram = await import('dgram');
+	const { isIPv6 } = await import('net');
+	const udpSocket = dgram.createSocket(isIPv6(localAddress) ? 'udp6' : 'udp4');
+	const sessions = new Map<string, UdpSession>();
+
+	const closeSession = (key: string) => {
+		const session = sessions.get(key);
+		if (session != null) {
+			sessions.delete(key);
+			clearTimeout(session.timer);
+			session.remote.then(
+				(remote) => remote.destroy(),
+				() => undefined,
+			);
+		}
+	};
+
+	const openSession = (key: string, peer: RemoteInfo): UdpSession => {
+		const connection = {
+			fromHost: peer.address,
+			fromPort: peer.port,
+			localAddress,
+			localPort,
+			remotePort,
+		};
+		const remote = openDevicePort(remotePort);
+		remote.then(
+			(socket) => {
+				const decoder = new DatagramDecoder(framing);
+				socket.on('data', (data: Buffer) => {
+					for (const datagram of decoder.push(data)) {
+						udpSocket.send(datagram, peer.port, peer.address, (err) => {
+							if (err) {
+								closeSession(key);
+								onConnection?.(connection, err);
+							}
+						});
+					}
+				});
+				socket.on('error', () => {
+					closeSession(key);
+				});
+				socket.on('close', () => {
+					closeSession(key);
+				});
+				onConnection?.(connection);
+			},
+			(err) => {
+				closeSession(key);
+				onConnection?.(connection, err);
+			},
+		);
+		return {
+			remote,
+			timer: setTimeout(() => {
+				closeSession(key);
+			}, UDP_SESSION_TIMEOUT_MS),
+		};
+	};
+
+	udpSocket.on('message', (data, peer) => {
+		const key = `${peer.address}:${peer.port}`;
+		let session = sessions.get(key);
+		if (session == null) {
+			session = openSession(key, peer);
+			sessions.set(key, session);
+		} else {
+			session.timer.refresh();
+		}
+		session.remote.then(
+			(remote) => remote.write(encodeDatagram(data, framing)),
+			() => undefined,
+		);
+	});
+	udpSocket.on('close', () => {
+		for (const key of [...sessions.keys()]) {
+			closeSession(key);
+		}
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		udpSocket.once('error', reject);
+		udpSocket.bind(localPort, localAddress, () => {
+			udpSocket.removeListener('error', reject);
+			resolve();
+		});
+	});
+	// Errors receiving datagrams should not end the other tunnels
+	const Logger = await import('./logger');
+	udpSocket.on('error', (err) => {
+		Logger.getLogger().logWarn(
+			`UDP port ${localAddress}:${localPort}: ${err.message}`,
+		);
+	});
+	return udpSocket;
+}
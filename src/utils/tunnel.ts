@@ -17,13 +17,13 @@ import type { BalenaSDK } from 'balena-sdk';
 import type { Socket } from 'net';
 import * as tls from 'tls';
 import { TypedError } from 'typed-error';
-import { ExpectedError } from '../errors';
+import { ExpectedError, InvalidPortMappingError } from '../errors';
 
 const PROXY_CONNECT_TIMEOUT_MS = 10000;
 
 class TunnelServerNotTrustedError extends ExpectedError {}
 
-class UnableToConnectError extends TypedError {
+export class UnableToConnectError extends TypedError {
 	public status: string;
 	public statusCode: string;
 	constructor(statusCode: string, status: string) {
@@ -33,30 +33,117 @@ class UnableToConnectError extends TypedError {
 	}
 }
 
-class RemoteSocketNotListening extends TypedError {
+export class RemoteSocketNotListening extends TypedError {
 	public port: number;
 	constructor(port: number) {
 		super(`Device is not listening on port ${port}`);
 	}
 }
 
-export const tunnelConnectionToDevice = (
+export interface PortMapping {
+	remotePort: number;
+	localAddress: string;
+	localPort: number;
+}
+
+const isValidPort = (port: number) => {
+	const MAX_PORT_VALUE = Math.pow(2, 16) - 1;
+	return port > 0 && port <= MAX_PORT_VALUE;
+};
+
+/** Opens a connection to the given port of a device */
+export type DevicePortOpener = (port: number) => Promise<Socket>;
+
+/** A local connection (or UDP peer) tunnelled to a port of a device */
+export interface TunnelConnection {
+	fromHost: string;
+	fromPort: number;
+	localAddress: string;
+	localPort: number;
+	remotePort: number;
+}
+
+export type TunnelConnectionLogger = (
+	connection: TunnelConnection,
+	err?: Error,
+) => void;
+
+/**
+ * Parse a port mapping specification string in the format:
+ *  <remotePort>[:[localIP:]localPort]
+ * @param portMapping
+ * @param defaultLocalAddress Local address if the mapping does not specify one
+ */
+export function parsePortMapping(
+	portMapping: string,
+	defaultLocalAddress = 'localhost',
+): PortMapping {
+	const mappingElements = portMapping.split(':');
+
+	let localAddress = defaultLocalAddress;
+
+	// First element is always remotePort
+	// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
+	// eslint-disable-next-line radix
+	const remotePort = parseInt(mappingElements[0], undefined);
+	let localPort = remotePort;
+
+	if (mappingElements.length === 2) {
+		// [1] could be localAddress or localPort
+		if (/^\d+$/.test(mappingElements[1])) {
+			// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
+			// eslint-disable-next-line radix
+			localPort = parseInt(mappingElements[1], undefined);
+		} else {
+			localAddress = mappingElements[1];
+		}
+	} else if (mappingElements.length === 3) {
+		// [1] is localAddress, [2] is localPort
+		localAddress = mappingElements[1];
+		// TODO: figure out why we have explicitly passed `undefined` for the radix parameter
+		// eslint-disable-next-line radix
+		localPort = parseInt(mappingElements[2], undefined);
+	} else if (mappingElements.length > 3) {
+		throw new InvalidPortMappingError(portMapping);
+	}
+
+	// Validate results
+	if (!isValidPort(remotePort) || !isValidPort(localPort)) {
+		throw new InvalidPortMappingError(portMapping);
+	}
+
+	return { remotePort, localAddress, localPort };
+}
+
+/**
+ * Return a function that opens a connection to the given port of a device,
+ * through the balenaCloud tunnel server.
+ */
+export const getDevicePortOpener = async (
 	uuid: string,
-	port: number,
 	sdk: BalenaSDK,
-) => {
-	return Promise.all([
+): Promise<DevicePortOpener> => {
+	const [tunnelUrl, whoami, token] = await Promise.all([
 		sdk.settings.get('tunnelUrl'),
 		sdk.auth.whoami(),
 		sdk.auth.getToken(),
-	]).then(([tunnelUrl, whoami, token]) => {
-		const auth = {
-			user: whoami?.actorType === 'user' ? whoami.username : 'root',
-			password: token,
-		};
+	]);
+	const auth = {
+		user: whoami?.actorType === 'user' ? whoami.username : 'root',
+		password: token,
+	};
+	return (port: number) =>
+		openPortThroughProxy(tunnelUrl, 443, auth, uuid, port);
+};
 
+export const tunnelConnectionToDevice = (
+	uuid: string,
+	port: number,
+	sdk: BalenaSDK,
+) => {
+	return getDevicePortOpener(uuid, sdk).then((openPort) => {
 		return (client: Socket): Promise<void> =>
-			openPortThroughProxy(tunnelUrl, 443, auth, uuid, port)
+			openPort(port)
 				.then((remote) => {
 					client.pipe(remote);
 					remote.pipe(client);
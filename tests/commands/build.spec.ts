@@ -645,4 +645,26 @@ describe('balena build: project validation', function () {
 		expect(cleanOutput(err, true)).to.include.members(expectedErrorLines);
 		expect(out).to.be.empty;
 	});
+
+	it('should raise ExpectedError if --arch is not given for every --deviceType', async () => {
+		const projectPath = path.join(projectsPath, 'no-docker-compose', 'basic');
+		const { out, err } = await runCommand(
+			`build ${projectPath} -d nuc -A amd64 -d raspberrypi3`,
+		);
+		expect(cleanOutput(err, true)).to.include(
+			'When building for multiple device types, the architecture (-A) must be specified for each of them, or for none',
+		);
+		expect(out).to.be.empty;
+	});
+
+	it('should raise ExpectedError if an architecture is given more than once', async () => {
+		const projectPath = path.join(projectsPath, 'no-docker-compose', 'basic');
+		const { out, err } = await runCommand(
+			`build ${projectPath} -d nuc -A amd64 -d genericx86-64-ext -A amd64`,
+		);
+		expect(cleanOutput(err, true)).to.include(
+			'Only one fleet or device type may be built per architecture (found more than one for: amd64)',
+		);
+		expect(out).to.be.empty;
+	});
 });
@@ -324,4 +324,68 @@ describe('balena envs', function () {
 		expect(JSON.parse(out.join(''))).to.deep.equal(JSON.parse(expected));
 		expect(err.join('')).to.equal('');
 	});
+
+	it('should export effective config vars for a test device (--output dotenv)', async () => {
+		api.expectGetDevice({ shortUUID, fullUUID });
+		api.expectGetDevice({ fullUUID });
+		api.expectGetDeviceConfigVars();
+		api.expectGetApplication();
+		api.expectGetAppConfigVars();
+
+		const { out, err } = await runCommand(
+			`envs -d ${shortUUID} --config --output dotenv`,
+		);
+
+		expect(out.join('')).to.equal(
+			stripIndent`
+			RESIN_SUPERVISOR_NATIVE_LOGGER=false
+			RESIN_SUPERVISOR_POLL_INTERVAL=900900
+		` + '\n',
+		);
+		expect(err.join('')).to.equal('');
+	});
+
+	it('should export env and service vars for a test device (--output json-map)', async () => {
+		const serviceName = 'service1';
+		api.expectGetServiceFromApp({ serviceName });
+		api.expectGetApplication();
+		api.expectGetAppEnvVars();
+		api.expectGetAppServiceVars();
+		api.expectGetDevice({ shortUUID, fullUUID });
+		api.expectGetDevice({ fullUUID });
+		api.expectGetDeviceEnvVars();
+		api.expectGetDeviceServiceVars();
+
+		const { out, err } = await runCommand(
+			`envs -d ${shortUUID} -s ${serviceName} --output json-map`,
+		);
+
+		expect(JSON.parse(out.join(''))).to.deep.equal({
+			svar1: 'svar1-value',
+			svar3: 'svar3-value',
+			var1: 'var1-val',
+			var2: '22',
+			var3: 'var3-val',
+			var4: '44',
+		});
+		expect(err.join('')).to.equal('');
+	});
+
+	it('should omit service vars when exporting without --service (--output yaml)', async () => {
+		api.expectGetApplication();
+		api.expectGetAppEnvVars();
+		api.expectGetAppServiceVars();
+
+		const { out, err } = await runCommand(`envs -f ${appName} --output yaml`);
+
+		expect(out.join('')).to.equal(
+			stripIndent`
+			var1: var1-val
+			var2: '22'
+		` + '\n',
+		);
+		expect(err.join('')).to.contain(
+			'Service-specific variables were not exported: svar1, svar2',
+		);
+	});
 });
@@ -42,4 +42,15 @@ describe('balena env rm', function () {
 		expect(out.join('')).to.equal('');
 		expect(err.join('')).to.equal('');
 	});
+
+	it('should require the --fleet option when using device selectors', async () => {
+		const { out, err } = await runCommand(
+			'env rm EDITOR --device-tag ring=canary -y',
+		);
+
+		expect(out.join('')).to.equal('');
+		expect(err.join('')).to.contain(
+			'The --fleet option is required when selecting devices by name',
+		);
+	});
 });
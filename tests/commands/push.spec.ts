@@ -17,6 +17,7 @@
 
 import { expect } from 'chai';
 import { promises as fs } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 import { BalenaAPIMock } from '../nock/balena-api-mock';
@@ -274,6 +275,63 @@ describe('balena push', function () {
 		});
 	});
 
+	it('should write a build report (--report)', async () => {
+		const projectPath = path.join(
+			projectsPath,
+			'no-docker-compose',
+			'dockerignore2',
+		);
+		const expectedFiles: ExpectedTarStreamFiles = {
+			'.dockerignore': { fileSize: 33, type: 'file' },
+			'b.txt': { fileSize: 1, type: 'file' },
+			Dockerfile: { fileSize: 13, type: 'file' },
+			'lib/.dockerignore': { fileSize: 10, type: 'file' },
+			'lib/src-b.txt': { fileSize: 5, type: 'file' },
+			'src/src-b.txt': { fileSize: 5, type: 'file' },
+			'symlink-a.txt': { fileSize: 5, type: 'file' },
+		};
+		const regSecretsPath = await addRegSecretsEntries(expectedFiles);
+		const reportPath = path.join(os.tmpdir(), `push-report-${Date.now()}.json`);
+		const responseFilename = 'build-POST-v3.json';
+		const responseBody = await fs.readFile(
+			path.join(builderResponsePath, responseFilename),
+			'utf8',
+		);
+		api.expectGetRelease();
+
+		try {
+			await testPushBuildStream({
+				builderMock: builder,
+				commandLine: `push testApp -s ${projectPath} -R ${regSecretsPath} --report ${reportPath}`,
+				expectedFiles,
+				expectedQueryParams: commonQueryParams,
+				expectedResponseLines: [
+					...commonResponseLines[responseFilename],
+					`[Info] Build report written to "${reportPath}"`,
+				],
+				projectPath,
+				responseBody,
+				responseCode: 200,
+			});
+			const report = JSON.parse(await fs.readFile(reportPath, 'utf8'));
+			expect(report).to.include({
+				command: 'push',
+				fleet: 'gh_user/testApp',
+				status: 'success',
+			});
+			expect(report.release).to.deep.equal({
+				id: 142334,
+				commit: '90247b54de4fa7a0a3cbc85e73c68039',
+				status: 'success',
+				isFinal: false,
+			});
+			expect(report.builder).to.deep.equal({ buildLogId: '1220245' });
+			expect(report.warnings).to.be.an('array');
+		} finally {
+			await fs.rm(reportPath, { force: true });
+		}
+	});
+
 	// NOTE: if this test or other tests involving symbolic links fail on Windows
 	// (with a mismatched fileSize 13 vs 5 for 'symlink-a.txt'), ensure that the
 	// `core.symlinks` property is set to `true` in the `.git/config` file. Ref:
@@ -599,4 +657,14 @@ describe('balena push: project validation', function () {
 		expect(cleanOutput(err, true)).to.include.members(expectedErrorLines);
 		expect(out).to.be.empty;
 	});
+
+	it('should reject --from-release when pushing to a fleet', async () => {
+		const { out, err } = await runCommand(
+			'push testApp --from-release a777f7345fe3d655c1c981aa642e5555',
+		);
+		expect(cleanOutput(err, true)).to.include.members([
+			'The --from-release flag is only valid when pushing to a local mode device',
+		]);
+		expect(out).to.be.empty;
+	});
 });
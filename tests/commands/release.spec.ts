@@ -16,6 +16,11 @@
  */
 
 import { expect } from 'chai';
+import { createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar-stream';
 
 import { BalenaAPIMock } from '../nock/balena-api-mock';
 import { cleanOutput, runCommand } from '../helpers';
@@ -66,6 +71,53 @@ describe('balena release', function () {
 		expect(json.composition.services.main.network_mode).to.equal('host');
 	});
 
+	it('should compare two releases', async () => {
+		const makeRelease = (id: number, commit: string, mainEnv: object) => ({
+			d: [
+				{
+					id,
+					commit,
+					note: null,
+					composition: {
+						version: '2.1',
+						services: { main: { environment: mainEnv } },
+					},
+					release_tag: [{ tag_key: 'version', value: `${id}` }],
+					release_image: [
+						{
+							id: id * 10,
+							image: [
+								{
+									content_hash: `sha256:${commit}`,
+									is_a_build_of__service: [{ service_name: 'main' }],
+								},
+							],
+						},
+					],
+				},
+			],
+		});
+		api.scope
+			.get(/^\/v6\/release\?.*startswith\(commit,%27aaaaaaa%27\)/)
+			.reply(200, makeRelease(1, 'aaaaaaa', { DEBUG: '0' }));
+		api.scope
+			.get(/^\/v6\/release\?.*startswith\(commit,%27bbbbbbb%27\)/)
+			.reply(200, makeRelease(2, 'bbbbbbb', { DEBUG: '1' }));
+
+		const { err, out } = await runCommand('release diff aaaaaaa bbbbbbb');
+		expect(err).to.be.empty;
+		expect(cleanOutput(out)).to.deep.equal([
+			'Comparing release aaaaaaa (id: 1) with release bbbbbbb (id: 2)',
+			'Services',
+			'~ main',
+			'~ environment.DEBUG: 0 -> 1',
+			'Images',
+			'~ main: sha256:aaaaaaa -> sha256:bbbbbbb',
+			'Release tags',
+			'~ version: 1 -> 2',
+		]);
+	});
+
 	it('should list releases', async () => {
 		api.expectGetRelease();
 		api.expectGetApplication();
@@ -88,4 +140,84 @@ describe('balena release', function () {
 		);
 		expect(json[0].__metadata.uri).to.equal('/resin/release(@id)?@id=142334');
 	});
+
+	it('should require a release or --resume/--abort for rollout', async () => {
+		const { err } = await runCommand('release rollout --fleet myorg/myfleet');
+		expect(cleanOutput(err, true).join(' ')).to.contain(
+			'Either a release or one of the --resume or --abort options must be provided',
+		);
+	});
+
+	it('should refuse to promote a draft release', async () => {
+		api.scope
+			.get(/^\/v\d+\/release\?.*startswith\(commit,%27bbbbbbb%27\)/)
+			.reply(200, {
+				d: [
+					{
+						id: 2,
+						commit: 'bbbbbbb',
+						status: 'success',
+						is_final: false,
+						belongs_to__application: [
+							{
+								id: 1,
+								slug: 'org/staging',
+								is_for__device_type: [{ slug: 'raspberrypi4-64' }],
+							},
+						],
+						release_tag: [],
+						release_image: [],
+					},
+				],
+			});
+		const { err } = await runCommand(
+			'release promote bbbbbbb --fleet org/production',
+		);
+		expect(cleanOutput(err, true).join(' ')).to.contain(
+			'Release bbbbbbb is a draft: only finalized releases can be copied',
+		);
+	});
+
+	it('should refuse to import a release built for an incompatible architecture', async () => {
+		const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'release-import-'));
+		const bundlePath = path.join(tmpDir, 'bundle.tar');
+		const pack = tar.pack();
+		pack.entry(
+			{ name: 'release.json' },
+			JSON.stringify({
+				bundleVersion: 1,
+				fleet: { slug: 'org/staging', deviceType: 'raspberrypi4-64' },
+				release: { commit: 'aaaaaaa', composition: {}, tags: {}, images: {} },
+				images: {},
+			}),
+		);
+		pack.finalize();
+		await pipeline(pack, createWriteStream(bundlePath));
+
+		// the fleet of the application mock is a raspberrypi3 (armv7hf) fleet
+		api.expectGetApplication();
+		const arches: Dictionary<string> = {
+			raspberrypi3: 'armv7hf',
+			'raspberrypi4-64': 'aarch64',
+		};
+		api.scope
+			.get(/^\/v\d+\/device_type\?/)
+			.times(2)
+			.reply(200, (uri) => {
+				const slug = Object.keys(arches).find((dt) =>
+					decodeURIComponent(uri).includes(`'${dt}'`),
+				)!;
+				return { d: [{ is_of__cpu_architecture: [{ slug: arches[slug] }] }] };
+			});
+		try {
+			const { err } = await runCommand(
+				`release import ${bundlePath} --fleet gh_user/testApp`,
+			);
+			expect(cleanOutput(err, true).join(' ')).to.contain(
+				'The device type of fleet gh_user/testApp (raspberrypi3) is not compatible with the architecture of fleet org/staging (raspberrypi4-64)',
+			);
+		} finally {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		}
+	});
 });
@@ -133,6 +133,28 @@ describe('balena ssh', function () {
 		expect(out).to.be.empty;
 	});
 
+	itSS('should run a command on many devices (mocked, --all)', async () => {
+		mockedExitCode = 0;
+		const { err, out } = await runCommand(
+			'ssh 1.2.3.4,5.6.7.8 --all --command uptime --json',
+		);
+		expect(err).to.be.empty;
+		expect(
+			JSON.parse(out.join('')).map((r: any) => [r.target, r.exitCode]),
+		).to.deep.equal([
+			['1.2.3.4', 0],
+			['5.6.7.8', 0],
+		]);
+	});
+
+	itSS('should require --all for the --command option', async () => {
+		const { err, out } = await runCommand('ssh 1.2.3.4 --command uptime');
+		expect(cleanOutput(err, true)).to.include.members([
+			'The --command option requires the --all option',
+		]);
+		expect(out).to.be.empty;
+	});
+
 	it('should produce the expected error message (real ssh, device IP address)', async function () {
 		await mockSpawn({ revert: true });
 		api.expectGetWhoAmI({ optional: true, persist: true });
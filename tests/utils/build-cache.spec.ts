@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { ContextHashOptions } from '../../build/utils/build-cache';
+import { computeServiceContextHashes } from '../../build/utils/build-cache';
+
+describe('computeServiceContextHashes() function', function () {
+	let projectPath: string;
+	const opts: ContextHashOptions = {
+		composition: {
+			version: '2.1',
+			services: {
+				service1: { build: { context: './service1' } },
+				service2: { build: { context: './service2' } },
+				db: { image: 'postgres' },
+			},
+		},
+		arch: 'aarch64',
+		deviceType: 'raspberrypi4-64',
+		buildOpts: {},
+	};
+
+	const writeFile = async (relPath: string, contents: string) => {
+		const filePath = path.join(projectPath, relPath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, contents);
+	};
+
+	this.beforeEach(async () => {
+		projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'build-cache-'));
+		await writeFile('service1/Dockerfile', 'FROM alpine\n');
+		await writeFile('service1/main.sh', 'echo 1\n');
+		await writeFile('service2/Dockerfile', 'FROM alpine\n');
+		await writeFile('service2/main.sh', 'echo 2\n');
+		await writeFile('.dockerignore', '**/ignored.txt\n');
+	});
+
+	this.afterEach(async () => {
+		await fs.rm(projectPath, { recursive: true, force: true });
+	});
+
+	it('should only hash services that are built', async () => {
+		const hashes = await computeServiceContextHashes(projectPath, opts);
+		expect(hashes).to.have.keys('service1', 'service2');
+		expect(hashes.service1).to.match(/^[0-9a-f]{64}$/);
+		expect(hashes.service1).to.not.equal(hashes.service2);
+	});
+
+	it('should only change the hash of the modified service', async () => {
+		const before = await computeServiceContextHashes(projectPath, opts);
+		await writeFile('service2/main.sh', 'echo 3\n');
+		const after = await computeServiceContextHashes(projectPath, opts);
+		expect(after.service1).to.equal(before.service1);
+		expect(after.service2).to.not.equal(before.service2);
+	});
+
+	it('should ignore files excluded by .dockerignore', async () => {
+		const before = await computeServiceContextHashes(projectPath, opts);
+		await writeFile('service2/ignored.txt', 'ignored');
+		const after = await computeServiceContextHashes(projectPath, opts);
+		expect(after).to.deep.equal(before);
+	});
+
+	it('should change all hashes when the build options change', async () => {
+		const before = await computeServiceContextHashes(projectPath, opts);
+		const after = await computeServiceContextHashes(projectPath, {
+			...opts,
+			buildOpts: { buildargs: { DEBUG: '1' } },
+		});
+		expect(after.service1).to.not.equal(before.service1);
+		expect(after.service2).to.not.equal(before.service2);
+	});
+});
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+
+import { BuildReport } from '../../build/utils/build-report';
+
+describe('BuildReport', function () {
+	let tmpDir: string;
+	const sdk: any = {
+		models: {
+			release: {
+				get: sinon.stub().resolves({
+					id: 123,
+					commit: 'aaaaaaa',
+					status: 'failed',
+					is_final: true,
+					release_image: [],
+				}),
+			},
+		},
+	};
+
+	this.beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-report-'));
+	});
+
+	this.afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should report the release of a failed deploy', async () => {
+		const report = new BuildReport('deploy', 'org/fleet');
+		report.releaseId = 123;
+		const reportPath = path.join(tmpDir, 'report.json');
+		await report.write(sdk, reportPath, new Error('image upload failed'));
+		const data = JSON.parse(await fs.readFile(reportPath, 'utf8'));
+		expect(data.status).to.equal('failed');
+		expect(data.error).to.equal('image upload failed');
+		expect(data.release).to.deep.equal({
+			id: 123,
+			commit: 'aaaaaaa',
+			status: 'failed',
+			isFinal: true,
+		});
+	});
+
+	it('should not throw if the report cannot be written', async () => {
+		const report = new BuildReport('push', 'org/fleet');
+		await report.write(sdk, path.join(tmpDir, 'missing', 'report.json'));
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ExpectedError } from '../../build/errors';
+import { parseTagSelector, selectDevices } from '../../build/utils/cloud';
+
+describe('parseTagSelector() function', () => {
+	it('should parse key=value and key-only selectors', () => {
+		expect(parseTagSelector('ring=canary')).to.deep.equal({
+			key: 'ring',
+			value: 'canary',
+		});
+		expect(parseTagSelector('a=b=c')).to.deep.equal({ key: 'a', value: 'b=c' });
+		expect(parseTagSelector('ring=')).to.deep.equal({ key: 'ring', value: '' });
+		expect(parseTagSelector('ring')).to.deep.equal({ key: 'ring' });
+	});
+
+	it('should reject an empty tag key', () => {
+		expect(() => parseTagSelector('=canary')).to.throw(ExpectedError);
+	});
+});
+
+describe('selectDevices() function', () => {
+	const devices = [
+		{
+			uuid: 'a1',
+			is_online: true,
+			os_version: 'balenaOS 5.1.20',
+			device_tag: [{ tag_key: 'ring', value: 'canary' }],
+		},
+		{
+			uuid: 'b2',
+			is_online: false,
+			os_version: 'balenaOS 5.0.1',
+			device_tag: [{ tag_key: 'ring', value: 'canary' }],
+		},
+		{
+			uuid: 'c3',
+			is_online: true,
+			os_version: 'balenaOS 2.88.4',
+			device_tag: [{ tag_key: 'ring', value: 'stable' }],
+		},
+		{
+			uuid: 'd4',
+			is_online: true,
+			os_version: null,
+			device_tag: [],
+		},
+	];
+	const sdk: any = {
+		models: {
+			device: {
+				getAllByApplication: sinon.stub().resolves(devices),
+			},
+		},
+	};
+	const select = async (selector: object) =>
+		(await selectDevices(sdk, { fleet: 'org/fleet', ...selector })).map(
+			(d) => d.uuid,
+		);
+
+	it('should select all devices of a fleet without filters', async () => {
+		expect(await select({})).to.deep.equal(['a1', 'b2', 'c3', 'd4']);
+	});
+
+	it('should filter devices by tag, online status and OS version', async () => {
+		expect(await select({ tags: ['ring=canary'] })).to.deep.equal(['a1', 'b2']);
+		expect(await select({ tags: ['ring'] })).to.deep.equal(['a1', 'b2', 'c3']);
+		expect(await select({ online: true })).to.deep.equal(['a1', 'c3', 'd4']);
+		expect(await select({ osVersion: '>=5' })).to.deep.equal(['a1', 'b2']);
+		expect(
+			await select({ tags: ['ring=canary'], online: true, osVersion: '>=5' }),
+		).to.deep.equal(['a1']);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar-stream';
+
+import {
+	copyFromDevice,
+	createLocalExtractor,
+	getLocalEntryPath,
+	packLocalPath,
+	parseDevicePath,
+} from '../../../build/utils/device/cp';
+
+describe('parseDevicePath', () => {
+	it('should parse device paths', () => {
+		expect(parseDevicePath('f49cefd:/data')).to.deep.equal({
+			device: 'f49cefd',
+			service: undefined,
+			path: '/data',
+		});
+		expect(parseDevicePath('192.168.1.10:main:/usr/src//app/')).to.deep.equal({
+			device: '192.168.1.10',
+			service: 'main',
+			path: '/usr/src/app/',
+		});
+	});
+
+	it('should return undefined for local paths', () => {
+		for (const arg of ['./data', 'C:\\data', 'notadevice:/data', 'f49cefd:']) {
+			expect(parseDevicePath(arg)).to.be.undefined;
+		}
+	});
+});
+
+describe('getLocalEntryPath', () => {
+	it('should map tar entries to local paths', () => {
+		const root = path.join('dest', 'logs2');
+		expect(getLocalEntryPath('logs', 'logs', root)).to.equal(root);
+		expect(getLocalEntryPath('logs/a/b.txt', 'logs', root)).to.equal(
+			path.join(root, 'a', 'b.txt'),
+		);
+		expect(getLocalEntryPath('logs/../../etc/passwd', 'logs', root)).to.be
+			.undefined;
+		expect(getLocalEntryPath('logsx/a', 'logs', root)).to.be.undefined;
+	});
+});
+
+describe('packLocalPath and createLocalExtractor', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'balena-cp-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should copy directories recursively, preserving permissions', async () => {
+		const src = path.join(tmpDir, 'src');
+		await fs.mkdir(path.join(src, 'bin'), { recursive: true });
+		await fs.writeFile(path.join(src, 'data.txt'), 'hello');
+		await fs.writeFile(path.join(src, 'bin', 'run.sh'), '#!/bin/sh\n');
+		await fs.chmod(path.join(src, 'bin', 'run.sh'), 0o750);
+
+		const { pack, size } = await packLocalPath(src, 'src');
+		expect(size).to.equal(15);
+		const dest = path.join(tmpDir, 'dest');
+		const extract = createLocalExtractor('src', dest);
+		await new Promise((resolve, reject) => {
+			pack.pipe(extract).on('finish', resolve).on('error', reject);
+		});
+
+		expect(await fs.readFile(path.join(dest, 'data.txt'), 'utf8')).to.equal(
+			'hello',
+		);
+		if (process.platform !== 'win32') {
+			const stats = await fs.stat(path.join(dest, 'bin', 'run.sh'));
+			expect(stats.mode % 0o1000).to.equal(0o750);
+		}
+	});
+
+	it('should fail if the remote tar fails mid-copy', async () => {
+		const src = path.join(tmpDir, 'src');
+		await fs.mkdir(src);
+		await fs.writeFile(path.join(src, 'data.txt'), 'x'.repeat(10000));
+		const { pack } = await packLocalPath(src, 'src');
+		const chunks: Buffer[] = [];
+		for await (const chunk of pack) {
+			chunks.push(chunk);
+		}
+		const archive = Buffer.concat(chunks);
+
+		const shell = async (
+			command: string,
+			io: { stdout?: NodeJS.WritableStream } = {},
+		) => {
+			if (command.startsWith('du ')) {
+				io.stdout!.end('10\n');
+				return;
+			}
+			// a truncated archive, as if tar failed to read a file
+			io.stdout!.end(archive.subarray(0, 2048));
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			throw new Error('tar failed');
+		};
+		const unhandled: unknown[] = [];
+		const onUnhandled = (reason: unknown) => unhandled.push(reason);
+		process.on('unhandledRejection', onUnhandled);
+		try {
+			await copyFromDevice(shell, '/data/src', path.join(tmpDir, 'dest'));
+			expect.fail('copyFromDevice() should have thrown');
+		} catch (err) {
+			expect(err.message).to.not.contain('should have thrown');
+		} finally {
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			process.removeListener('unhandledRejection', onUnhandled);
+		}
+		expect(unhandled).to.deep.equal([]);
+	});
+
+	it('should not extract entries through extracted symbolic links', async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+		const outside = path.join(tmpDir, 'outside');
+		await fs.mkdir(outside);
+		const pack = tar.pack();
+		pack.entry({ name: 'src', type: 'directory' });
+		pack.entry({ name: 'src/link', type: 'symlink', linkname: outside });
+		pack.entry({ name: 'src/link/evil.txt' }, 'evil');
+		pack.finalize();
+
+		const extract = createLocalExtractor('src', path.join(tmpDir, 'dest'));
+		let error: Error | undefined;
+		await new Promise<void>((resolve) => {
+			pack
+				.pipe(extract)
+				.on('finish', resolve)
+				.on('error', (err) => {
+					error = err;
+					resolve();
+				});
+		});
+		expect(error?.message).to.equal(
+			'Refusing to extract "src/link/evil.txt" through the symbolic link "' +
+				path.join(tmpDir, 'dest', 'link') +
+				'"',
+		);
+		expect(await fs.readdir(outside)).to.deep.equal([]);
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as _ from 'lodash';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExpectedError } from '../../../build/errors';
+import {
+	checkEventsFile,
+	LiveStatus,
+} from '../../../build/utils/device/live-status';
+import type { Status } from '../../../build/utils/device/api';
+
+describe('LiveStatus', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-status-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const deviceStatus = (status: string) =>
+		({
+			appState: 'applied',
+			overallDownloadProgress: null,
+			containers: [{ serviceName: 'main', status }],
+			images: [],
+		}) as unknown as Status;
+
+	it('should track the status of services', async () => {
+		const liveStatus = new LiveStatus({});
+		liveStatus.setDeviceStatus(deviceStatus('Running'));
+		liveStatus.setPending('main', 2);
+		liveStatus.setRebuilding('main', true);
+		liveStatus.setError('main', 'Rebuild failed');
+		liveStatus.setRebuilding('main', false);
+		expect(liveStatus.services.main).to.deep.equal({
+			pending: 2,
+			rebuilding: false,
+			containerStatus: 'Running',
+			lastError: 'Rebuild failed',
+		});
+		liveStatus.setSynced('main');
+		expect(liveStatus.services.main).to.include({
+			pending: 0,
+			lastError: undefined,
+		});
+		expect(liveStatus.renderDashboard()).to.include('Running');
+		await liveStatus.close();
+	});
+
+	it('should append status transitions to the events file', async () => {
+		const eventsFile = path.join(tmpDir, 'events.ndjson');
+		const liveStatus = new LiveStatus({ eventsFile });
+		liveStatus.setDeviceStatus(deviceStatus('Running'));
+		liveStatus.setDeviceStatus(deviceStatus('Running'));
+		liveStatus.setPending('main', 1);
+		liveStatus.setDeviceStatus(deviceStatus('exited'));
+		await liveStatus.close();
+
+		const events = (await fs.readFile(eventsFile, 'utf8'))
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+		expect(events.map((event) => _.omit(event, 'timestamp'))).to.deep.equal([
+			{
+				service: 'main',
+				event: 'container-status',
+				containerStatus: 'Running',
+			},
+			{ service: 'main', event: 'pending', pending: 1 },
+			{ service: 'main', event: 'container-status', containerStatus: 'exited' },
+		]);
+		expect(events[0].timestamp).to.be.a('string');
+	});
+
+	it('should keep tracking the status if the events file cannot be written', async () => {
+		const eventsFile = path.join(tmpDir, 'missing', 'events.ndjson');
+		const liveStatus = new LiveStatus({ eventsFile });
+		liveStatus.setPending('main', 1);
+		// let the stream fail to open the file
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		liveStatus.setPending('main', 2);
+		expect(liveStatus.services.main).to.include({ pending: 2 });
+		await liveStatus.close();
+	});
+});
+
+describe('checkEventsFile() function', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-status-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should accept a writable path', async () => {
+		await checkEventsFile(path.join(tmpDir, 'events.ndjson'));
+	});
+
+	it('should reject a path that cannot be written', async () => {
+		const eventsFile = path.join(tmpDir, 'missing', 'events.ndjson');
+		let error: Error | undefined;
+		try {
+			await checkEventsFile(eventsFile);
+		} catch (err) {
+			error = err;
+		}
+		expect(error).to.be.instanceOf(ExpectedError);
+		expect(error?.message).to.include(eventsFile);
+	});
+});
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as path from 'path';
+
+import {
+	getSyncConfig,
+	getSyncTargets,
+} from '../../../build/utils/device/live-sync';
+
+describe('getSyncConfig', () => {
+	it('should return undefined for services without a sync field', () => {
+		expect(getSyncConfig('main', { build: '.' })).to.be.undefined;
+	});
+
+	it('should parse the sync field of a service', () => {
+		expect(
+			getSyncConfig('main', {
+				'x-balena-sync': {
+					paths: { './src/': '/usr/src/app/src', 'app.py': '/app.py' },
+					restart: 'kill -HUP 1',
+				},
+			}),
+		).to.deep.equal({
+			paths: { src: '/usr/src/app/src', 'app.py': '/app.py' },
+			restart: 'kill -HUP 1',
+		});
+	});
+
+	it('should reject invalid sync fields', () => {
+		for (const sync of [
+			'src:/app',
+			{ paths: {} },
+			{ paths: { '../src': '/app' } },
+			{ paths: { src: 'app' } },
+			{ paths: { src: '/app' }, restart: 1 },
+		]) {
+			expect(() => getSyncConfig('main', { 'x-balena-sync': sync })).to.throw(
+				`Invalid 'x-balena-sync' field of service 'main'`,
+			);
+		}
+	});
+});
+
+describe('getSyncTargets', () => {
+	it('should map changed files to container paths', () => {
+		const config = {
+			paths: { src: '/usr/src/app/src', 'app.py': '/app/main.py' },
+		};
+		expect(
+			getSyncTargets(config, [
+				path.join('src', 'lib', 'index.js'),
+				'app.py',
+				'README.md',
+				'src2',
+				'app.py',
+			]),
+		).to.deep.equal([
+			{
+				hostPath: path.join('src', 'lib', 'index.js'),
+				containerPath: '/usr/src/app/src/lib/index.js',
+			},
+			{ hostPath: 'app.py', containerPath: '/app/main.py' },
+		]);
+	});
+
+	it('should sync the whole build context', () => {
+		expect(
+			getSyncTargets({ paths: { '.': '/usr/src/app' } }, ['index.js']),
+		).to.deep.equal([
+			{ hostPath: 'index.js', containerPath: '/usr/src/app/index.js' },
+		]);
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { Status } from '../../../build/utils/device/api';
+import {
+	getStatusTransitions,
+	readTargetStateFile,
+} from '../../../build/utils/device/local-state';
+
+describe('getStatusTransitions', () => {
+	const status = (
+		appState: Status['appState'],
+		containers: Array<[string, string]>,
+		images: Array<[string, string, number | null]>,
+	): Status => ({
+		appState,
+		overallDownloadProgress: null,
+		containers: containers.map(([serviceName, s]) => ({
+			serviceName,
+			status: s,
+			appId: 1,
+			imageId: 1,
+			serviceId: 1,
+			containerId: 'abc',
+			createdAt: '2024-01-31T12:00:00Z',
+		})),
+		images: images.map(([serviceName, s, downloadProgress]) => ({
+			name: `${serviceName}-image`,
+			serviceName,
+			status: s,
+			downloadProgress,
+			appId: 1,
+			imageId: 1,
+			dockerImageId: 'def',
+		})),
+	});
+
+	it('should describe the whole initial status', () => {
+		expect(
+			getStatusTransitions(
+				undefined,
+				status('applying', [], [['main', 'Downloading', 45]]),
+			),
+		).to.deep.equal(['app state: applying', 'image main: Downloading (45%)']);
+	});
+
+	it('should describe status transitions', () => {
+		const prev = status(
+			'applying',
+			[['db', 'Running']],
+			[
+				['main', 'Downloading', 45],
+				['db', 'Downloaded', null],
+			],
+		);
+		const curr = status(
+			'applied',
+			[['main', 'Running']],
+			[
+				['main', 'Downloaded', null],
+				['db', 'Downloaded', null],
+			],
+		);
+		expect(getStatusTransitions(prev, curr)).to.deep.equal([
+			'app state: applying -> applied',
+			'image main: Downloading (45%) -> Downloaded',
+			'service db: Running -> (removed)',
+			'service main: Running',
+		]);
+		expect(getStatusTransitions(curr, curr)).to.deep.equal([]);
+	});
+});
+
+describe('readTargetStateFile', function () {
+	let tmpDir: string;
+
+	this.beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-state-'));
+	});
+
+	this.afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const writeFile = async (contents: string) => {
+		const file = path.join(tmpDir, 'state.json');
+		await fs.writeFile(file, contents);
+		return file;
+	};
+
+	it('should read target states and --json output', async () => {
+		const state = { local: { name: 'dev', config: {}, apps: {} } };
+		expect(
+			await readTargetStateFile(await writeFile(JSON.stringify(state))),
+		).to.deep.equal(state);
+		expect(
+			await readTargetStateFile(
+				await writeFile(JSON.stringify({ targetState: state, status: {} })),
+			),
+		).to.deep.equal(state);
+	});
+
+	it('should reject invalid target states', async () => {
+		for (const contents of ['{ "local": ', '{ "apps": {} }']) {
+			const file = await writeFile(contents);
+			try {
+				await readTargetStateFile(file);
+				expect.fail('should have thrown');
+			} catch (err) {
+				expect(err.message).to.match(/target state file/);
+			}
+		}
+	});
+});
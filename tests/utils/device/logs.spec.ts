@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { PassThrough } from 'stream';
+import {
+	connectAndDisplayDeviceLogs,
+	displayLogObject,
+	formatLogRecord,
+	matchesLogFilter,
+	parseLogTime,
+} from '../../../build/utils/device/logs';
+
+describe('parseLogTime', () => {
+	const now = Date.parse('2024-01-31T12:00:00Z');
+
+	it('should parse durations before now', () => {
+		expect(parseLogTime('30m', now)).to.equal(now - 30 * 60 * 1000);
+		expect(parseLogTime('2h', now)).to.equal(now - 2 * 60 * 60 * 1000);
+		expect(parseLogTime('1h30m', now)).to.equal(now - 90 * 60 * 1000);
+		expect(parseLogTime('1d', now)).to.equal(now - 24 * 60 * 60 * 1000);
+	});
+
+	it('should parse timestamps', () => {
+		expect(parseLogTime('2024-01-30T08:15:00Z', now)).to.equal(
+			Date.parse('2024-01-30T08:15:00Z'),
+		);
+	});
+
+	it('should reject invalid values', () => {
+		expect(() => parseLogTime('yesterday', now)).to.throw(
+			'Invalid time "yesterday"',
+		);
+	});
+});
+
+describe('matchesLogFilter', () => {
+	const log = { timestamp: 1000, message: 'connection refused' };
+
+	it('should filter by time window', () => {
+		expect(matchesLogFilter(log, { since: 1000, until: 1000 })).to.be.true;
+		expect(matchesLogFilter(log, { since: 1001 })).to.be.false;
+		expect(matchesLogFilter(log, { until: 999 })).to.be.false;
+	});
+
+	it('should filter by message and level', () => {
+		expect(matchesLogFilter(log, { grep: /refused|timeout/ })).to.be.true;
+		expect(matchesLogFilter(log, { grep: /timeout/ })).to.be.false;
+		expect(matchesLogFilter(log, { level: 'error' })).to.be.false;
+		expect(matchesLogFilter({ ...log, isStdErr: true }, { level: 'error' })).to
+			.be.true;
+	});
+});
+
+describe('formatLogRecord', () => {
+	const record = {
+		timestamp: '2024-01-31T12:00:00.000Z',
+		device: 'dev1',
+		service: 'main',
+		level: 'info' as const,
+		message: 'Started "app"',
+	};
+
+	it('should format records as ndjson', () => {
+		expect(JSON.parse(formatLogRecord(record, 'ndjson'))).to.deep.equal(record);
+	});
+
+	it('should format records as logfmt, quoting values when needed', () => {
+		expect(formatLogRecord(record, 'logfmt')).to.equal(
+			'time=2024-01-31T12:00:00.000Z device=dev1 service=main level=info msg="Started \\"app\\""',
+		);
+	});
+});
+
+describe('displayLogObject', () => {
+	it('should return the records of logs that pass the filters', () => {
+		const logger = { logLogs: sinon.stub() } as any;
+		const opts = { output: 'json' as const, filter: { since: 2000 } };
+		expect(
+			displayLogObject(
+				{ timestamp: 1000, message: 'old', serviceName: 'main' },
+				logger,
+				false,
+				undefined,
+				opts,
+			),
+		).to.be.undefined;
+		expect(
+			displayLogObject(
+				{ timestamp: 3000, message: 'new', serviceName: 'main' },
+				logger,
+				false,
+				undefined,
+				opts,
+			),
+		).to.deep.equal({
+			timestamp: new Date(3000).toISOString(),
+			service: 'main',
+			level: 'info',
+			message: 'new',
+		});
+		expect(logger.logLogs.called).to.be.false;
+	});
+});
+
+describe('connectAndDisplayDeviceLogs', () => {
+	it('should stop calling onLog after it fails', async () => {
+		const [first, second] = ['first', 'second'].map(
+			(message) => JSON.stringify({ timestamp: 1000, message }) + '\n',
+		);
+		const logStream = new PassThrough();
+		const deviceApi = { getLogStream: () => Promise.resolve(logStream) } as any;
+		const logger = { logLogs: sinon.stub(), logWarn: sinon.stub() } as any;
+		const onLog = sinon.stub().rejects(new Error('ENOSPC'));
+		const onUnhandledRejection = sinon.spy();
+		process.on('unhandledRejection', onUnhandledRejection);
+		try {
+			const done = connectAndDisplayDeviceLogs({
+				deviceApi,
+				logger,
+				system: false,
+				onLog,
+				maxAttempts: 1,
+			}).catch(() => undefined);
+			logStream.write(first);
+			while (!logger.logWarn.called) {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+			}
+			logStream.end(second);
+			await done;
+			await new Promise((resolve) => setImmediate(resolve));
+		} finally {
+			process.removeListener('unhandledRejection', onUnhandledRejection);
+		}
+		expect(logger.logLogs.callCount).to.equal(2);
+		expect(onLog.callCount).to.equal(1);
+		expect(logger.logWarn.firstCall.args).to.deep.equal([
+			'Stopped saving and checking logs: ENOSPC',
+		]);
+		expect(onUnhandledRejection.called).to.be.false;
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+	isSshClientError,
+	LineCollector,
+} from '../../../build/utils/device/ssh-fanout';
+
+describe('isSshClientError', () => {
+	it('should tell ssh connection errors from commands exiting with 255', () => {
+		for (const stderr of [
+			'ssh: connect to host 192.168.0.10 port 22222: Connection refused\n',
+			'root@192.168.0.10: Permission denied (publickey).\n',
+			'kex_exchange_identification: read: Connection reset by peer\n',
+			'Connection closed by 192.168.0.10 port 22222\r\n',
+		]) {
+			expect(isSshClientError(255, stderr)).to.equal(true);
+		}
+		expect(isSshClientError(255, 'custom failure\n')).to.equal(false);
+		expect(isSshClientError(255, '')).to.equal(false);
+		expect(isSshClientError(1, 'ssh: connect to host failed\n')).to.equal(
+			false,
+		);
+	});
+});
+
+describe('LineCollector', () => {
+	it('should collect the text and split it into lines', async () => {
+		const lines: string[] = [];
+		const collector = new LineCollector((line) => lines.push(line));
+		collector.write('first\r\nsec');
+		collector.write('ond\nthird');
+		await new Promise((resolve) => collector.end(resolve));
+		expect(collector.text).to.equal('first\r\nsecond\nthird');
+		expect(lines).to.deep.equal(['first', 'second', 'third']);
+	});
+});
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+	LocalDeviceTracker,
+	parseSubnet,
+	querySupervisor,
+} from '../../build/utils/discover';
+
+describe('LocalDeviceTracker', function () {
+	const deviceA = {
+		host: 'a1b2c3d.local',
+		address: '192.168.1.10',
+		port: 22222,
+	};
+	const deviceB = {
+		host: 'f49cefd.local',
+		address: '192.168.1.11',
+		port: 22222,
+	};
+
+	it('should report devices that appear or disappear', () => {
+		const tracker = new LocalDeviceTracker(2);
+		expect(tracker.update([deviceA])).to.deep.equal({
+			appeared: [deviceA],
+			disappeared: [],
+		});
+		expect(tracker.update([deviceA, deviceB])).to.deep.equal({
+			appeared: [deviceB],
+			disappeared: [],
+		});
+		// A device missed by a single scan has not disappeared
+		expect(tracker.update([deviceB])).to.deep.equal({
+			appeared: [],
+			disappeared: [],
+		});
+		expect(tracker.update([deviceA, deviceB])).to.deep.equal({
+			appeared: [],
+			disappeared: [],
+		});
+		tracker.update([deviceB]);
+		expect(tracker.update([deviceB])).to.deep.equal({
+			appeared: [],
+			disappeared: [deviceA],
+		});
+	});
+});
+
+describe('querySupervisor', function () {
+	it('should report an unreachable supervisor', async () => {
+		expect(await querySupervisor('127.0.0.1', 500)).to.deep.equal({
+			supervisorReachable: false,
+		});
+	});
+});
+
+describe('parseSubnet', function () {
+	it('should list the host addresses of a subnet', () => {
+		const addresses = parseSubnet('10.0.0.0/24');
+		expect(addresses).to.have.lengthOf(254);
+		expect(addresses[0]).to.equal('10.0.0.1');
+		expect(addresses[253]).to.equal('10.0.0.254');
+		expect(parseSubnet('192.168.1.77/30')).to.deep.equal([
+			'192.168.1.77',
+			'192.168.1.78',
+		]);
+		expect(parseSubnet('172.16.5.9/32')).to.deep.equal(['172.16.5.9']);
+		expect(parseSubnet('10.1.255.255/16')).to.have.lengthOf(65534);
+	});
+
+	it('should reject invalid or too large subnets', () => {
+		for (const subnet of [
+			'10.0.0.0',
+			'10.0.0/24',
+			'10.0.0.0/33',
+			'fe80::/64',
+		]) {
+			expect(() => parseSubnet(subnet)).to.throw('Invalid subnet');
+		}
+		expect(() => parseSubnet('10.0.0.0/8')).to.throw('too large');
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { ExpectedError } from '../../build/errors';
+import type { VarRecord } from '../../build/utils/env-manifest';
+import {
+	diffVars,
+	getDesiredVars,
+	validateVarsManifest,
+} from '../../build/utils/env-manifest';
+
+describe('validateVarsManifest() function', () => {
+	it('should convert numbers and booleans to strings', () => {
+		const manifest = validateVarsManifest({
+			fleet: 'myorg/myfleet',
+			config: { BALENA_HOST_CONFIG_gpu_mem: 64 },
+			env: { DEBUG: true },
+			services: { main: { PORT: 8080 } },
+			devices: { '7cf02a6': { env: { TZ: 'UTC' } } },
+		});
+		expect(manifest).to.deep.equal({
+			fleet: 'myorg/myfleet',
+			config: { BALENA_HOST_CONFIG_gpu_mem: '64' },
+			env: { DEBUG: 'true' },
+			services: { main: { PORT: '8080' } },
+			devices: { '7cf02a6': { env: { TZ: 'UTC' } } },
+		});
+	});
+
+	it('should reject unknown keys and nested values', () => {
+		expect(() => validateVarsManifest({ envs: {} })).to.throw(
+			ExpectedError,
+			'unknown key(s): envs',
+		);
+		expect(() => validateVarsManifest({ env: { A: { b: 1 } } })).to.throw(
+			ExpectedError,
+			'"env.A" must be a string, number or boolean',
+		);
+		expect(() => validateVarsManifest(['a'])).to.throw(
+			ExpectedError,
+			'expected an object at the top level',
+		);
+	});
+});
+
+describe('diffVars() function', () => {
+	const fleet = 'myorg/myfleet';
+	const uuid = 'a'.repeat(32);
+	const desired = getDesiredVars(
+		{
+			config: { BALENA_HOST_CONFIG_gpu_mem: '64' },
+			env: { TZ: 'UTC', DEBUG: '1' },
+			services: { main: { PORT: '80' } },
+			devices: { aaaaaaa: { services: { main: { PORT: '8080' } } } },
+		},
+		fleet,
+		{ aaaaaaa: uuid },
+	);
+	const current: VarRecord[] = [
+		{
+			resource: 'application_environment_variable',
+			target: fleet,
+			name: 'TZ',
+			value: 'UTC',
+			id: 1,
+		},
+		{
+			resource: 'application_environment_variable',
+			target: fleet,
+			name: 'DEBUG',
+			value: '0',
+			id: 2,
+		},
+		{
+			resource: 'application_environment_variable',
+			target: fleet,
+			name: 'OLD',
+			value: 'x',
+			id: 3,
+		},
+		{
+			resource: 'service_environment_variable',
+			target: fleet,
+			serviceName: 'main',
+			name: 'PORT',
+			value: '80',
+			id: 4,
+		},
+	];
+
+	it('should map manifest scopes to the six resource types', () => {
+		expect(desired.map((v) => [v.resource, v.target])).to.deep.equal([
+			['application_config_variable', fleet],
+			['application_environment_variable', fleet],
+			['application_environment_variable', fleet],
+			['service_environment_variable', fleet],
+			['device_service_environment_variable', uuid],
+		]);
+	});
+
+	it('should report additions and updates, and removals only when pruning', () => {
+		const summarize = (prune: boolean) =>
+			diffVars(desired, current, prune).map(
+				(c) => `${c.action} ${(c.desired ?? c.current)!.name}`,
+			);
+		expect(summarize(false)).to.deep.equal([
+			'add PORT',
+			'add BALENA_HOST_CONFIG_gpu_mem',
+			'update DEBUG',
+		]);
+		expect(summarize(true)).to.deep.equal([
+			'add PORT',
+			'add BALENA_HOST_CONFIG_gpu_mem',
+			'update DEBUG',
+			'remove OLD',
+		]);
+	});
+});
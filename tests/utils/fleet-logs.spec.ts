@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import {
+	LogDeduplicator,
+	getFleetLogHistory,
+} from '../../build/utils/fleet-logs';
+
+describe('LogDeduplicator', () => {
+	it('should drop log lines replayed after resubscribing', () => {
+		const dedup = new LogDeduplicator();
+		const lines = [
+			{ timestamp: 1, message: 'a' },
+			{ timestamp: 2, message: 'b' },
+			{ timestamp: 2, message: 'c' },
+			// replayed
+			{ timestamp: 1, message: 'a' },
+			{ timestamp: 2, message: 'b' },
+			{ timestamp: 2, message: 'c' },
+			// new
+			{ timestamp: 2, message: 'd' },
+			{ timestamp: 3, message: 'a' },
+		];
+		expect(
+			lines.filter((l) => dedup.isNew(l)).map((l) => l.message),
+		).to.deep.equal(['a', 'b', 'c', 'd', 'a']);
+	});
+});
+
+describe('getFleetLogHistory() function', () => {
+	it('should merge the logs of all selected devices by timestamp', async () => {
+		const sdk: any = {
+			models: {
+				device: {
+					getAllByApplication: sinon.stub().resolves([
+						{ uuid: 'a1', device_name: 'dev1', device_tag: [] },
+						{ uuid: 'b2', device_name: 'dev2', device_tag: [] },
+					]),
+				},
+			},
+			logs: {
+				history: sinon.stub().callsFake((uuid: string) =>
+					uuid === 'a1'
+						? [
+								{ timestamp: 1, message: 'a1 first' },
+								{ timestamp: 3, message: 'a1 second' },
+							]
+						: [{ timestamp: 2, message: 'b2 first' }],
+				),
+			},
+		};
+		const lines: string[] = [];
+		await getFleetLogHistory(sdk, { fleet: 'org/fleet' }, (device, log) => {
+			lines.push(`${device.device_name}: ${log.message}`);
+		});
+		expect(lines).to.deep.equal([
+			'dev1: a1 first',
+			'dev2: b2 first',
+			'dev1: a1 second',
+		]);
+	});
+});
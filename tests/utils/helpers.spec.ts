@@ -17,7 +17,7 @@
 
 import { expect } from 'chai';
 
-import { getProxyConfig } from '../../build/utils/helpers';
+import { getProxyConfig, mapWithConcurrency } from '../../build/utils/helpers';
 
 describe('getProxyConfig() function', function () {
 	let originalProxyConfig: [boolean, object | undefined];
@@ -85,3 +85,19 @@ describe('getProxyConfig() function', function () {
 		expect(getProxyConfig()).to.deep.equal(expectedProxyConfig);
 	});
 });
+
+describe('mapWithConcurrency', () => {
+	it('should limit the number of concurrent calls', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 6 - n));
+			running--;
+			return n * 10;
+		});
+		expect(results).to.deep.equal([10, 20, 30, 40, 50]);
+		expect(maxRunning).to.equal(2);
+	});
+});
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import { LogAlerter, getAlertEnv } from '../../build/utils/log-alerts';
+
+describe('LogAlerter', () => {
+	const panic = (serviceName?: string) => ({
+		timestamp: 1000,
+		serviceName,
+		message: 'panic: runtime error',
+	});
+
+	it('should alert on matching lines only', () => {
+		const alerter = new LogAlerter({ pattern: /panic/, interval: 0 });
+		expect(alerter.check('dev1', { message: 'all good' }, 0)).to.be.undefined;
+		expect(alerter.check('dev1', panic('main'), 0)).to.deep.equal({
+			device: 'dev1',
+			service: 'main',
+			message: 'panic: runtime error',
+			timestamp: new Date(1000).toISOString(),
+			suppressed: 0,
+		});
+	});
+
+	it('should rate limit alerts per device service', () => {
+		const alerter = new LogAlerter({ pattern: /panic/, interval: 60000 });
+		expect(alerter.check('dev1', panic('main'), 0)).to.not.be.undefined;
+		expect(alerter.check('dev1', panic('main'), 1000)).to.be.undefined;
+		expect(alerter.check('dev1', panic('main'), 2000)).to.be.undefined;
+		expect(alerter.check('dev1', panic('db'), 2000)).to.not.be.undefined;
+		expect(alerter.check('dev2', panic('main'), 2000)).to.not.be.undefined;
+		expect(alerter.check('dev1', panic('main'), 60000)).to.have.property(
+			'suppressed',
+			2,
+		);
+	});
+
+	it('should pass alerts to commands as environment variables', () => {
+		expect(
+			getAlertEnv({
+				device: 'dev1',
+				message: 'panic',
+				timestamp: '2024-01-31T12:00:00.000Z',
+				suppressed: 3,
+			}),
+		).to.deep.equal({
+			BALENA_DEVICE_UUID: 'dev1',
+			BALENA_SERVICE: '',
+			BALENA_LOG_MESSAGE: 'panic',
+			BALENA_LOG_TIMESTAMP: '2024-01-31T12:00:00.000Z',
+			BALENA_LOG_SUPPRESSED: '3',
+		});
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	LogRecorder,
+	readSavedLogFile,
+	readSavedLogs,
+} from '../../build/utils/log-files';
+
+describe('saved log files', function () {
+	let tmpDir: string;
+	const newRecorder = (maxFileSize = 1024 * 1024, maxFileAge = 60 * 1000) =>
+		new LogRecorder({ dir: tmpDir, maxFileSize, maxFileAge, maxFiles: 2 });
+
+	this.beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-files-'));
+	});
+
+	this.afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should save logs per device and service, skipping replayed lines', async () => {
+		const recorder = newRecorder();
+		await recorder.write('dev1', {
+			timestamp: 1,
+			serviceName: 'main',
+			message: 'a',
+		});
+		await recorder.write('dev1', { timestamp: 2, message: 'booted' });
+		// replayed after reconnecting, also by a new recorder
+		await recorder.write('dev1', {
+			timestamp: 1,
+			serviceName: 'main',
+			message: 'a',
+		});
+		await newRecorder().write('dev1', {
+			timestamp: 1,
+			serviceName: 'main',
+			message: 'a',
+		});
+		await recorder.write('dev1', {
+			timestamp: 3,
+			serviceName: 'main',
+			message: 'b',
+		});
+
+		expect(
+			await readSavedLogFile(path.join(tmpDir, 'dev1', 'main.log')),
+		).to.deep.equal([
+			{ timestamp: 1, serviceName: 'main', message: 'a' },
+			{ timestamp: 3, serviceName: 'main', message: 'b' },
+		]);
+		expect(
+			await readSavedLogFile(path.join(tmpDir, 'dev1', '_system.log')),
+		).to.deep.equal([{ timestamp: 2, message: 'booted' }]);
+	});
+
+	it('should rotate files by size and age, keeping maxFiles files', async () => {
+		const recorder = newRecorder(40, 1000);
+		for (const [timestamp, message] of [
+			[1, 'first line is long enough'],
+			[2, 'second'],
+			[3, 'third'],
+			[5000, 'fourth'],
+		] as const) {
+			await recorder.write('dev1', { timestamp, message });
+		}
+		const files = (await fs.readdir(path.join(tmpDir, 'dev1'))).sort();
+		expect(files).to.deep.equal([
+			'_system.1.log',
+			'_system.2.log',
+			'_system.log',
+		]);
+		expect(
+			await readSavedLogFile(path.join(tmpDir, 'dev1', '_system.log')),
+		).to.deep.equal([{ timestamp: 5000, message: 'fourth' }]);
+	});
+
+	it('should read the saved logs of all devices in timestamp order', async () => {
+		const recorder = newRecorder();
+		await recorder.write('dev1', { timestamp: 2, message: 'b' });
+		await recorder.write('dev2', {
+			timestamp: 1,
+			serviceName: 'main',
+			message: 'a',
+		});
+		await recorder.write('dev2', {
+			timestamp: 3,
+			deviceName: 'my-device',
+			message: 'c',
+		});
+
+		expect(await readSavedLogs(tmpDir)).to.deep.equal([
+			{ deviceName: 'dev2', timestamp: 1, serviceName: 'main', message: 'a' },
+			{ deviceName: 'dev1', timestamp: 2, message: 'b' },
+			{ deviceName: 'my-device', timestamp: 3, message: 'c' },
+		]);
+	});
+});
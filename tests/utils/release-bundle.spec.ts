@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar-stream';
+
+import type { ReleaseBundleManifest } from '../../build/utils/release-bundle';
+import {
+	loadReleaseBundleImages,
+	readReleaseBundleManifest,
+} from '../../build/utils/release-bundle';
+
+describe('release bundle', function () {
+	let tmpDir: string;
+	const manifest: ReleaseBundleManifest = {
+		bundleVersion: 1,
+		fleet: { slug: 'org/staging', deviceType: 'raspberrypi4-64' },
+		release: {
+			commit: 'aaaaaaa',
+			composition: { version: '2.1', services: { main: {}, db: {} } },
+			contract: null,
+			semver: '0.0.0',
+			note: 'test release',
+			tags: { version: '1' },
+			images: {},
+		},
+		images: {
+			main: { name: 'aaaaaaa_main:latest', path: 'images/main.tar' },
+			db: { name: 'aaaaaaa_db:latest', path: 'images/db.tar' },
+		},
+	};
+
+	const writeBundle = async (entries: Array<[string, string]>) => {
+		const bundlePath = path.join(tmpDir, 'bundle.tar');
+		const pack = tar.pack();
+		for (const [name, contents] of entries) {
+			pack.entry({ name }, contents);
+		}
+		pack.finalize();
+		await pipeline(pack, createWriteStream(bundlePath));
+		return bundlePath;
+	};
+
+	this.beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'release-bundle-'));
+	});
+
+	this.afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should read the manifest of a bundle', async () => {
+		const bundlePath = await writeBundle([
+			['release.json', JSON.stringify(manifest)],
+			['images/main.tar', 'main image'],
+		]);
+		expect(await readReleaseBundleManifest(bundlePath)).to.deep.equal(manifest);
+	});
+
+	it('should reject files that are not release bundles', async () => {
+		const bundlePath = await writeBundle([['other.txt', 'hello']]);
+		try {
+			await readReleaseBundleManifest(bundlePath);
+			expect.fail('readReleaseBundleManifest() should have thrown');
+		} catch (err) {
+			expect(err.message).to.contain("'release.json' not found");
+		}
+	});
+
+	it('should load the images of a bundle', async () => {
+		const bundlePath = await writeBundle([
+			['release.json', JSON.stringify(manifest)],
+			['images/main.tar', 'main image'],
+			['images/db.tar', 'db image'],
+		]);
+		const loaded: string[] = [];
+		const docker = {
+			loadImage: async (stream: NodeJS.ReadableStream) => {
+				const chunks: Buffer[] = [];
+				for await (const chunk of stream) {
+					chunks.push(chunk as Buffer);
+				}
+				loaded.push(Buffer.concat(chunks).toString());
+				return Readable.from(['{"stream":"Loaded image"}\n']);
+			},
+		};
+		const imageNames = await loadReleaseBundleImages(
+			docker as any,
+			{ logInfo: () => undefined } as any,
+			bundlePath,
+			manifest,
+		);
+		expect(loaded).to.deep.equal(['main image', 'db image']);
+		expect(imageNames).to.deep.equal({
+			main: 'aaaaaaa_main:latest',
+			db: 'aaaaaaa_db:latest',
+		});
+	});
+
+	it('should remove the loaded images if loading an image fails', async () => {
+		const bundlePath = await writeBundle([
+			['release.json', JSON.stringify(manifest)],
+			['images/main.tar', 'main image'],
+			['images/db.tar', 'db image'],
+		]);
+		const removed: string[] = [];
+		const docker = {
+			loadImage: async (stream: NodeJS.ReadableStream) => {
+				let contents = '';
+				for await (const chunk of stream) {
+					contents += chunk.toString();
+				}
+				return Readable.from([
+					contents === 'db image'
+						? '{"error":"no space left on device"}\n'
+						: '{"stream":"Loaded image"}\n',
+				]);
+			},
+			getImage: (name: string) => ({
+				remove: () => {
+					removed.push(name);
+					return Promise.resolve();
+				},
+			}),
+		};
+		const noop = () => undefined;
+		try {
+			await loadReleaseBundleImages(
+				docker as any,
+				{ logInfo: noop, logDebug: noop } as any,
+				bundlePath,
+				manifest,
+			);
+			expect.fail('loadReleaseBundleImages() should have thrown');
+		} catch (err) {
+			expect(err.message).to.contain(
+				"Failed to load image for service 'db': no space left on device",
+			);
+		}
+		expect(removed).to.deep.equal(['aaaaaaa_main:latest']);
+	});
+});
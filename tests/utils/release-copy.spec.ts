@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+
+import { getBalenaSdk } from '../../build/utils/lazy';
+import { checkFleetCompatibility } from '../../build/utils/release-copy';
+
+describe('checkFleetCompatibility() function', function () {
+	const arches: Dictionary<string> = {
+		raspberrypi3: 'armv7hf',
+		'raspberrypi4-64': 'aarch64',
+	};
+	const armv7Fleet = { slug: 'org/armv7', deviceType: 'raspberrypi3' };
+	const aarch64Fleet = { slug: 'org/aarch64', deviceType: 'raspberrypi4-64' };
+	let getDeviceType: sinon.SinonStub;
+
+	this.beforeEach(() => {
+		getDeviceType = sinon
+			.stub(getBalenaSdk().models.deviceType, 'get')
+			.callsFake((slug) =>
+				Promise.resolve({
+					is_of__cpu_architecture: [{ slug: arches[slug as string] }],
+				} as any),
+			);
+	});
+
+	this.afterEach(() => {
+		getDeviceType.restore();
+	});
+
+	it('should allow a release to run on a compatible architecture', async () => {
+		// an armv7hf release can run on an aarch64 fleet
+		await checkFleetCompatibility(aarch64Fleet, armv7Fleet);
+		expect(getDeviceType.callCount).to.equal(2);
+	});
+
+	it('should refuse a release built for an incompatible architecture', async () => {
+		// an aarch64 release cannot run on an armv7hf fleet
+		let error: Error | undefined;
+		try {
+			await checkFleetCompatibility(armv7Fleet, aarch64Fleet);
+		} catch (err) {
+			error = err;
+		}
+		expect(error?.message).to.contain(
+			'The device type of fleet org/armv7 (raspberrypi3) is not compatible',
+		);
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import {
+	diffReleases,
+	diffServiceConfig,
+	isEmptyDiff,
+} from '../../build/utils/release-diff';
+
+describe('diffServiceConfig() function', () => {
+	it('should compare labels and environment entry by entry', () => {
+		const entries = diffServiceConfig(
+			{
+				environment: ['DEBUG=0', 'TZ=UTC'],
+				labels: { 'io.balena.features.dbus': '1' },
+			},
+			{
+				environment: { DEBUG: '1', TZ: 'UTC', PORT: '80' },
+				labels: {},
+			},
+		);
+		expect(entries).to.deep.equal([
+			{ action: 'update', key: 'environment.DEBUG', before: '0', after: '1' },
+			{ action: 'add', key: 'environment.PORT', after: '80' },
+			{ action: 'remove', key: 'labels.io.balena.features.dbus', before: '1' },
+		]);
+	});
+
+	it('should compare ports ignoring their order', () => {
+		expect(
+			diffServiceConfig(
+				{ ports: ['80:80', '443:443'], privileged: true },
+				{ ports: ['443:443', '8080:80'] },
+			),
+		).to.deep.equal([
+			{ action: 'remove', key: 'ports', before: '80:80' },
+			{ action: 'add', key: 'ports', after: '8080:80' },
+			{ action: 'remove', key: 'privileged', before: true },
+		]);
+	});
+});
+
+describe('diffReleases() function', () => {
+	const release = {
+		composition: {
+			version: '2.1',
+			volumes: { data: {} },
+			services: {
+				main: { build: { context: '.' }, network_mode: 'host' },
+				db: { image: 'postgres' },
+			},
+		},
+		images: { main: 'sha256:aaa', db: 'sha256:bbb' },
+		tags: { version: '1.0' },
+		note: 'first',
+	};
+
+	it('should report no differences for identical releases', () => {
+		expect(isEmptyDiff(diffReleases(release, release))).to.be.true;
+	});
+
+	it('should report services, images, tags and note changes', () => {
+		const diff = diffReleases(release, {
+			composition: {
+				...release.composition,
+				services: {
+					main: { build: { context: '.' }, network_mode: 'bridge' },
+					cache: { image: 'redis' },
+				},
+			},
+			images: { main: 'sha256:ccc', cache: 'sha256:ddd' },
+			tags: { version: '1.1', reviewed: 'yes' },
+			note: null,
+		});
+		expect(diff.services).to.deep.equal({
+			added: ['cache'],
+			removed: ['db'],
+			changed: {
+				main: [
+					{
+						action: 'update',
+						key: 'network_mode',
+						before: 'host',
+						after: 'bridge',
+					},
+				],
+			},
+		});
+		expect(diff.composition).to.be.empty;
+		expect(diff.images.map((e) => `${e.action} ${e.key}`)).to.deep.equal([
+			'add cache',
+			'remove db',
+			'update main',
+		]);
+		expect(diff.tags).to.deep.equal([
+			{ action: 'add', key: 'reviewed', after: 'yes' },
+			{ action: 'update', key: 'version', before: '1.0', after: '1.1' },
+		]);
+		expect(diff.note).to.deep.equal({
+			action: 'update',
+			key: 'note',
+			before: 'first',
+			after: '',
+		});
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import type { RolloutState } from '../../build/utils/rollout';
+import {
+	awaitBatchRelease,
+	chooseRolloutDevices,
+	getHaltReason,
+	planBatches,
+} from '../../build/utils/rollout';
+
+describe('rollout utils', function () {
+	const devices = ['d4', 'a1', 'c3', 'b2', 'e5'].map((uuid) => ({ uuid }));
+
+	it('chooseRolloutDevices() should choose a rounded up percentage by UUID', () => {
+		expect(chooseRolloutDevices(devices, 10)).to.deep.equal([{ uuid: 'a1' }]);
+		expect(chooseRolloutDevices(devices, 50)).to.deep.equal([
+			{ uuid: 'a1' },
+			{ uuid: 'b2' },
+			{ uuid: 'c3' },
+		]);
+		expect(chooseRolloutDevices(devices, 100)).to.have.lengthOf(5);
+		expect(chooseRolloutDevices([], 100)).to.deep.equal([]);
+	});
+
+	it('planBatches() should split devices into batches', () => {
+		expect(planBatches(['a', 'b', 'c', 'd', 'e'], 2)).to.deep.equal([
+			['a', 'b'],
+			['c', 'd'],
+			['e'],
+		]);
+	});
+
+	it('getHaltReason() should report offline devices and failed services', () => {
+		const device = (isOnline: boolean, statuses: string[]) =>
+			({
+				uuid: 'a1',
+				device_name: 'dev1',
+				is_online: isOnline,
+				is_running__release: null,
+				image_install: statuses.map((status) => ({ status })),
+			}) as any;
+		expect(getHaltReason([device(true, ['Running', 'Downloading'])])).to.be
+			.undefined;
+		expect(getHaltReason([device(false, ['Running'])])).to.equal(
+			'Device dev1 (a1) went offline',
+		);
+		expect(getHaltReason([device(true, ['Running', 'Dead'])])).to.equal(
+			"Device dev1 (a1) reported a service in 'Dead' state",
+		);
+	});
+
+	it('awaitBatchRelease() should ignore the failed services of previous releases', async () => {
+		const state: RolloutState = {
+			fleet: 'myorg/myfleet',
+			release: { id: 2, commit: 'bbbbbbb' },
+			batches: [['a1']],
+			completedBatches: 0,
+			previousReleases: { a1: 1 },
+			timeout: 1,
+		};
+		const installs = [
+			{ status: 'Dead', is_provided_by__release: { __id: 1 } },
+			{ status: 'Downloading', is_provided_by__release: { __id: 2 } },
+		];
+		let polls = 0;
+		// Filter the image installs like the API does
+		const getAllByApplication = (_fleet: string, options: any) => {
+			const releaseId =
+				options.$expand.image_install.$filter.is_provided_by__release;
+			return Promise.resolve([
+				{
+					uuid: 'a1',
+					device_name: 'dev1',
+					is_online: true,
+					is_running__release: { __id: ++polls > 1 ? 2 : 1 },
+					image_install: installs
+						.filter((ii) => ii.is_provided_by__release.__id === releaseId)
+						.map(({ status }) => ({ status })),
+				},
+			]);
+		};
+		const sdk = { models: { device: { getAllByApplication } } } as any;
+		await awaitBatchRelease(sdk, state, 0);
+		expect(polls).to.equal(2);
+	});
+});
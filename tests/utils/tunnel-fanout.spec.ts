@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+
+import {
+	allocateLocalPorts,
+	parsePortRange,
+} from '../../build/utils/tunnel-fanout';
+
+describe('tunnel fan-out utils', function () {
+	const uuids = [
+		'f49cefd7ab7d4f9bb5e2a0bd4f3c6bd0',
+		'2ead211c4d5e4f9a8b7c6d5e4f3a2b1c',
+		'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6',
+	];
+
+	it('parsePortRange() should parse and validate port ranges', () => {
+		expect(parsePortRange('20000-29999')).to.deep.equal({
+			start: 20000,
+			end: 29999,
+		});
+		for (const range of ['20000', '0-10', '30000-20000', '1-70000']) {
+			expect(() => parsePortRange(range)).to.throw('Invalid port range');
+		}
+	});
+
+	it('allocateLocalPorts() should allocate a distinct port to each device and remote port', () => {
+		const range = { start: 20000, end: 20003 };
+		const allocations = allocateLocalPorts(uuids, [9100], range);
+		expect(allocations.map((a) => a.uuid)).to.deep.equal([...uuids].sort());
+		const ports = allocations.map((a) => a.localPort);
+		expect(new Set(ports).size).to.equal(3);
+		for (const port of ports) {
+			expect(port).to.be.within(20000, 20003);
+		}
+		expect(() => allocateLocalPorts(uuids, [80, 9100], range)).to.throw(
+			'The port range 20000-20003 is too small for 6 tunnels',
+		);
+	});
+
+	it('allocateLocalPorts() should keep the ports of devices stable', () => {
+		const range = { start: 20000, end: 29999 };
+		const before = allocateLocalPorts(uuids.slice(0, 2), [9100], range);
+		const after = allocateLocalPorts(uuids, [9100], range);
+		for (const allocation of before) {
+			expect(after).to.deep.include(allocation);
+		}
+	});
+});
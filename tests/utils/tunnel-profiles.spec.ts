@@ -0,0 +1,176 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExpectedError } from '../../build/errors';
+import { parsePortMapping } from '../../build/utils/tunnel';
+import {
+	getRetryDelayMs,
+	getTunnelProfiles,
+	TunnelProfileRunner,
+} from '../../build/utils/tunnel-profiles';
+
+describe('parsePortMapping', () => {
+	it('should use the default local address', () => {
+		expect(parsePortMapping('5432', '0.0.0.0')).to.deep.equal({
+			remotePort: 5432,
+			localAddress: '0.0.0.0',
+			localPort: 5432,
+		});
+		expect(parsePortMapping('80:127.0.0.1:8080', '0.0.0.0')).to.deep.equal({
+			remotePort: 80,
+			localAddress: '127.0.0.1',
+			localPort: 8080,
+		});
+		expect(() => parsePortMapping('80:a:b:c')).to.throw(
+			"'80:a:b:c' is not a valid port mapping.",
+		);
+	});
+});
+
+describe('getRetryDelayMs', () => {
+	it('should double the delay up to one minute', () => {
+		expect([0, 1, 2, 5, 6, 10].map(getRetryDelayMs)).to.deep.equal([
+			1000, 2000, 4000, 32000, 60000, 60000,
+		]);
+	});
+});
+
+describe('getTunnelProfiles', () => {
+	let tmpDir: string;
+	let sdk: any;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tunnel-profiles-'));
+		sdk = { settings: { get: () => Promise.resolve(tmpDir) } };
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should return no profiles if the file does not exist', async () => {
+		expect(await getTunnelProfiles(sdk)).to.deep.equal({});
+	});
+
+	it('should reject a corrupt profiles file', async () => {
+		const profilesPath = path.join(tmpDir, 'tunnels.json');
+		await fs.writeFile(profilesPath, '{"web": ');
+		let error: Error | undefined;
+		try {
+			await getTunnelProfiles(sdk);
+		} catch (err) {
+			error = err;
+		}
+		expect(error).to.be.instanceOf(ExpectedError);
+		expect(error?.message).to.include(profilesPath);
+	});
+});
+
+describe('TunnelProfileRunner', () => {
+	let echoServer: net.Server;
+	let echoPort: number;
+
+	before(async () => {
+		echoServer = net.createServer((socket) => socket.pipe(socket));
+		await new Promise<void>((resolve) =>
+			echoServer.listen(0, '127.0.0.1', resolve),
+		);
+		echoPort = (echoServer.address() as net.AddressInfo).port;
+	});
+
+	after(async () => {
+		await new Promise((resolve) => echoServer.close(resolve));
+	});
+
+	/** Connect to the given local port, send a message and return the reply */
+	const sendMessage = (port: number, message: string) =>
+		new Promise<string>((resolve, reject) => {
+			const socket = net.connect(port, '127.0.0.1', () => {
+				socket.end(message);
+			});
+			let reply = '';
+			socket.on('data', (data) => {
+				reply += data.toString();
+			});
+			socket.on('close', () => {
+				resolve(reply);
+			});
+			socket.on('error', reject);
+		});
+
+	it('should tunnel connections, retrying while the device is unreachable', async () => {
+		let attempts = 0;
+		const runner = new TunnelProfileRunner(
+			{
+				device: 'f49cefd',
+				bindAddress: '127.0.0.1',
+				ports: [{ remotePort: 22, localAddress: '127.0.0.1', localPort: 0 }],
+			},
+			() =>
+				attempts++ === 1
+					? Promise.reject(new Error('Device is offline'))
+					: Promise.resolve(net.connect(echoPort, '127.0.0.1')),
+			{ healthCheckInterval: 60000, maxRetries: 2 },
+		);
+		try {
+			await runner.start();
+			expect(runner.tunnels[0].reachable).to.be.true;
+			const port = (runner.tunnels[0].server!.address() as net.AddressInfo)
+				.port;
+			expect(await sendMessage(port, 'hello')).to.equal('hello');
+			expect(attempts).to.equal(3);
+			expect(runner.stats).to.deep.equal({
+				active: 0,
+				total: 1,
+				bytesIn: 5,
+				bytesOut: 5,
+			});
+			expect(runner.getStatusLine()).to.equal(
+				'0 up | connections: 0 active, 1 total | received 5 bytes, sent 5 bytes',
+			);
+		} finally {
+			await runner.stop();
+		}
+	});
+
+	it('should report unreachable remote ports', async () => {
+		const runner = new TunnelProfileRunner(
+			{
+				device: 'f49cefd',
+				bindAddress: '127.0.0.1',
+				ports: [{ remotePort: 22, localAddress: '127.0.0.1', localPort: 0 }],
+			},
+			() => Promise.reject(new Error('Device is not listening on port 22')),
+			{ healthCheckInterval: 60000, maxRetries: 0 },
+		);
+		try {
+			await runner.start();
+			expect(runner.tunnels[0]).to.include({
+				reachable: false,
+				lastError: 'Device is not listening on port 22',
+			});
+		} finally {
+			await runner.stop();
+		}
+	});
+});
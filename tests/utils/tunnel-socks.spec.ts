@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as net from 'net';
+
+import {
+	parseSocksGreeting,
+	parseSocksRequest,
+	startSocksServer,
+} from '../../build/utils/tunnel-socks';
+
+describe('SOCKS5 parsing', () => {
+	it('should parse greetings', () => {
+		expect(parseSocksGreeting(Buffer.from([5, 2, 0]))).to.be.undefined;
+		expect(parseSocksGreeting(Buffer.from([5, 2, 0, 2]))).to.deep.equal({
+			methods: [0, 2],
+			length: 4,
+		});
+	});
+
+	it('should parse CONNECT requests', () => {
+		const domain = Buffer.concat([
+			Buffer.from([5, 1, 0, 3, 14]),
+			Buffer.from('2ead211.balena'),
+			Buffer.from([0x1f, 0x90]),
+		]);
+		expect(parseSocksRequest(domain)).to.deep.equal({
+			command: 1,
+			host: '2ead211.balena',
+			port: 8080,
+			length: 21,
+		});
+		expect(parseSocksRequest(domain.subarray(0, 20))).to.be.undefined;
+		expect(
+			parseSocksRequest(Buffer.from([5, 1, 0, 1, 127, 0, 0, 1, 0, 80])),
+		).to.deep.equal({ command: 1, host: '127.0.0.1', port: 80, length: 10 });
+	});
+});
+
+describe('startSocksServer', () => {
+	let device: net.Server;
+	let socksServer: net.Server;
+	const ports: number[] = [];
+
+	before(async () => {
+		device = net.createServer((socket) => socket.pipe(socket));
+		await new Promise<void>((resolve) =>
+			device.listen(0, '127.0.0.1', resolve),
+		);
+		const devicePort = (device.address() as net.AddressInfo).port;
+		socksServer = await startSocksServer(
+			(port) => {
+				ports.push(port);
+				return Promise.resolve(net.connect(devicePort, '127.0.0.1'));
+			},
+			['2ead211', '2ead211.balena'],
+			0,
+			'127.0.0.1',
+		);
+	});
+
+	after(async () => {
+		await new Promise((resolve) => socksServer.close(resolve));
+		await new Promise((resolve) => device.close(resolve));
+	});
+
+	/** Send a SOCKS5 greeting, request and message, returning the reply */
+	const socksExchange = (host: string, port: number, message: string) =>
+		new Promise<Buffer>((resolve, reject) => {
+			const { port: socksPort } = socksServer.address() as net.AddressInfo;
+			const socket = net.connect(socksPort, '127.0.0.1', () => {
+				const portBytes = Buffer.alloc(2);
+				portBytes.writeUInt16BE(port);
+				socket.end(
+					Buffer.concat([
+						Buffer.from([5, 1, 0]),
+						Buffer.from([5, 1, 0, 3, host.length]),
+						Buffer.from(host),
+						portBytes,
+						Buffer.from(message),
+					]),
+				);
+			});
+			const chunks: Buffer[] = [];
+			socket.on('data', (data) => chunks.push(data));
+			socket.on('close', () => {
+				resolve(Buffer.concat(chunks));
+			});
+			socket.on('error', reject);
+		});
+
+	it('should tunnel connections to device host names', async () => {
+		const reply = await socksExchange('2ead211.balena', 8080, 'hello');
+		expect([...reply.subarray(0, 4)]).to.deep.equal([5, 0, 5, 0]);
+		expect(reply.subarray(12).toString()).to.equal('hello');
+		expect(ports).to.deep.equal([8080]);
+	});
+
+	it('should refuse other destinations', async () => {
+		const reply = await socksExchange('example.com', 80, 'hello');
+		expect([...reply]).to.deep.equal([5, 0, 5, 2, 0, 1, 0, 0, 0, 0, 0, 0]);
+		expect(ports).to.deep.equal([8080]);
+	});
+});
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2024 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from 'chai';
+import * as dgram from 'dgram';
+import * as net from 'net';
+
+import {
+	DatagramDecoder,
+	encodeDatagram,
+	forwardUdpPort,
+} from '../../build/utils/tunnel-udp';
+
+describe('UDP tunnel framing', () => {
+	it('should prefix datagrams with their length', () => {
+		expect(encodeDatagram(Buffer.from('abc'), 'length')).to.deep.equal(
+			Buffer.from([0, 3, 0x61, 0x62, 0x63]),
+		);
+		expect(encodeDatagram(Buffer.from('abc'), 'mbap')).to.deep.equal(
+			Buffer.from('abc'),
+		);
+	});
+
+	it('should split the stream into datagrams', () => {
+		const decoder = new DatagramDecoder('length');
+		expect(decoder.push(Buffer.from([0, 2, 0x61]))).to.deep.equal([]);
+		expect(decoder.push(Buffer.from([0x62, 0, 1, 0x63, 0]))).to.deep.equal([
+			Buffer.from('ab'),
+			Buffer.from('c'),
+		]);
+		expect(decoder.push(Buffer.from([0]))).to.deep.equal([Buffer.from('')]);
+	});
+
+	it('should split the stream into Modbus frames', () => {
+		// MBAP header (transaction 1, protocol 0, length 3), unit 1, PDU 0x83 0x02
+		const frame1 = Buffer.from([0, 1, 0, 0, 0, 3, 1, 0x83, 0x02]);
+		const frame2 = Buffer.from([0, 2, 0, 0, 0, 2, 1, 0x05]);
+		const decoder = new DatagramDecoder('mbap');
+		// frames merged into a chunk, and a frame split across chunks
+		const stream = Buffer.concat([frame1, frame2, frame1]);
+		expect(decoder.push(stream.subarray(0, 4))).to.deep.equal([]);
+		expect(decoder.push(stream.subarray(4, 20))).to.deep.equal([
+			frame1,
+			frame2,
+		]);
+		expect(decoder.push(stream.subarray(20))).to.deep.equal([frame1]);
+	});
+});
+
+describe('forwardUdpPort', () => {
+	it('should forward datagrams over a TCP connection to the device', async () => {
+		// Echoes the framed datagrams back, like a DNS over TCP server would reply
+		const device = net.createServer((socket) => socket.pipe(socket));
+		await new Promise<void>((resolve) =>
+			device.listen(0, '127.0.0.1', resolve),
+		);
+		const devicePort = (device.address() as net.AddressInfo).port;
+		const udpSocket = await forwardUdpPort(
+			() => Promise.resolve(net.connect(devicePort, '127.0.0.1')),
+			{ remotePort: 53, localAddress: '127.0.0.1', localPort: 0 },
+			'length',
+		);
+		const client = dgram.createSocket('udp4');
+		try {
+			const reply = new Promise<string>((resolve) => {
+				client.once('message', (data) => {
+					resolve(data.toString());
+				});
+			});
+			client.send('query', udpSocket.address().port, '127.0.0.1');
+			expect(await reply).to.equal('query');
+		} finally {
+			client.close();
+			udpSocket.close();
+			await new Promise((resolve) => device.close(resolve));
+		}
+	});
+});